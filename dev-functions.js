@@ -8,7 +8,9 @@
  *
  * Environment variables needed:
  * - OWM_API_KEY: OpenWeatherMap API key
+ * - WEATHER_PROVIDER: owm, open-meteo or local (optional, see functions/weather.js)
  * - OPENCAGE_API_KEY: OpenCage API key (optional)
+ * - ELEVATION_API_URL: OpenTopoData-style DEM endpoint (optional)
  */
 
 const http = require('http');
@@ -32,6 +34,23 @@ try {
 
 const PORT = process.env.FUNCTIONS_PORT || 8787;
 
+// Same query as functions/weather.js
+const OPEN_METEO_QUERY = [
+  'current=temperature_2m,apparent_temperature,relative_humidity_2m,weather_code,is_day,wind_speed_10m,wind_direction_10m,uv_index,precipitation',
+  'minutely_15=precipitation',
+  'forecast_minutely_15=8',
+  'hourly=temperature_2m,weather_code,is_day,precipitation_probability,precipitation',
+  'daily=temperature_2m_max,temperature_2m_min,weather_code,precipitation_probability_max',
+  'wind_speed_unit=ms',
+  'timezone=auto',
+  'timeformat=unixtime',
+  'forecast_days=2',
+].join('&');
+
+const WEATHER_FIXTURE_FILE = 'public/fixtures/weather-open-meteo.json';
+
+const WEATHER_PROVIDERS = ['owm', 'open-meteo', 'local'];
+
 // Weather function handler
 async function handleWeather(url) {
   const lat = url.searchParams.get('lat');
@@ -48,7 +67,30 @@ async function handleWeather(url) {
   }
 
   const apiKey = process.env.OWM_API_KEY;
-  if (!apiKey) {
+  const provider =
+    process.env.WEATHER_PROVIDER || (apiKey ? 'owm' : 'open-meteo');
+  if (!WEATHER_PROVIDERS.includes(provider)) {
+    return {
+      status: 500,
+      body: JSON.stringify({
+        error: 'Invalid WEATHER_PROVIDER on server.',
+        message: `WEATHER_PROVIDER must be one of ${WEATHER_PROVIDERS.join(', ')}`,
+      }),
+    };
+  }
+
+  // Offline: serve the recorded forecast straight from disk
+  if (provider === 'local') {
+    const data = JSON.parse(
+      require('fs').readFileSync(WEATHER_FIXTURE_FILE, 'utf8')
+    );
+    return {
+      status: 200,
+      body: JSON.stringify({ ...data, provider }),
+    };
+  }
+
+  if (provider === 'owm' && !apiKey) {
     return {
       status: 500,
       body: JSON.stringify({
@@ -60,7 +102,10 @@ async function handleWeather(url) {
   }
 
   try {
-    const apiUrl = `https://api.openweathermap.org/data/3.0/onecall?lat=${lat}&lon=${lon}&units=${units}&exclude=minutely,alerts&appid=${apiKey}`;
+    const apiUrl =
+      provider === 'owm'
+        ? `https://api.openweathermap.org/data/3.0/onecall?lat=${lat}&lon=${lon}&units=${units}&appid=${apiKey}`
+        : `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&${OPEN_METEO_QUERY}`;
     const response = await fetch(apiUrl);
 
     if (!response.ok) {
@@ -68,7 +113,7 @@ async function handleWeather(url) {
       return {
         status: response.status,
         body: JSON.stringify({
-          error: 'OpenWeatherMap API Error',
+          error: `Weather provider error (${provider})`,
           status: response.status,
           statusText: response.statusText,
           message: errorText,
@@ -79,7 +124,7 @@ async function handleWeather(url) {
     const data = await response.json();
     return {
       status: 200,
-      body: JSON.stringify(data),
+      body: JSON.stringify({ ...data, provider }),
     };
   } catch (error) {
     return {
@@ -239,6 +284,75 @@ async function handleGeocode(url) {
   }
 }
 
+// Elevation function handler
+async function handleElevation(url) {
+  const lat = url.searchParams.get('lat');
+  const lon = url.searchParams.get('lon');
+
+  if (!lat || !lon) {
+    return {
+      status: 400,
+      body: JSON.stringify({
+        error: 'Missing "lat" or "lon" query parameters',
+      }),
+    };
+  }
+
+  // Try a self-hosted DEM first (OpenTopoData API)
+  const demUrl = process.env.ELEVATION_API_URL;
+  if (demUrl) {
+    try {
+      const response = await fetch(
+        `${demUrl}?locations=${encodeURIComponent(`${lat},${lon}`)}`
+      );
+      if (response.ok) {
+        const data = await response.json();
+        const elevation = data.results?.[0]?.elevation;
+        if (typeof elevation === 'number') {
+          return {
+            status: 200,
+            body: JSON.stringify({ elevation, provider: 'Local DEM' }),
+          };
+        }
+      }
+    } catch (error) {
+      console.error('Local DEM error:', error);
+      // Fall through to Open-Meteo
+    }
+  }
+
+  // Fallback to Open-Meteo
+  try {
+    const apiUrl = `https://api.open-meteo.com/v1/elevation?latitude=${lat}&longitude=${lon}`;
+    const response = await fetch(apiUrl);
+
+    if (!response.ok) {
+      throw new Error(`Open-Meteo API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const elevation = data.elevation?.[0];
+    if (typeof elevation !== 'number') {
+      throw new Error('No elevation in response');
+    }
+
+    return {
+      status: 200,
+      body: JSON.stringify({ elevation, provider: 'Open-Meteo' }),
+    };
+  } catch (error) {
+    console.error('Elevation lookup failed:', error);
+    return {
+      status: 502,
+      body: JSON.stringify({
+        elevation: null,
+        provider: 'None',
+        error: error.message,
+      }),
+    };
+  }
+}
+
 // Create server
 const server = http.createServer(async (req, res) => {
   const url = new URL(req.url, `http://${req.headers.host}`);
@@ -263,12 +377,14 @@ const server = http.createServer(async (req, res) => {
       result = await handleWeather(url);
     } else if (url.pathname === '/geocode') {
       result = await handleGeocode(url);
+    } else if (url.pathname === '/elevation') {
+      result = await handleElevation(url);
     } else {
       result = {
         status: 404,
         body: JSON.stringify({
           error: 'Not found',
-          available: ['/weather', '/geocode'],
+          available: ['/weather', '/geocode', '/elevation'],
         }),
       };
     }
@@ -293,6 +409,9 @@ server.listen(PORT, () => {
     `   • http://localhost:${PORT}/weather?lat=40.7128&lon=-74.0060&units=metric`
   );
   console.log(`   • http://localhost:${PORT}/geocode?lat=40.7128&lon=-74.0060`);
+  console.log(
+    `   • http://localhost:${PORT}/elevation?lat=47.0707&lon=15.4395`
+  );
   console.log('');
   console.log('🔧 Environment check:');
   console.log(
@@ -301,6 +420,9 @@ server.listen(PORT, () => {
   console.log(
     `   • OPENCAGE_API_KEY: ${process.env.OPENCAGE_API_KEY ? '✅ Set' : '⚠️  Missing (will use Nominatim)'}`
   );
+  console.log(
+    `   • ELEVATION_API_URL: ${process.env.ELEVATION_API_URL ? '✅ Set' : '⚠️  Missing (will use Open-Meteo)'}`
+  );
   console.log('');
   console.log(
     '💡 To use with Vite dev server, uncomment proxy lines in vite.config.ts'
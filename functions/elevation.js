@@ -0,0 +1,73 @@
+// functions/elevation.js
+
+export async function onRequest(context) {
+  const url = new URL(context.request.url);
+  const lat = url.searchParams.get('lat');
+  const lon = url.searchParams.get('lon');
+
+  if (!lat || !lon) {
+    const errorResponse = { error: 'Missing "lat" or "lon" query parameters' };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Try a self-hosted DEM first (OpenTopoData API, e.g. .../v1/eudem25m)
+  const demUrl = context.env.ELEVATION_API_URL;
+  if (demUrl) {
+    try {
+      const response = await fetch(
+        `${demUrl}?locations=${encodeURIComponent(`${lat},${lon}`)}`
+      );
+      if (response.ok) {
+        const data = await response.json();
+        const elevation = data.results?.[0]?.elevation;
+        if (typeof elevation === 'number') {
+          return new Response(
+            JSON.stringify({ elevation, provider: 'Local DEM' }),
+            {
+              headers: { 'Content-Type': 'application/json' },
+            }
+          );
+        }
+      }
+    } catch (error) {
+      console.error('Local DEM error:', error);
+      // Fall through to Open-Meteo
+    }
+  }
+
+  // Fallback to Open-Meteo (free, no API key required, 90m Copernicus DEM)
+  try {
+    const apiUrl = `https://api.open-meteo.com/v1/elevation?latitude=${lat}&longitude=${lon}`;
+    const response = await fetch(apiUrl);
+
+    if (!response.ok) {
+      throw new Error(`Open-Meteo API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const elevation = data.elevation?.[0];
+    if (typeof elevation !== 'number') {
+      throw new Error('No elevation in response');
+    }
+
+    return new Response(JSON.stringify({ elevation, provider: 'Open-Meteo' }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Elevation lookup failed:', error);
+    return new Response(
+      JSON.stringify({
+        elevation: null,
+        provider: 'None',
+        error: error.message,
+      }),
+      {
+        status: 502,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
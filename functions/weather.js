@@ -1,5 +1,31 @@
 // functions/weather.js
 
+// Same query as OPEN_METEO_QUERY in src/utils/weatherProviders/openMeteoProvider.ts
+const OPEN_METEO_QUERY = [
+  'current=temperature_2m,apparent_temperature,relative_humidity_2m,weather_code,is_day,wind_speed_10m,wind_direction_10m,uv_index,precipitation',
+  'minutely_15=precipitation',
+  'forecast_minutely_15=8',
+  'hourly=temperature_2m,weather_code,is_day,precipitation_probability,precipitation',
+  'daily=temperature_2m_max,temperature_2m_min,weather_code,precipitation_probability_max',
+  'wind_speed_unit=ms',
+  'timezone=auto',
+  'timeformat=unixtime',
+  'forecast_days=2',
+].join('&');
+
+const WEATHER_FIXTURE_PATH = '/fixtures/weather-open-meteo.json';
+
+const PROVIDERS = ['owm', 'open-meteo', 'local'];
+
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// The upstream JSON is passed through tagged with `provider`; the client
+// normalizes it (see src/utils/weatherProviders/serverProvider.ts)
 export async function onRequest(context) {
   const url = new URL(context.request.url);
   const lat = url.searchParams.get('lat');
@@ -7,59 +33,77 @@ export async function onRequest(context) {
   const units = url.searchParams.get('units') || 'metric';
 
   if (!lat || !lon) {
-    const errorResponse = { error: 'Missing "lat" or "lon" query parameters' };
-    return new Response(JSON.stringify(errorResponse), {
-      status: 400,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return jsonResponse(
+      { error: 'Missing "lat" or "lon" query parameters' },
+      400
+    );
   }
 
+  // WEATHER_PROVIDER picks the upstream; without it OWM is used when a key
+  // is configured, otherwise keyless Open-Meteo
   const apiKey = context.env.OWM_API_KEY;
-  if (!apiKey) {
-    const errorResponse = {
-      error: 'API key not configured on server.',
-      message:
-        'Ensure OWM_API_KEY is set in .dev.vars for local development or in Cloudflare Pages secrets for production.',
-    };
-    return new Response(JSON.stringify(errorResponse), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
-    });
+  const provider =
+    context.env.WEATHER_PROVIDER || (apiKey ? 'owm' : 'open-meteo');
+  if (!PROVIDERS.includes(provider)) {
+    return jsonResponse(
+      {
+        error: 'Invalid WEATHER_PROVIDER on server.',
+        message: `WEATHER_PROVIDER must be one of ${PROVIDERS.join(', ')}`,
+      },
+      500
+    );
   }
 
-  const apiUrl = `https://api.openweathermap.org/data/3.0/onecall?lat=${lat}&lon=${lon}&units=${units}&exclude=minutely,alerts&appid=${apiKey}`;
+  let apiUrl;
+  if (provider === 'owm') {
+    if (!apiKey) {
+      return jsonResponse(
+        {
+          error: 'API key not configured on server.',
+          message:
+            'Ensure OWM_API_KEY is set in .dev.vars for local development or in Cloudflare Pages secrets for production.',
+        },
+        500
+      );
+    }
+    apiUrl = `https://api.openweathermap.org/data/3.0/onecall?lat=${lat}&lon=${lon}&units=${units}&appid=${apiKey}`;
+  } else if (provider === 'open-meteo') {
+    apiUrl = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&${OPEN_METEO_QUERY}`;
+  }
 
   try {
-    const response = await fetch(apiUrl);
+    // The local fixture is a static asset of this deployment
+    const response =
+      provider === 'local'
+        ? await context.env.ASSETS.fetch(
+            new URL(WEATHER_FIXTURE_PATH, context.request.url)
+          )
+        : await fetch(apiUrl);
 
     if (!response.ok) {
       const errorText = await response.text();
-      console.error(`OpenWeatherMap API Error: ${errorText}`);
-      const errorResponse = {
-        error: 'OpenWeatherMap API Error',
-        status: response.status,
-        statusText: response.statusText,
-        message: errorText,
-      };
-      return new Response(JSON.stringify(errorResponse), {
-        status: response.status,
-        headers: { 'Content-Type': 'application/json' },
-      });
+      console.error(`Weather provider ${provider} error: ${errorText}`);
+      return jsonResponse(
+        {
+          error: `Weather provider error (${provider})`,
+          status: response.status,
+          statusText: response.statusText,
+          message: errorText,
+        },
+        response.status
+      );
     }
 
     const data = await response.json();
-    return new Response(JSON.stringify(data), {
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return jsonResponse({ ...data, provider });
   } catch (error) {
     console.error('Proxy function fetch failed:', error);
-    const errorResponse = {
-      error: 'Failed to execute fetch in the proxy function.',
-      message: error.message,
-    };
-    return new Response(JSON.stringify(errorResponse), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return jsonResponse(
+      {
+        error: 'Failed to execute fetch in the proxy function.',
+        message: error.message,
+      },
+      500
+    );
   }
 }
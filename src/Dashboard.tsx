@@ -17,11 +17,23 @@ import { useDashboardConfig } from './hooks/dashboard/useDashboardConfig';
 import { useTimeDisplay } from './hooks/dashboard/useTimeDisplay';
 import { useLocationData } from './hooks/dashboard/useLocationData';
 import { useSpeedDisplay } from './hooks/dashboard/useSpeedDisplay';
+import { useSensorDisplay } from './hooks/dashboard/useSensorDisplay';
+import { useElevationDisplay } from './hooks/dashboard/useElevationDisplay';
+import { useWeatherUnits } from './hooks/dashboard/useWeatherUnits';
+import { useForecastDisplay } from './hooks/dashboard/useForecastDisplay';
+import { useWeatherAlerts } from './hooks/dashboard/useWeatherAlerts';
+import { useWeatherAhead } from './hooks/dashboard/useWeatherAhead';
 import { useDashboardDemo } from './hooks/dashboard/useDashboardDemo';
 import { useDashboardConsole } from './hooks/dashboard/useDashboardConsole';
 import { TimeSection } from './components/dashboard/TimeSection';
 import { LocationSection } from './components/dashboard/LocationSection';
 import { WeatherSection } from './components/dashboard/WeatherSection';
+import { ForecastSection } from './components/dashboard/ForecastSection';
+import { WeatherAlertSection } from './components/dashboard/WeatherAlertSection';
+import { WeatherAheadSection } from './components/dashboard/WeatherAheadSection';
+import { SensorSection } from './components/dashboard/SensorSection';
+import { ElevationSection } from './components/dashboard/ElevationSection';
+import { GpsStaleBadge } from './components/GpsStaleBadge';
 
 /**
  * React-First Dashboard Component
@@ -47,13 +59,17 @@ const Dashboard: React.FC = () => {
   // Core data hooks (with client-side check)
   const locationData = useLocationData();
   const speedDisplay = useSpeedDisplay();
-  const weatherUnits = 'metric'; // Could be made configurable via URL params later
+  const sensorDisplay = useSensorDisplay();
+  const elevationDisplay = useElevationDisplay();
+  const weatherUnits = useWeatherUnits();
   const weatherQuery = useWeatherData(
     locationData.lastPosition?.lat,
-    locationData.lastPosition?.lon,
-    weatherUnits
+    locationData.lastPosition?.lon
   );
   const weatherData = weatherQuery.data;
+  const forecastDisplay = useForecastDisplay(config, weatherData, weatherUnits);
+  const alertsDisplay = useWeatherAlerts(config, weatherData);
+  const aheadDisplay = useWeatherAhead(config, weatherUnits);
 
   // Time display with weather timezone support (matches original behavior)
   const timeDisplay = useTimeDisplay(config, weatherData);
@@ -84,6 +100,31 @@ const Dashboard: React.FC = () => {
             show={config.showLocation}
           />
 
+          {/* GPS Stale Badge - only while the feed has gone quiet */}
+          <div className="flex justify-center empty:hidden mb-3">
+            <GpsStaleBadge />
+          </div>
+
+          {/* Sensor Section - heading, altitude, heart rate (opt-in) */}
+          <SensorSection
+            sensorDisplay={sensorDisplay}
+            showHeading={config.showHeading}
+            showAltitude={config.showAltitude}
+            showHeartRate={config.showHeartRate}
+          />
+
+          {/* Elevation Section - altitude, climb and sparkline (opt-in) */}
+          <ElevationSection
+            elevationDisplay={elevationDisplay}
+            show={config.showElevation}
+          />
+
+          {/* Weather Alert Section - official warnings (?alerts=) */}
+          <WeatherAlertSection
+            alertsDisplay={alertsDisplay}
+            show={config.showWeather}
+          />
+
           {/* Weather Section (includes speed when cycling) */}
           <WeatherSection
             weatherData={weatherData}
@@ -93,6 +134,18 @@ const Dashboard: React.FC = () => {
             units={weatherUnits}
           />
 
+          {/* Forecast Section - rain-incoming banner and hourly strip */}
+          <ForecastSection
+            forecastDisplay={forecastDisplay}
+            show={config.showWeather}
+          />
+
+          {/* Weather Ahead Section - forecast along the route (?ahead=) */}
+          <WeatherAheadSection
+            aheadDisplay={aheadDisplay}
+            show={config.showWeather}
+          />
+
           {/* Time Section */}
           <TimeSection timeDisplay={timeDisplay} show={config.showTime} />
         </CardContent>
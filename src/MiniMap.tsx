@@ -0,0 +1,121 @@
+import React, { useMemo } from 'react';
+import { useLocationSource } from './hooks/useLocationSource';
+import { getMiniMapSettings, useMiniMap } from './hooks/useMiniMap';
+import {
+  getVisibleTiles,
+  projectToPixels,
+  toSvgPoints,
+} from './utils/mapTiles';
+import { CONFIG } from './utils/config';
+
+/**
+ * Mini-map Overlay - transparent, stream-ready map of the rider's position
+ * Draws tiles, the planned route, today's breadcrumb and a heading marker
+ */
+const MiniMap: React.FC = () => {
+  const settings = useMemo(() => getMiniMapSettings(), []);
+  const { connectionStatus } = useLocationSource();
+  const { position, heading, breadcrumb, route } = useMiniMap(settings);
+
+  const { sizePx: size, zoom } = settings;
+  // Before the first fix, center on the configured trip start
+  const centerCoords = position || CONFIG.trip.manualStartLocation;
+  const center = projectToPixels(centerCoords, zoom);
+  const origin = { x: center.x - size / 2, y: center.y - size / 2 };
+
+  const tiles = getVisibleTiles(settings.tileUrl, center, zoom, size, size);
+  const routePoints = route.length > 1 ? toSvgPoints(route, zoom, origin) : '';
+  const breadcrumbPoints =
+    breadcrumb.length > 1 ? toSvgPoints(breadcrumb, zoom, origin) : '';
+
+  return (
+    <div
+      className="relative overflow-hidden rounded-full border-2 border-white/60 shadow-lg bg-black/30"
+      style={{ width: size, height: size }}
+    >
+      {/* Map tiles */}
+      {tiles.map(tile => (
+        <img
+          key={tile.key}
+          src={tile.url}
+          alt=""
+          draggable={false}
+          className="absolute max-w-none select-none"
+          style={{ left: tile.left, top: tile.top, width: 256, height: 256 }}
+        />
+      ))}
+
+      <svg
+        className="absolute inset-0 pointer-events-none"
+        width={size}
+        height={size}
+        viewBox={`0 0 ${size} ${size}`}
+      >
+        {/* Planned route */}
+        {routePoints && (
+          <polyline
+            points={routePoints}
+            fill="none"
+            stroke="rgba(59, 130, 246, 0.85)"
+            strokeWidth={4}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        )}
+
+        {/* Ridden breadcrumb */}
+        {breadcrumbPoints && (
+          <polyline
+            points={breadcrumbPoints}
+            fill="none"
+            stroke="rgba(239, 68, 68, 0.9)"
+            strokeWidth={3}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        )}
+
+        {/* Current position - arrow when heading is known, dot otherwise */}
+        {position && (
+          <g transform={`translate(${size / 2} ${size / 2})`}>
+            {heading !== null ? (
+              <path
+                d="M 0 -12 L 8 9 L 0 4 L -8 9 Z"
+                transform={`rotate(${heading.toFixed(1)})`}
+                fill="white"
+                stroke="rgba(0, 0, 0, 0.8)"
+                strokeWidth={1.5}
+                strokeLinejoin="round"
+              />
+            ) : (
+              <circle
+                r={7}
+                fill="white"
+                stroke="rgba(0, 0, 0, 0.8)"
+                strokeWidth={2}
+              />
+            )}
+          </g>
+        )}
+      </svg>
+
+      {/* Waiting for first fix */}
+      {!position && (
+        <div className="absolute inset-0 flex items-center justify-center text-white text-xs uppercase [text-shadow:1px_1px_3px_rgba(0,0,0,0.8)]">
+          {connectionStatus === 'error'
+            ? 'location unavailable'
+            : 'waiting for gps'}
+        </div>
+      )}
+
+      {/* Tile attribution (required by most tile providers) */}
+      {CONFIG.map.attribution && (
+        <div className="absolute bottom-[12%] left-1/2 -translate-x-1/2 text-[8px] text-white/70 whitespace-nowrap [text-shadow:1px_1px_2px_rgba(0,0,0,0.8)]">
+          {CONFIG.map.attribution}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MiniMap;
@@ -11,13 +11,27 @@
  * For questions: https://github.com/kevintongg/trip-overlay
  */
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo } from 'react';
 import { useTripProgressStore } from './store/tripStore';
-import { useRtirlSocket } from './hooks/useRtirlSocket';
+import { useLocationSource } from './hooks/useLocationSource';
+import { GpsStaleBadge } from './components/GpsStaleBadge';
 import { useGPSProcessor } from './hooks/useGPSProcessor';
 import { useConsoleCommands } from './hooks/useConsoleCommands';
 import { useURLParameters } from './hooks/useURLParameters';
 import { useAppInitialization } from './hooks/useAppInitialization';
+import { useDailyReset } from './hooks/useDailyReset';
+import { useElevationTracking } from './hooks/useElevationTracking';
+import { getRiderTimezone } from './utils/dailyReset';
+import { getRouteProgress, getTripRemainingKm } from './utils/routePlan';
+import {
+  calculateAverageSpeed,
+  estimateArrival,
+  formatDuration,
+  getEtaSpeedKmh,
+} from './utils/speedAverage';
+import { parseOverlayColumns, type OverlayColumn } from './utils/overlayColumns';
+import { CONFIG } from './utils/config';
+import { getModeProfile, getStoppedMode } from './utils/movementProfile';
 
 /**
  * Trip Overlay Component - Clean minimalist design for streaming
@@ -31,16 +45,35 @@ const TripOverlay: React.FC = () => {
     todayDistanceKm,
     units,
     currentMode = 'STATIONARY',
+    routePlan,
+    currentLegIndex,
+    legDistanceKm,
+    routeTrack,
+    routeProgressKm,
+    recentAverageKmh,
+    todayMovingKm,
+    todayMovingTimeMs,
+    totalMovingKm,
+    totalMovingTimeMs,
     resetProgress,
     resetTodayDistance,
     exportTripData,
   } = useTripProgressStore();
   
   const consoleCommands = useConsoleCommands();
+  const columns = useMemo(
+    () =>
+      parseOverlayColumns(
+        new URLSearchParams(window.location.search).get('columns')
+      ),
+    []
+  );
 
-  useRtirlSocket(); // GPS data updates
+  useLocationSource(); // GPS data updates
   useGPSProcessor(); // Movement mode detection
   useURLParameters(); // Handle URL parameters
+  useDailyReset(); // Reset today's distance per policy
+  useElevationTracking(); // Altitude and daily climb
   useAppInitialization();
 
   // Set up console API
@@ -50,24 +83,90 @@ const TripOverlay: React.FC = () => {
       getStatus: consoleCommands.getStatus,
     };
     (window as any).showConsoleCommands = consoleCommands.showConsoleCommands;
+    (window as any).checkRtirlConnection = consoleCommands.checkRtirlConnection;
   }, [consoleCommands]);
 
   // Calculate values
   const unitMultiplier = units === 'miles' ? 0.621371 : 1;
   const unitSuffix = units === 'miles' ? 'mi' : 'km';
-  const progressPercent = totalDistanceKm > 0 ? Math.min((totalTraveledKm / totalDistanceKm) * 100, 100) : 0;
-  const remainingDistance = Math.max(0, totalDistanceKm - totalTraveledKm);
+  // With a route plan, whole-trip progress is driven by completed legs + current leg
+  const routeProgress = routePlan
+    ? getRouteProgress(routePlan, currentLegIndex, legDistanceKm)
+    : null;
+  // An imported GPX/KML route takes precedence: progress follows the road,
+  // while "traveled" below stays the accumulated odometer
+  const progressPercent = routeTrack
+    ? routeTrack.totalKm > 0 ? Math.min((routeProgressKm / routeTrack.totalKm) * 100, 100) : 0
+    : routeProgress
+      ? routeProgress.tripProgressPercent
+      : totalDistanceKm > 0 ? Math.min((totalTraveledKm / totalDistanceKm) * 100, 100) : 0;
+  const remainingDistance = getTripRemainingKm({
+    totalDistanceKm,
+    totalTraveledKm,
+    routePlan,
+    currentLegIndex,
+    legDistanceKm,
+    routeTrack,
+    routeProgressKm,
+  });
 
-  // Avatar image mapping
-  const getAvatarImage = () => {
-    switch (currentMode) {
-      case 'WALKING':
-        return '/walking.gif';
-      case 'CYCLING':
-        return '/cycling.gif';
-      default:
-        return '/stationary.png';
+  // ETA from moving-time averages - stops don't inflate the arrival time
+  const arrival = estimateArrival(
+    remainingDistance,
+    getEtaSpeedKmh({
+      recentAverageKmh,
+      todayMovingKm,
+      todayMovingTimeMs,
+      totalMovingKm,
+      totalMovingTimeMs,
+    })
+  );
+  const todayAverageKmh = calculateAverageSpeed(todayMovingKm, todayMovingTimeMs);
+  const speedSuffix = units === 'miles' ? 'mph' : 'km/h';
+
+  const getColumnContent = (column: OverlayColumn): { value: string; label: string } => {
+    switch (column) {
+      case 'traveled':
+        return { value: `${(totalTraveledKm * unitMultiplier).toFixed(2)} ${unitSuffix}`, label: 'traveled' };
+      case 'today':
+        return { value: `${(todayDistanceKm * unitMultiplier).toFixed(2)} ${unitSuffix}`, label: 'today' };
+      case 'remaining':
+        return { value: `${(remainingDistance * unitMultiplier).toFixed(2)} ${unitSuffix}`, label: 'remaining' };
+      case 'eta':
+        return arrival
+          ? {
+              // Clock time where the rider is, not where OBS runs
+              value: arrival.arrivalTime.toLocaleTimeString([], {
+                hour: '2-digit',
+                minute: '2-digit',
+                hour12: !CONFIG.time.use24Hour,
+                timeZone: getRiderTimezone(),
+              }),
+              label: `eta · ${formatDuration(arrival.remainingMs)}`,
+            }
+          : { value: '--:--', label: 'eta' };
+      case 'avgSpeed':
+        return {
+          value: todayAverageKmh !== null ? `${(todayAverageKmh * unitMultiplier).toFixed(1)} ${speedSuffix}` : `-- ${speedSuffix}`,
+          label: 'avg speed',
+        };
+    }
+  };
+
+  // First column left aligned, last right aligned, everything else centered
+  const getColumnAlignment = (index: number) => {
+    if (index === 0) {
+      return { container: 'items-start text-left', label: 'text-left' };
+    }
+    if (index === columns.length - 1) {
+      return { container: 'items-end text-right', label: 'text-right' };
     }
+    return { container: 'items-center text-center', label: 'text-center' };
+  };
+
+  // Avatar image from the active movement profile
+  const getAvatarImage = () => {
+    return getModeProfile(currentMode)?.avatar ?? getStoppedMode().avatar;
   };
 
   // Control panel visibility (for development/testing)
@@ -106,41 +205,50 @@ const TripOverlay: React.FC = () => {
             />
           </div>
 
-          {/* Distance Data Container - Three column layout */}
-          <div className="w-full max-w-[600px] mx-auto flex justify-between items-start mt-1.5">
-            {/* Traveled Distance - Left aligned */}
-            <div className="flex-1 flex flex-col items-start text-left">
-              <span className="text-[19px] font-bold text-white [text-shadow:1px_1px_3px_rgba(0,0,0,0.8)]">
-                {(totalTraveledKm * unitMultiplier).toFixed(2)} {unitSuffix}
-              </span>
-              <div className="text-[10px] font-normal text-[#cccccc] uppercase text-left">
-                traveled
+          {/* Current Leg - only shown when a route plan is loaded */}
+          {routeProgress?.leg && (
+            <div className="w-full max-w-[600px] mx-auto mt-1.5 mb-1">
+              <div className="flex justify-between items-baseline text-[11px] text-[#cccccc] uppercase">
+                <span className="truncate pr-2">
+                  leg {routeProgress.legIndex + 1}/{routePlan!.legs.length} · {routeProgress.leg.name}
+                </span>
+                <span className="whitespace-nowrap text-white font-semibold [text-shadow:1px_1px_3px_rgba(0,0,0,0.8)]">
+                  {(Math.min(routeProgress.legDistanceKm, routeProgress.leg.distanceKm) * unitMultiplier).toFixed(1)} / {(routeProgress.leg.distanceKm * unitMultiplier).toFixed(1)} {unitSuffix}
+                </span>
               </div>
-            </div>
-
-            {/* Today's Distance - Center aligned */}
-            <div className="flex-1 flex flex-col items-center text-center">
-              <span className="text-[19px] font-bold text-white [text-shadow:1px_1px_3px_rgba(0,0,0,0.8)]">
-                {(todayDistanceKm * unitMultiplier).toFixed(2)} {unitSuffix}
-              </span>
-              <div className="text-[10px] font-normal text-[#cccccc] uppercase text-center">
-                today
+              <div className="w-full h-[4px] mt-1 bg-black/30 border border-white/20 rounded-[3px]">
+                <div
+                  className="h-full bg-white/80 rounded-[3px] transition-all duration-500 ease-out"
+                  style={{ width: `${routeProgress.legProgressPercent}%` }}
+                />
               </div>
             </div>
+          )}
 
-            {/* Remaining Distance - Right aligned */}
-            <div className="flex-1 flex flex-col items-end text-right">
-              <span className="text-[19px] font-bold text-white [text-shadow:1px_1px_3px_rgba(0,0,0,0.8)]">
-                {(remainingDistance * unitMultiplier).toFixed(2)} {unitSuffix}
-              </span>
-              <div className="text-[10px] font-normal text-[#cccccc] uppercase text-right">
-                remaining
-              </div>
-            </div>
+          {/* Distance Data Container - columns chosen via ?columns= */}
+          <div className="w-full max-w-[600px] mx-auto flex justify-between items-start mt-1.5">
+            {columns.map((column, index) => {
+              const { value, label } = getColumnContent(column);
+              const alignment = getColumnAlignment(index);
+              return (
+                <div key={column} className={`flex-1 flex flex-col ${alignment.container}`}>
+                  <span className="text-[19px] font-bold text-white [text-shadow:1px_1px_3px_rgba(0,0,0,0.8)]">
+                    {value}
+                  </span>
+                  <div className={`text-[10px] font-normal text-[#cccccc] uppercase ${alignment.label}`}>
+                    {label}
+                  </div>
+                </div>
+              );
+            })}
           </div>
         </div>
       </div>
 
+      {/* Shown while the GPS feed has gone quiet */}
+      <div className="absolute top-full left-1/2 -translate-x-1/2 mt-2">
+        <GpsStaleBadge />
+      </div>
     </div>
   );
 };
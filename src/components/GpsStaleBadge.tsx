@@ -0,0 +1,40 @@
+import React, { useEffect, useState } from 'react';
+import { Badge } from './ui/badge';
+import { useConnectionStore } from '../store/connectionStore';
+import { formatStaleDuration } from '../utils/locationSource';
+
+interface GpsStaleBadgeProps {
+  className?: string;
+}
+
+/**
+ * GPS Stale Badge - "GPS stale for 2m" while the location feed is silent
+ * Shared by the trip overlay and the dashboard; hidden while fixes arrive
+ */
+export function GpsStaleBadge({ className = '' }: GpsStaleBadgeProps) {
+  const staleSince = useConnectionStore(state => state.staleSince);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick once a second while stale so the duration counts up
+  useEffect(() => {
+    if (staleSince === null) {
+      return;
+    }
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [staleSince]);
+
+  if (staleSince === null) {
+    return null;
+  }
+
+  return (
+    <Badge
+      variant="outline"
+      className={`border-amber-300/60 bg-black/55 text-amber-200 [text-shadow:1px_1px_3px_rgba(0,0,0,0.8)] ${className}`}
+    >
+      GPS stale for {formatStaleDuration(now - staleSince)}
+    </Badge>
+  );
+}
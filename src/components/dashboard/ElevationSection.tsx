@@ -0,0 +1,85 @@
+import React, { useMemo } from 'react';
+import type { ElevationDisplay } from '../../hooks/dashboard/useElevationDisplay';
+import type { ElevationSample } from '../../types/trip';
+
+interface ElevationSectionProps {
+  elevationDisplay: ElevationDisplay;
+  show: boolean;
+}
+
+const SPARKLINE_WIDTH = 220;
+const SPARKLINE_HEIGHT = 36;
+// Flat days still get a visible band instead of a line along the bottom
+const MIN_RANGE_M = 20;
+
+// SVG points for the day's altitude, time on x and altitude on y
+const buildSparkline = (samples: ElevationSample[]): string => {
+  if (samples.length < 2) {
+    return '';
+  }
+  const start = samples[0].timestamp;
+  const span = Math.max(1, samples[samples.length - 1].timestamp - start);
+  const altitudes = samples.map(sample => sample.altitudeM);
+  const min = Math.min(...altitudes);
+  const range = Math.max(MIN_RANGE_M, Math.max(...altitudes) - min);
+
+  return samples
+    .map(sample => {
+      const x = ((sample.timestamp - start) / span) * SPARKLINE_WIDTH;
+      const y =
+        SPARKLINE_HEIGHT -
+        ((sample.altitudeM - min) / range) * SPARKLINE_HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+};
+
+/**
+ * Elevation Section Component
+ * Current altitude, today's ascent/descent and an elevation sparkline
+ */
+export function ElevationSection({
+  elevationDisplay,
+  show,
+}: ElevationSectionProps) {
+  const points = useMemo(
+    () => buildSparkline(elevationDisplay.samples),
+    [elevationDisplay.samples]
+  );
+
+  if (!show) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-1 w-full mb-3">
+      <div className="flex items-center gap-[18px] text-[0.9em] text-gray-300 font-medium drop-shadow-[0_1px_4px_rgba(0,0,0,0.6)]">
+        <span>⛰ {elevationDisplay.altitudeText}</span>
+        <span className="text-emerald-300">{elevationDisplay.ascentText}</span>
+        <span className="text-sky-300">{elevationDisplay.descentText}</span>
+      </div>
+      {points && (
+        <svg
+          width={SPARKLINE_WIDTH}
+          height={SPARKLINE_HEIGHT}
+          viewBox={`0 -1 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT + 2}`}
+          className="overflow-visible"
+          aria-label="Elevation today"
+        >
+          <polyline
+            points={`0,${SPARKLINE_HEIGHT} ${points} ${SPARKLINE_WIDTH},${SPARKLINE_HEIGHT}`}
+            fill="rgba(255,255,255,0.12)"
+            stroke="none"
+          />
+          <polyline
+            points={points}
+            fill="none"
+            stroke="rgba(255,255,255,0.85)"
+            strokeWidth={1.5}
+            strokeLinejoin="round"
+          />
+        </svg>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import React from 'react';
+import type { ForecastDisplay } from '../../hooks/dashboard/useForecastDisplay';
+import { getConditionIcon } from '../../utils/dashboard/weatherFormatters';
+
+interface ForecastSectionProps {
+  forecastDisplay: ForecastDisplay;
+  show: boolean;
+}
+
+/**
+ * Forecast Section Component
+ * Rain-incoming banner (hide with ?rainAlert=false) and the compact hourly
+ * strip (?hourly=true or ?hourly=3..6)
+ */
+export function ForecastSection({
+  forecastDisplay,
+  show,
+}: ForecastSectionProps) {
+  const { hours, rainAlertText } = forecastDisplay;
+  if (!show || (hours.length === 0 && !rainAlertText)) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-2 w-full mb-3">
+      {rainAlertText && (
+        <div className="px-3 py-1 rounded-full bg-sky-500/25 border border-sky-400/40 text-[0.85em] font-semibold text-sky-100 drop-shadow-[0_1px_4px_rgba(0,0,0,0.6)]">
+          ☔ {rainAlertText}
+        </div>
+      )}
+      {hours.length > 0 && (
+        <div className="flex justify-center gap-[14px] text-[0.8em] text-gray-300">
+          {hours.map(hour => (
+            <div
+              key={hour.time}
+              className="flex flex-col items-center leading-tight drop-shadow-[0_1px_4px_rgba(0,0,0,0.6)]"
+            >
+              <span className="opacity-80">{hour.timeText}</span>
+              {getConditionIcon(hour.condition, true)}
+              <span className="font-semibold text-white">{hour.tempText}</span>
+              <span className="text-sky-300 font-mono">
+                {hour.precipitationText ?? ''}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
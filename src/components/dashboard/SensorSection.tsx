@@ -0,0 +1,53 @@
+import React from 'react';
+import type { SensorDisplay } from '../../hooks/dashboard/useSensorDisplay';
+
+interface SensorSectionProps {
+  sensorDisplay: SensorDisplay;
+  showHeading: boolean;
+  showAltitude: boolean;
+  showHeartRate: boolean;
+}
+
+const valueClass =
+  'text-[0.9em] text-gray-300 font-medium drop-shadow-[0_1px_4px_rgba(0,0,0,0.6)]';
+
+/**
+ * Sensor Section Component
+ * Compass heading, altitude and heart rate - each enabled by its own
+ * URL parameter (?heading=true, ?altitude=true, ?bpm=true)
+ */
+export function SensorSection({
+  sensorDisplay,
+  showHeading,
+  showAltitude,
+  showHeartRate,
+}: SensorSectionProps) {
+  if (!showHeading && !showAltitude && !showHeartRate) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-[18px] text-[0.9em] text-gray-300 w-full justify-center mb-3">
+      {showHeading && (
+        <span className={`flex items-center gap-1.5 ${valueClass}`}>
+          <span
+            className="inline-block transition-transform duration-500"
+            style={{
+              transform: `rotate(${sensorDisplay.heading ?? 0}deg)`,
+              opacity: sensorDisplay.heading === null ? 0.4 : 1,
+            }}
+          >
+            ↑
+          </span>
+          <span className="font-mono">{sensorDisplay.headingText}</span>
+        </span>
+      )}
+      {showAltitude && (
+        <span className={valueClass}>⛰ {sensorDisplay.altitudeText}</span>
+      )}
+      {showHeartRate && (
+        <span className={valueClass}>♥ {sensorDisplay.heartRateText}</span>
+      )}
+    </div>
+  );
+}
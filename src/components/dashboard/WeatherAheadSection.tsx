@@ -0,0 +1,54 @@
+import React from 'react';
+import type { WeatherAheadDisplay } from '../../hooks/dashboard/useWeatherAhead';
+import { getConditionIcon } from '../../utils/dashboard/weatherFormatters';
+
+interface WeatherAheadSectionProps {
+  aheadDisplay: WeatherAheadDisplay;
+  show: boolean;
+}
+
+/**
+ * Weather Ahead Section Component
+ * Forecast at points along the remaining route for the expected arrival
+ * time (?ahead=true or ?ahead=25,50,100), with a banner for the first wet one
+ */
+export function WeatherAheadSection({
+  aheadDisplay,
+  show,
+}: WeatherAheadSectionProps) {
+  const { items, headlineText } = aheadDisplay;
+  if (!show || items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-2 w-full mb-3">
+      {headlineText && (
+        <div className="px-3 py-1 rounded-full bg-sky-500/25 border border-sky-400/40 text-[0.85em] font-semibold text-sky-100 drop-shadow-[0_1px_4px_rgba(0,0,0,0.6)]">
+          🛣️ {headlineText}
+        </div>
+      )}
+      <div className="flex justify-center gap-[14px] text-[0.8em] text-gray-300">
+        {items.map(item => (
+          <div
+            key={item.routeKm}
+            className="flex flex-col items-center leading-tight drop-shadow-[0_1px_4px_rgba(0,0,0,0.6)]"
+          >
+            <span className="opacity-80 max-w-[7em] truncate">
+              {item.isDestination ? '🏁 ' : ''}
+              {item.placeText}
+            </span>
+            <span className="opacity-60 text-[0.85em]">
+              {item.distanceText} · {item.etaText}
+            </span>
+            {getConditionIcon(item.condition, true)}
+            <span className="font-semibold text-white">{item.tempText}</span>
+            <span className="text-sky-300 font-mono">
+              {item.precipitationText ?? ''}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { afterEach, describe, expect, it } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { WeatherAlertSection } from './WeatherAlertSection';
+import { useWeatherAlerts } from '../../hooks/dashboard/useWeatherAlerts';
+import { useWeatherAlertStore } from '../../store/weatherAlertStore';
+import type { DashboardConfig } from '../../hooks/dashboard/useDashboardConfig';
+import type { WeatherAlert, WeatherData } from '../../types/weather';
+
+const nowS = Math.floor(Date.now() / 1000);
+const alert: WeatherAlert = {
+  id: 'storm-1',
+  event: 'Orange Thunderstorm Warning',
+  severity: 'severe',
+  sender: 'GeoSphere Austria',
+  description: 'Heavy thunderstorms',
+  start: nowS - 3600,
+  end: nowS + 3600,
+};
+
+const weatherData: WeatherData = {
+  provider: 'owm',
+  current: {
+    temp: 24,
+    feelsLike: 25,
+    humidity: 60,
+    uvi: null,
+    windSpeed: 3,
+    windDeg: null,
+    precipitationMmH: null,
+    condition: { type: 'clouds', description: 'broken clouds', icon: '04d' },
+  },
+  minutely: [],
+  hourly: [],
+  daily: [],
+  alerts: [alert],
+  timezone: 'Europe/Vienna',
+  timezoneOffset: 7200,
+};
+
+const config = {
+  alertMinSeverity: 'minor',
+  use12Hour: false,
+} as DashboardConfig;
+
+// Inside a pointer-events-none root, like the dashboard card
+function Alerts() {
+  const alertsDisplay = useWeatherAlerts(config, weatherData);
+  return (
+    <div className="pointer-events-none">
+      <WeatherAlertSection alertsDisplay={alertsDisplay} show />
+    </div>
+  );
+}
+
+describe('WeatherAlertSection', () => {
+  afterEach(() => {
+    cleanup();
+    useWeatherAlertStore.setState({ dismissed: {} });
+  });
+
+  it('dismisses an alert when × is clicked', () => {
+    render(<Alerts />);
+    const button = screen.getByRole('button', {
+      name: `Dismiss ${alert.event}`,
+    });
+    // jsdom applies no CSS - the class is what turns pointer events back on
+    expect(button.classList).toContain('overlay-interactive');
+
+    fireEvent.click(button);
+
+    expect(screen.queryByText(alert.event)).toBeNull();
+    expect(useWeatherAlertStore.getState().dismissed).toEqual({
+      [alert.id]: alert.end,
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import React from 'react';
+import type { WeatherAlertsDisplay } from '../../hooks/dashboard/useWeatherAlerts';
+import type { WeatherAlertSeverity } from '../../types/weather';
+
+interface WeatherAlertSectionProps {
+  alertsDisplay: WeatherAlertsDisplay;
+  show: boolean;
+}
+
+const SEVERITY_CLASSES: Record<WeatherAlertSeverity, string> = {
+  extreme: 'bg-red-600/40 border-red-400/60 text-red-50',
+  severe: 'bg-orange-500/35 border-orange-400/60 text-orange-50',
+  moderate: 'bg-yellow-500/30 border-yellow-400/50 text-yellow-50',
+  minor: 'bg-sky-500/25 border-sky-400/40 text-sky-50',
+  unknown: 'bg-gray-500/30 border-gray-400/40 text-gray-100',
+};
+
+/**
+ * Weather Alert Section Component
+ * Official warnings with severity and validity window (?alerts=). Click
+ * × (OBS "Interact") or run dismissWeatherAlerts() to hide one - the
+ * button takes clicks back from the dashboard's pointer-events-none root.
+ */
+export function WeatherAlertSection({
+  alertsDisplay,
+  show,
+}: WeatherAlertSectionProps) {
+  const { alerts, dismiss } = alertsDisplay;
+  if (!show || alerts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-1.5 w-full mb-3">
+      {alerts.map(alert => (
+        <div
+          key={alert.id}
+          title={alert.sender}
+          className={`flex items-center gap-2 px-3 py-1 rounded-lg border text-[0.85em] drop-shadow-[0_1px_4px_rgba(0,0,0,0.6)] ${SEVERITY_CLASSES[alert.severity]}`}
+        >
+          <span>⚠️</span>
+          <span className="font-semibold">{alert.event}</span>
+          {alert.severity !== 'unknown' && (
+            <span className="uppercase text-[0.8em] tracking-wider opacity-80">
+              {alert.severity}
+            </span>
+          )}
+          <span className="opacity-80">· {alert.windowText}</span>
+          <button
+            type="button"
+            aria-label={`Dismiss ${alert.event}`}
+            className="overlay-interactive ml-1 opacity-60 hover:opacity-100"
+            onClick={() => dismiss(alert.id)}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import React from 'react';
 import type { SpeedDisplay } from '../../hooks/dashboard/useSpeedDisplay';
-import type { WeatherResponse } from '../../types/weather';
+import type { WeatherData, WeatherUnits } from '../../types/weather';
 import {
   getWeatherIcon,
   getWeatherTemp,
@@ -9,21 +9,26 @@ import {
   getWeatherFeelsLike,
   getWeatherHumidity,
   getWeatherWind,
+  getWeatherPrecipitation,
   getWeatherUvi,
   getUviClass,
 } from '../../utils/dashboard/weatherFormatters';
+import { getModeProfile } from '../../utils/movementProfile';
 
 interface WeatherSectionProps {
-  weatherData: WeatherResponse | null | undefined;
+  weatherData: WeatherData | null | undefined;
   speedDisplay: SpeedDisplay;
   show: boolean;
   showSpeed: boolean;
-  units?: string;
+  units: WeatherUnits; // See useWeatherUnits
 }
 
+// Speed readout only in modes the movement profile marks with showSpeed
+const showsSpeed = (mode: string) => getModeProfile(mode)?.showSpeed ?? false;
+
 /**
  * Weather Section Component
- * Displays weather information with optional speed display when cycling
+ * Displays weather information with optional speed display when riding
  * Maintains exact styling and logic from original Dashboard
  */
 export function WeatherSection({
@@ -31,7 +36,7 @@ export function WeatherSection({
   speedDisplay,
   show,
   showSpeed,
-  units = 'metric',
+  units,
 }: WeatherSectionProps) {
   if (!show) {
     return null;
@@ -54,10 +59,10 @@ export function WeatherSection({
           className="flex flex-col items-center gap-1 mx-3"
         >
           <div className="text-[1.05em] font-black text-white tracking-wide drop-shadow-[0_3px_12px_rgba(0,0,0,0.9)] font-inter leading-none">
-            {getWeatherTemp(weatherData, units)}
+            {getWeatherTemp(weatherData, units.temperature)}
           </div>
           <div className="text-[0.8em] text-gray-300 font-medium tracking-wide drop-shadow-[0_1px_4px_rgba(0,0,0,0.6)] font-inter whitespace-nowrap opacity-80">
-            {getWeatherHighLow(weatherData, units)}
+            {getWeatherHighLow(weatherData, units.temperature)}
           </div>
         </div>
 
@@ -69,8 +74,8 @@ export function WeatherSection({
           {getWeatherDesc(weatherData)}
         </div>
 
-        {/* Speed Display - Only show when cycling and speed is enabled */}
-        {showSpeed && speedDisplay.currentMode === 'CYCLING' && (
+        {/* Speed Display - Only show when riding and speed is enabled */}
+        {showSpeed && showsSpeed(speedDisplay.currentMode) && (
           <div
             key="speed-display"
             className="flex flex-col items-start ml-2 font-semibold"
@@ -102,8 +107,8 @@ export function WeatherSection({
           getWeatherHumidity(weatherData)) && (
           <div className="text-center text-gray-300 mb-1">
             {[
-              getWeatherFeelsLike(weatherData, units) &&
-                `Feels like: ${getWeatherFeelsLike(weatherData, units)}`,
+              getWeatherFeelsLike(weatherData, units.temperature) &&
+                `Feels like: ${getWeatherFeelsLike(weatherData, units.temperature)}`,
               getWeatherHumidity(weatherData) &&
                 `Humidity: ${getWeatherHumidity(weatherData)}`,
             ]
@@ -112,12 +117,14 @@ export function WeatherSection({
           </div>
         )}
 
-        {/* Second line: Wind and UV Index */}
+        {/* Second line: Wind, precipitation and UV Index */}
         {(getWeatherWind(weatherData) !== null || getWeatherUvi(weatherData)) && (
           <div className="text-center text-gray-300">
             {[
               getWeatherWind(weatherData) !== null &&
-                `Wind: ${getWeatherWind(weatherData)}`,
+                `Wind: ${getWeatherWind(weatherData, units.wind)}`,
+              getWeatherPrecipitation(weatherData) &&
+                `Rain: ${getWeatherPrecipitation(weatherData, units.precipitation)}`,
               getWeatherUvi(weatherData) && (
                 <span key="uvi">
                   UV Index:{' '}
@@ -1,11 +1,24 @@
 import { useMemo } from 'react';
+import { parseAheadParam } from '../../utils/weatherAhead';
+import { parseAlertsParam } from '../../utils/weatherAlerts';
+import { parseHourlyForecastHours } from '../../utils/weatherForecast';
+import type { WeatherAlertSeverity } from '../../types/weather';
 
 export interface DashboardConfig {
   demo: boolean;
+  routeDemo: boolean;
   showTime: boolean;
   showWeather: boolean;
   showLocation: boolean;
   showSpeed: boolean;
+  showHeading: boolean;
+  showAltitude: boolean;
+  showHeartRate: boolean;
+  showElevation: boolean;
+  hourlyForecastHours: number; // 0 = no forecast strip
+  showRainAlert: boolean;
+  alertMinSeverity: WeatherAlertSeverity | null; // null = weather alerts hidden
+  weatherAheadKm: number[]; // [] = no weather ahead
   use12Hour: boolean;
   timezoneOverride?: string;
 }
@@ -21,10 +34,19 @@ export function useDashboardConfig(): DashboardConfig {
 
     return {
       demo: params.get('demo') === 'true',
+      routeDemo: params.get('demo') === 'route', // Driven by useLocationSource
       showTime: params.get('time') !== 'false', // Default true, only false if explicitly set
       showWeather: params.get('weather') !== 'false', // Default true, only false if explicitly set
       showLocation: params.get('location') !== 'false', // Default true, only false if explicitly set
       showSpeed: params.get('speed') === 'true', // Default false, only true if explicitly set
+      showHeading: params.get('heading') === 'true', // Default false
+      showAltitude: params.get('altitude') === 'true', // Default false
+      showHeartRate: params.get('bpm') === 'true', // Default false, also subscribes RTIRL heart rate
+      showElevation: params.get('elevation') === 'true', // Default false
+      hourlyForecastHours: parseHourlyForecastHours(params.get('hourly')), // Default off
+      showRainAlert: params.get('rainAlert') !== 'false', // Default true
+      alertMinSeverity: parseAlertsParam(params.get('alerts')), // Default: all alerts
+      weatherAheadKm: parseAheadParam(params.get('ahead')), // Default off
       use12Hour: params.get('format') === '12',
       timezoneOverride: params.get('timezone') || undefined,
     };
@@ -4,10 +4,14 @@ import type { LocationData } from './useLocationData';
 import type { SpeedDisplay } from './useSpeedDisplay';
 import type { TimeDisplay } from './useTimeDisplay';
 import { logger } from '../../utils/logger';
+import { getLocationSourceType } from '../../utils/locationSource';
+import { describeRtirlStreamer } from '../../utils/rtirlStreamer';
+import type { WeatherData } from '../../types/weather';
 
 interface ConsoleAPI {
   getStatus: () => any;
   reloadWeather: () => void;
+  dismissWeatherAlerts: () => void;
   testSpeed: (speed: number) => void;
   testMode: (mode: string) => void;
   clearSpeed: () => void;
@@ -22,7 +26,7 @@ export function useDashboardConsole(
   locationData: LocationData,
   speedDisplay: SpeedDisplay,
   timeDisplay: TimeDisplay,
-  weatherData: any
+  weatherData: WeatherData | undefined
 ): ConsoleAPI {
   // Console API functions (extracted from original)
   const getStatus = useCallback(() => {
@@ -30,6 +34,8 @@ export function useDashboardConsole(
       rtirl: {
         connected: locationData.rtirlConnected,
         lastPosition: locationData.lastPosition,
+        source: getLocationSourceType(),
+        streamer: describeRtirlStreamer(),
       },
       location: {
         text: locationData.locationText,
@@ -49,7 +55,9 @@ export function useDashboardConsole(
       weather: {
         hasData: !!weatherData,
         temperature: weatherData?.current?.temp,
-        description: weatherData?.current?.weather?.[0]?.description,
+        description: weatherData?.current?.condition?.description,
+        provider: weatherData?.provider,
+        alerts: weatherData?.alerts.map(alert => alert.event) ?? [],
       },
     };
 
@@ -57,6 +65,7 @@ export function useDashboardConsole(
     logger('📊 Dashboard Status:');
     console.table({
       'RTIRL Connected': status.rtirl.connected,
+      'Location Source': `${status.rtirl.source} (${status.rtirl.streamer})`,
       'Location Text': status.location.text,
       'Speed (km/h)': status.speed.kmh,
       'Speed Mode': status.speed.mode,
@@ -72,7 +81,7 @@ export function useDashboardConsole(
     console.log(`  Location: ${status.location.text} (${status.location.connected ? 'connected' : 'disconnected'})`);
     console.log(`  Speed: ${status.speed.kmh} km/h (${status.speed.mph} mph) - Mode: ${status.speed.mode}`);
     console.log(`  Time: ${status.time.formatted} ${status.time.timezone}`);
-    console.log(`  Weather: ${status.weather.hasData ? `${Math.round(status.weather.temperature)}° - ${status.weather.description}` : 'No weather data'}`);
+    console.log(`  Weather: ${status.weather.temperature !== undefined ? `${Math.round(status.weather.temperature)}° - ${status.weather.description} (${status.weather.provider})` : 'No weather data'}`);
 
     return status;
   }, [locationData, speedDisplay, timeDisplay, weatherData]);
@@ -82,6 +91,11 @@ export function useDashboardConsole(
     window.dispatchEvent(new CustomEvent('forceWeatherUpdate'));
   }, []);
 
+  const dismissWeatherAlerts = useCallback(() => {
+    logger('⚠️ Dashboard: Dismissing weather alerts...');
+    window.dispatchEvent(new CustomEvent('dismissWeatherAlerts'));
+  }, []);
+
   const testSpeed = useCallback((speed: number) => {
     logger(`🚴 Dashboard: Setting test speed to ${speed} km/h`);
     speedUpdateService.updateSpeed(speed, 'CYCLING', { force: true });
@@ -102,10 +116,11 @@ export function useDashboardConsole(
   const consoleAPI: ConsoleAPI = useMemo(() => ({
     getStatus,
     reloadWeather,
+    dismissWeatherAlerts,
     testSpeed,
     testMode,
     clearSpeed,
-  }), [getStatus, reloadWeather, testSpeed, testMode, clearSpeed]);
+  }), [getStatus, reloadWeather, dismissWeatherAlerts, testSpeed, testMode, clearSpeed]);
 
   // Expose to window object (for backward compatibility)
   useEffect(() => {
@@ -1,6 +1,7 @@
 import { useEffect, useCallback, useRef } from 'react';
 import { logger } from '../../utils/logger';
 import { useConnectionStore } from '../../store/connectionStore';
+import { routeDemo } from '../../utils/routeDemo';
 import { speedUpdateService } from '../../utils/speedUpdateService';
 import type { DashboardConfig } from './useDashboardConfig';
 
@@ -47,7 +48,7 @@ export function useDashboardDemo(config: DashboardConfig): void {
       return;
     }
 
-    // Set global flag to prevent useRtirlSocket demo mode
+    // Set global flag to prevent useLocationSource demo mode
     setDashboardDemoActive(true);
 
     throttledLog(
@@ -117,4 +118,23 @@ export function useDashboardDemo(config: DashboardConfig): void {
       logger('🛑 Demo mode stopped - cleared speed data');
     };
   }, [config.demo, throttledLog, setDashboardDemoActive]);
+
+  // Route demo - positions arrive through useLocationSource like live data;
+  // the speed readout has no GPS processor here, so mirror the demo speed
+  useEffect(() => {
+    if (!config.routeDemo) {
+      return;
+    }
+
+    const unsubscribe = routeDemo.subscribe(frame => {
+      if (frame.payload) {
+        speedUpdateService.updateSpeed(frame.payload.speed, frame.mode);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      speedUpdateService.clearSpeedData();
+    };
+  }, [config.routeDemo]);
 }
@@ -0,0 +1,48 @@
+import { useMemo } from 'react';
+import { useElevationStore } from '../../store/elevationStore';
+import { usePersistedStoreSync } from '../usePersistedStoreSync';
+import type { ElevationSample } from '../../types/trip';
+
+export interface ElevationDisplay {
+  altitudeText: string; // "1,234 m"
+  ascentText: string; // "↑ 812 m"
+  descentText: string; // "↓ 640 m"
+  samples: ElevationSample[];
+  minM: number | null;
+  maxM: number | null;
+}
+
+const formatMeters = (meters: number): string =>
+  `${Math.round(meters).toLocaleString('en-US')} m`;
+
+/**
+ * Elevation Display Hook
+ * Today's altitude, climb totals and sparkline samples from
+ * useElevationStore, fed by useElevationTracking in the trip overlay (other
+ * OBS browser source)
+ */
+export function useElevationDisplay(): ElevationDisplay {
+  const today = useElevationStore(state => state.today);
+  usePersistedStoreSync(useElevationStore);
+
+  return useMemo<ElevationDisplay>(() => {
+    if (!today) {
+      return {
+        altitudeText: '--',
+        ascentText: '↑ --',
+        descentText: '↓ --',
+        samples: [],
+        minM: null,
+        maxM: null,
+      };
+    }
+    return {
+      altitudeText: formatMeters(today.currentM),
+      ascentText: `↑ ${formatMeters(today.ascentM)}`,
+      descentText: `↓ ${formatMeters(today.descentM)}`,
+      samples: today.samples,
+      minM: today.minM,
+      maxM: today.maxM,
+    };
+  }, [today]);
+}
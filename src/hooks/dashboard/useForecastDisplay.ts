@@ -0,0 +1,88 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  findIncomingPrecipitation,
+  formatIncomingPrecipitation,
+  getUpcomingHours,
+} from '../../utils/weatherForecast';
+import {
+  formatPrecipitation,
+  formatTemperatureShort,
+} from '../../utils/weatherUnits';
+import type { DashboardConfig } from './useDashboardConfig';
+import type {
+  WeatherCondition,
+  WeatherData,
+  WeatherUnits,
+} from '../../types/weather';
+
+export interface HourlyForecastItem {
+  time: number; // Unix seconds
+  timeText: string; // "14:00" / "2 PM"
+  condition: WeatherCondition;
+  tempText: string; // "22°"
+  precipitationText: string | null; // "40%", or "1.2 mm" without a chance
+}
+
+export interface ForecastDisplay {
+  hours: HourlyForecastItem[];
+  rainAlertText: string | null; // "Rain in ~40 min"
+}
+
+const TICK_MS = 60000;
+
+/**
+ * Forecast Display Hook
+ * Next hours for the forecast strip (?hourly=) and the rain-incoming
+ * banner, re-evaluated every minute between weather refreshes
+ */
+export function useForecastDisplay(
+  config: DashboardConfig,
+  weatherData: WeatherData | null | undefined,
+  units: WeatherUnits
+): ForecastDisplay {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  return useMemo<ForecastDisplay>(() => {
+    if (!weatherData) {
+      return { hours: [], rainAlertText: null };
+    }
+
+    // Same priority as the clock: URL override > weather timezone
+    const timeZone = config.timezoneOverride || weatherData.timezone;
+    const hours = getUpcomingHours(
+      weatherData,
+      now,
+      config.hourlyForecastHours
+    ).map(hour => ({
+      time: hour.time,
+      timeText: new Date(hour.time * 1000).toLocaleTimeString('en-US', {
+        hour: 'numeric',
+        minute: config.use12Hour ? undefined : '2-digit',
+        hour12: config.use12Hour,
+        timeZone,
+      }),
+      condition: hour.condition,
+      tempText: formatTemperatureShort(hour.temp, units.temperature),
+      precipitationText:
+        hour.precipitationProbability !== null
+          ? `${Math.round(hour.precipitationProbability)}%`
+          : hour.precipitationMm
+            ? formatPrecipitation(hour.precipitationMm, units.precipitation)
+            : null,
+    }));
+
+    const incoming = config.showRainAlert
+      ? findIncomingPrecipitation(weatherData, now)
+      : null;
+
+    return {
+      hours,
+      rainAlertText: incoming ? formatIncomingPrecipitation(incoming) : null,
+    };
+  }, [config, weatherData, units, now]);
+}
@@ -3,7 +3,7 @@ import {
   useConnectionStore,
   type Coordinates,
 } from '../../store/connectionStore';
-import { useRtirlSocket } from '../useRtirlSocket';
+import { useLocationSource } from '../useLocationSource';
 import { locationService } from '../../utils/locationService';
 import { logger } from '../../utils/logger';
 
@@ -25,7 +25,7 @@ export function useLocationData(): LocationData {
   const [isLoadingLocation, setIsLoadingLocation] = useState(false);
 
   const { lastPosition, isConnected } = useConnectionStore();
-  const { isConnected: rtirlConnected } = useRtirlSocket();
+  const { isConnected: rtirlConnected } = useLocationSource();
 
   // Track last processed coordinates to avoid unnecessary requests
   const lastProcessedCoords = useRef<string | null>(null);
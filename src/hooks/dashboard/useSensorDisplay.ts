@@ -0,0 +1,63 @@
+import { useMemo } from 'react';
+import { useConnectionStore } from '../../store/connectionStore';
+import { useElevationStore } from '../../store/elevationStore';
+import { usePersistedStoreSync } from '../usePersistedStoreSync';
+
+export interface SensorDisplay {
+  heading: number | null; // Degrees, for rotating the compass arrow
+  headingText: string; // "245° WSW"
+  altitudeText: string; // "312 m"
+  heartRateText: string; // "128 bpm"
+}
+
+const COMPASS_POINTS = [
+  'N',
+  'NNE',
+  'NE',
+  'ENE',
+  'E',
+  'ESE',
+  'SE',
+  'SSE',
+  'S',
+  'SSW',
+  'SW',
+  'WSW',
+  'W',
+  'WNW',
+  'NW',
+  'NNW',
+];
+
+// 16-point compass direction for a heading in degrees
+export const toCompassPoint = (heading: number): string =>
+  COMPASS_POINTS[Math.round((((heading % 360) + 360) % 360) / 22.5) % 16];
+
+/**
+ * Sensor Display Hook
+ * Formats the latest heading, altitude and heart rate from the location
+ * source; each reads "--" until a value has arrived. Altitude falls back to
+ * the trip overlay's elevation tracker, which may have it from a DEM lookup
+ * (?dem=true).
+ */
+export function useSensorDisplay(): SensorDisplay {
+  const sensors = useConnectionStore(state => state.sensors);
+  const trackedAltitude = useElevationStore(
+    state => state.today?.currentM ?? null
+  );
+  usePersistedStoreSync(useElevationStore);
+
+  return useMemo<SensorDisplay>(() => {
+    const { heading, heartRate } = sensors;
+    const altitude = sensors.altitude ?? trackedAltitude;
+    return {
+      heading,
+      headingText:
+        heading !== null
+          ? `${Math.round(heading) % 360}° ${toCompassPoint(heading)}`
+          : '--',
+      altitudeText: altitude !== null ? `${Math.round(altitude)} m` : '--',
+      heartRateText: heartRate !== null ? `${heartRate} bpm` : '--',
+    };
+  }, [sensors, trackedAltitude]);
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect, useMemo } from 'react';
 import type { DashboardConfig } from './useDashboardConfig';
-import type { WeatherResponse } from '../../types/weather';
+import type { WeatherData } from '../../types/weather';
 
 export interface TimeDisplay {
   dateStr: string;
@@ -16,7 +16,7 @@ export interface TimeDisplay {
  */
 export function useTimeDisplay(
   config: DashboardConfig,
-  weatherData?: WeatherResponse | null | undefined
+  weatherData?: WeatherData | null | undefined
 ): TimeDisplay {
   const [currentTime, setCurrentTime] = useState(new Date());
 
@@ -56,8 +56,8 @@ export function useTimeDisplay(
 
     // Get timezone offset from weather data or calculate from system (matches original exactly)
     let formattedTz = 'GMT';
-    if (weatherData?.timezone_offset !== undefined) {
-      const offsetHours = weatherData.timezone_offset / 3600;
+    if (weatherData?.timezoneOffset !== undefined) {
+      const offsetHours = weatherData.timezoneOffset / 3600;
       const offsetSign = offsetHours >= 0 ? '+' : '-';
       const absHours = Math.abs(offsetHours);
       if (absHours % 1 === 0) {
@@ -85,7 +85,7 @@ export function useTimeDisplay(
     config.use12Hour,
     config.timezoneOverride,
     weatherData?.timezone,
-    weatherData?.timezone_offset,
+    weatherData?.timezoneOffset,
   ]);
 
   return {
@@ -0,0 +1,170 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQueries } from '@tanstack/react-query';
+import { useTripStore } from '../../store/tripStore';
+import { usePersistedStoreSync } from '../usePersistedStoreSync';
+import { weatherQueryOptions } from '../useWeatherData';
+import { locationService } from '../../utils/locationService';
+import { getEtaSpeedKmh } from '../../utils/speedAverage';
+import {
+  formatAheadEta,
+  getForecastAt,
+  getPlaceName,
+  getRemainingRoute,
+  sampleRouteAhead,
+} from '../../utils/weatherAhead';
+import {
+  formatPrecipitation,
+  formatTemperatureShort,
+} from '../../utils/weatherUnits';
+import type { DashboardConfig } from './useDashboardConfig';
+import type { WeatherCondition, WeatherUnits } from '../../types/weather';
+
+export interface WeatherAheadItem {
+  routeKm: number;
+  placeText: string; // "Graz", or "+50 km" until the place is known
+  distanceText: string; // "50 km" / "31 mi" ahead
+  etaText: string; // "~2h"
+  condition: WeatherCondition;
+  tempText: string; // "18°"
+  precipitationText: string | null; // "60%", or "1.2 mm" without a chance
+  isDestination: boolean;
+}
+
+export interface WeatherAheadDisplay {
+  items: WeatherAheadItem[];
+  headlineText: string | null; // "Rain at Graz (~2h)"
+}
+
+const TICK_MS = 60000;
+const AHEAD_REFETCH_MS = 30 * 60 * 1000; // Forecasts hours out change slowly
+const KM_TO_MILES = 0.621371;
+
+/**
+ * Weather Ahead Hook
+ * Forecast at points along the remaining route (?ahead=), for the hour the
+ * rider should get there at the current average speed. Weather comes from
+ * the same React Query cache as useWeatherData; route and averages follow
+ * the trip overlay through the persisted trip store.
+ */
+export function useWeatherAhead(
+  config: DashboardConfig,
+  units: WeatherUnits
+): WeatherAheadDisplay {
+  const routeTrack = useTripStore(state => state.routeTrack);
+  const routeProgressKm = useTripStore(state => state.routeProgressKm);
+  const routePlan = useTripStore(state => state.routePlan);
+  const currentLegIndex = useTripStore(state => state.currentLegIndex);
+  const legDistanceKm = useTripStore(state => state.legDistanceKm);
+  const tripUnits = useTripStore(state => state.units);
+  const speedKmh = useTripStore(state => getEtaSpeedKmh(state));
+  const [now, setNow] = useState(Date.now());
+
+  const enabled = config.showWeather && config.weatherAheadKm.length > 0;
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, [enabled]);
+
+  // Progress is tracked by the trip overlay (other OBS browser source)
+  usePersistedStoreSync(useTripStore);
+
+  const samples = useMemo(() => {
+    if (!enabled) {
+      return [];
+    }
+    const route = getRemainingRoute(
+      routeTrack,
+      routeProgressKm,
+      routePlan,
+      currentLegIndex,
+      legDistanceKm
+    );
+    return route ? sampleRouteAhead(route, config.weatherAheadKm) : [];
+  }, [
+    enabled,
+    config.weatherAheadKm,
+    routeTrack,
+    routeProgressKm,
+    routePlan,
+    currentLegIndex,
+    legDistanceKm,
+  ]);
+
+  // No arrival times without an average speed, so nothing to fetch yet
+  const fetchSamples = speedKmh ? samples : [];
+
+  const weatherQueries = useQueries({
+    queries: fetchSamples.map(sample => ({
+      ...weatherQueryOptions(sample.position.lat, sample.position.lon, {
+        ahead: true,
+      }),
+      refetchInterval: AHEAD_REFETCH_MS,
+    })),
+  });
+
+  const placeQueries = useQueries({
+    queries: fetchSamples.map(sample => ({
+      queryKey: [
+        'place',
+        Math.round(sample.position.lat * 100) / 100,
+        Math.round(sample.position.lon * 100) / 100,
+      ],
+      queryFn: () => locationService.reverseGeocode(sample.position),
+      staleTime: Infinity,
+      retry: false,
+    })),
+  });
+
+  const items: WeatherAheadItem[] = [];
+  const headlines: string[] = [];
+  fetchSamples.forEach((sample, index) => {
+    const weather = weatherQueries[index]?.data;
+    if (!speedKmh || !weather || weather.provider === 'mock') {
+      return;
+    }
+    const etaMs = (sample.aheadKm / speedKmh) * 60 * 60 * 1000;
+    const forecast = getForecastAt(weather, now + etaMs);
+    if (!forecast) {
+      return;
+    }
+
+    const distance =
+      tripUnits === 'miles' ? sample.aheadKm * KM_TO_MILES : sample.aheadKm;
+    const distanceText = `${Math.round(distance)} ${tripUnits === 'miles' ? 'mi' : 'km'}`;
+    const place = placeQueries[index]?.data;
+    const placeName = place ? getPlaceName(place) : null;
+    const etaText = formatAheadEta(etaMs);
+    const { hour, wetType } = forecast;
+
+    items.push({
+      routeKm: sample.routeKm,
+      placeText: placeName ?? `+${distanceText}`,
+      distanceText,
+      etaText,
+      condition: hour.condition,
+      tempText: formatTemperatureShort(hour.temp, units.temperature),
+      precipitationText:
+        hour.precipitationProbability !== null
+          ? `${Math.round(hour.precipitationProbability)}%`
+          : hour.precipitationMm
+            ? formatPrecipitation(hour.precipitationMm, units.precipitation)
+            : null,
+      isDestination: sample.isDestination,
+    });
+
+    if (wetType) {
+      const label = wetType === 'snow' ? 'Snow' : 'Rain';
+      headlines.push(
+        placeName
+          ? `${label} at ${placeName} (${etaText})`
+          : `${label} in ${distanceText} (${etaText})`
+      );
+    }
+  });
+
+  return { items, headlineText: headlines[0] ?? null };
+}
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useWeatherAlertStore } from '../../store/weatherAlertStore';
+import { formatAlertWindow, getVisibleAlerts } from '../../utils/weatherAlerts';
+import type { DashboardConfig } from './useDashboardConfig';
+import type {
+  WeatherAlert,
+  WeatherAlertSeverity,
+  WeatherData,
+} from '../../types/weather';
+
+export interface WeatherAlertItem {
+  id: string;
+  event: string; // "Orange Thunderstorm Warning"
+  severity: WeatherAlertSeverity;
+  windowText: string; // "until 19:00"
+  sender: string;
+}
+
+export interface WeatherAlertsDisplay {
+  alerts: WeatherAlertItem[];
+  dismiss: (id: string) => void;
+}
+
+const TICK_MS = 60000;
+
+/**
+ * Weather Alerts Hook
+ * Official warnings for the alert banner (?alerts=) - expired alerts drop
+ * out within a minute, dismissed ones stay hidden until they end
+ */
+export function useWeatherAlerts(
+  config: DashboardConfig,
+  weatherData: WeatherData | null | undefined
+): WeatherAlertsDisplay {
+  const [now, setNow] = useState(Date.now());
+  const dismissed = useWeatherAlertStore(state => state.dismissed);
+
+  useEffect(() => {
+    const tick = () => {
+      setNow(Date.now());
+      useWeatherAlertStore.getState().pruneDismissed(Date.now() / 1000);
+    };
+    tick();
+    const timer = setInterval(tick, TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const visible = useMemo<WeatherAlert[]>(
+    () =>
+      weatherData && config.alertMinSeverity
+        ? getVisibleAlerts(
+            weatherData.alerts,
+            now,
+            config.alertMinSeverity,
+            dismissed
+          )
+        : [],
+    [weatherData, config.alertMinSeverity, now, dismissed]
+  );
+
+  const dismiss = useCallback(
+    (id: string) => {
+      useWeatherAlertStore
+        .getState()
+        .dismissAlerts(visible.filter(alert => alert.id === id));
+    },
+    [visible]
+  );
+
+  // dismissWeatherAlerts() console command
+  useEffect(() => {
+    const handleDismissAll = () =>
+      useWeatherAlertStore.getState().dismissAlerts(visible);
+    window.addEventListener('dismissWeatherAlerts', handleDismissAll);
+    return () =>
+      window.removeEventListener('dismissWeatherAlerts', handleDismissAll);
+  }, [visible]);
+
+  const alerts = useMemo<WeatherAlertItem[]>(() => {
+    // Same priority as the clock: URL override > weather timezone
+    const timeZone = config.timezoneOverride || weatherData?.timezone;
+    return visible.map(alert => ({
+      id: alert.id,
+      event: alert.event,
+      severity: alert.severity,
+      windowText: formatAlertWindow(alert, now, timeZone, config.use12Hour),
+      sender: alert.sender,
+    }));
+  }, [visible, now, config, weatherData?.timezone]);
+
+  return { alerts, dismiss };
+}
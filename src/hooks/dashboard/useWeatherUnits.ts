@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { useTripStore } from '../../store/tripStore';
+import { usePersistedStoreSync } from '../usePersistedStoreSync';
+import { resolveWeatherUnits } from '../../utils/weatherUnits';
+import type { WeatherUnits } from '../../types/weather';
+
+/**
+ * Weather Units Hook
+ * Display units for the weather section - URL overrides, else defaults
+ * for the trip's km/miles setting
+ */
+export function useWeatherUnits(): WeatherUnits {
+  const tripUnits = useTripStore(state => state.units);
+
+  // Follow unit switches made in the trip overlay (other OBS browser source)
+  usePersistedStoreSync(useTripStore);
+
+  return useMemo(() => resolveWeatherUnits(tripUnits), [tripUnits]);
+}
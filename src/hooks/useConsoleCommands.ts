@@ -1,6 +1,73 @@
+import { useConnectionStore } from '../store/connectionStore';
+import { useElevationStore } from '../store/elevationStore';
 import { useTripProgressStore } from '../store/tripStore';
 import { useLocalStorage } from './useLocalStorage';
-import type { TripProgress } from '../types/trip';
+import {
+  getRoutePlanDistance,
+  getRouteProgress,
+  getTripRemainingKm,
+  parseRoutePlan,
+} from '../utils/routePlan';
+import {
+  fetchRouteFromUrl,
+  parseRouteFile,
+  pickRouteFile,
+  type ImportedRoute,
+} from '../utils/routeImport';
+import { buildRouteTrack } from '../utils/routeProjection';
+import {
+  calculateAverageSpeed,
+  estimateArrival,
+  getEtaSpeedKmh,
+} from '../utils/speedAverage';
+import { trackRecorder } from '../utils/trackRecorder';
+import { exportTrack, type TrackExportFormat } from '../utils/trackExport';
+import { getSmoothingMode } from '../utils/kalmanFilter';
+import {
+  formatStaleDuration,
+  getLocationSourceType,
+} from '../utils/locationSource';
+import {
+  describeRtirlStreamer,
+  getRtirlStreamer,
+} from '../utils/rtirlStreamer';
+import {
+  gpsReplay,
+  parseReplaySession,
+  parseReplaySpeed,
+  type ReplaySpeed,
+} from '../utils/gpsReplay';
+import {
+  getMovementProfile,
+  parseMovementProfile,
+  resolveMovementProfile,
+  setMovementProfile,
+} from '../utils/movementProfile';
+import {
+  journalService,
+  type JournalDay,
+  type JournalExportFormat,
+} from '../utils/journalService';
+import type { MovementProfile, RoutePlan, TripProgress } from '../types/trip';
+import type { GpsRejectReason } from '../utils/gpsEngine';
+
+type RejectCounts = Partial<Record<GpsRejectReason, number>>;
+
+// Fixes that arrived out of order, as opposed to ones the engine's filters
+// dropped - kept apart so stationary drift doesn't bury clock problems
+const ORDERING_REASONS: GpsRejectReason[] = ['stale', 'duplicate'];
+
+const summarizeRejectedFixes = (counts: RejectCounts) => {
+  const ordering: RejectCounts & { total: number } = { total: 0 };
+  const filtered: RejectCounts & { total: number } = { total: 0 };
+  (Object.keys(counts) as GpsRejectReason[]).forEach(reason => {
+    const count = counts[reason] ?? 0;
+    const group = ORDERING_REASONS.includes(reason) ? ordering : filtered;
+    group[reason] = count;
+    group.total += count;
+  });
+  return { ordering, filtered };
+};
 
 /**
  * Console commands hook - provides all console API functionality
@@ -14,6 +81,15 @@ export function useConsoleCommands() {
     lastActiveDate: new Date().toDateString(),
   });
 
+  const applyImportedRoute = (route: ImportedRoute): string => {
+    const track = buildRouteTrack(route.points, route.name);
+    useTripProgressStore.getState().setRouteTrack(track);
+    console.log(
+      `CONSOLE: Route "${track.name || 'unnamed'}" imported - ${track.points.length} points, ${track.totalKm.toFixed(1)}km`
+    );
+    return `Route imported: ${track.totalKm.toFixed(1)}km`;
+  };
+
   // Console command implementations with feedback
   const consoleCommands = {
     addDistance: (km: number): string => {
@@ -138,6 +214,284 @@ export function useConsoleCommands() {
       return `Total traveled: ${km.toFixed(1)}km`;
     },
 
+    setRoutePlan: (plan: string | RoutePlan): string => {
+      try {
+        const parsed = parseRoutePlan(plan);
+        tripStore.setRoutePlan(parsed);
+        console.log(
+          `CONSOLE: Route plan loaded - ${parsed.legs.length} legs, ${getRoutePlanDistance(parsed).toFixed(1)}km`
+        );
+        return `Route plan: ${parsed.legs.length} legs`;
+      } catch (error) {
+        console.error('CONSOLE: Failed to load route plan:', error);
+        return `Route plan failed - ${error instanceof Error ? error.message : 'invalid data'}`;
+      }
+    },
+
+    getRoutePlan: () => {
+      const { routePlan, currentLegIndex, legDistanceKm } =
+        useTripProgressStore.getState();
+      if (!routePlan) {
+        console.log('CONSOLE: No route plan loaded');
+        return null;
+      }
+      console.table(
+        routePlan.legs.map((leg, index) => ({
+          Leg: index + 1,
+          Name: leg.name,
+          'Distance (km)': leg.distanceKm.toFixed(1),
+          Status:
+            index < currentLegIndex
+              ? 'done'
+              : index === currentLegIndex
+                ? 'current'
+                : 'planned',
+        }))
+      );
+      return {
+        ...routePlan,
+        progress: getRouteProgress(routePlan, currentLegIndex, legDistanceKm),
+      };
+    },
+
+    nextLeg: (): string => {
+      const { routePlan, currentLegIndex } = useTripProgressStore.getState();
+      if (!routePlan) {
+        return 'No route plan loaded';
+      }
+      if (!tripStore.advanceLeg()) {
+        return 'Already on the last leg';
+      }
+      const leg = routePlan.legs[currentLegIndex + 1];
+      console.log(`CONSOLE: Advanced to leg ${currentLegIndex + 2}`);
+      return `Leg ${currentLegIndex + 2}/${routePlan.legs.length}: ${leg.name}`;
+    },
+
+    setLeg: (legNumber: number): string => {
+      const { routePlan } = useTripProgressStore.getState();
+      if (!routePlan) {
+        return 'No route plan loaded';
+      }
+      if (legNumber < 1 || legNumber > routePlan.legs.length) {
+        return `Leg must be between 1 and ${routePlan.legs.length}`;
+      }
+      tripStore.setCurrentLeg(legNumber - 1);
+      return `Leg ${legNumber}/${routePlan.legs.length}: ${routePlan.legs[legNumber - 1].name}`;
+    },
+
+    clearRoutePlan: (): string => {
+      tripStore.clearRoutePlan();
+      console.log('CONSOLE: Route plan cleared');
+      return 'Route plan cleared';
+    },
+
+    importRoute: (gpxOrKml: string): string => {
+      try {
+        return applyImportedRoute(parseRouteFile(gpxOrKml));
+      } catch (error) {
+        console.error('CONSOLE: Failed to import route:', error);
+        return `Route import failed - ${error instanceof Error ? error.message : 'invalid data'}`;
+      }
+    },
+
+    loadRouteFromUrl: async (url: string): Promise<string> => {
+      try {
+        return applyImportedRoute(await fetchRouteFromUrl(url));
+      } catch (error) {
+        console.error('CONSOLE: Failed to load route from URL:', error);
+        return `Route download failed - ${error instanceof Error ? error.message : 'unknown error'}`;
+      }
+    },
+
+    importRouteFile: async (): Promise<string> => {
+      try {
+        return applyImportedRoute(await pickRouteFile());
+      } catch (error) {
+        console.error('CONSOLE: Failed to import route file:', error);
+        return `Route import failed - ${error instanceof Error ? error.message : 'unknown error'}`;
+      }
+    },
+
+    clearRoute: (): string => {
+      tripStore.clearRouteTrack();
+      console.log('CONSOLE: Imported route cleared');
+      return 'Route cleared';
+    },
+
+    getRouteStatus: () => {
+      const { routeTrack, routeProgressKm, routeOffRouteM, totalTraveledKm } =
+        useTripProgressStore.getState();
+      if (!routeTrack) {
+        console.log('CONSOLE: No route imported');
+        return null;
+      }
+      const status = {
+        name: routeTrack.name,
+        points: routeTrack.points.length,
+        routeKm: routeTrack.totalKm,
+        alongRouteKm: routeProgressKm,
+        remainingKm: Math.max(0, routeTrack.totalKm - routeProgressKm),
+        offRouteM: routeOffRouteM,
+        odometerKm: totalTraveledKm,
+      };
+      console.table(status);
+      return status;
+    },
+
+    exportTrack: async (
+      format: TrackExportFormat = 'gpx',
+      day?: string
+    ): Promise<string> => {
+      if (format !== 'gpx' && format !== 'geojson') {
+        return 'Format must be "gpx" or "geojson"';
+      }
+      try {
+        return await exportTrack(format, day);
+      } catch (error) {
+        console.error('CONSOLE: Failed to export track:', error);
+        return `Track export failed - ${error instanceof Error ? error.message : 'unknown error'}`;
+      }
+    },
+
+    getTrackDays: async (): Promise<string[]> => {
+      const days = await trackRecorder.getDays();
+      console.log(`CONSOLE: Recorded days: ${days.join(', ') || 'none'}`);
+      return days;
+    },
+
+    clearTrack: async (): Promise<string> => {
+      await trackRecorder.clear();
+      return 'Recorded track cleared';
+    },
+
+    loadProfile: async (
+      source: string | Record<string, unknown>
+    ): Promise<string> => {
+      try {
+        const profile =
+          typeof source === 'string'
+            ? await resolveMovementProfile(source)
+            : parseMovementProfile(source);
+        setMovementProfile(profile);
+        return `Movement profile "${profile.name}": ${profile.modes.map(mode => mode.name).join(', ')}`;
+      } catch (error) {
+        console.error('CONSOLE: Failed to load movement profile:', error);
+        return `Profile load failed - ${error instanceof Error ? error.message : 'invalid data'}`;
+      }
+    },
+
+    getProfile: (): MovementProfile => {
+      const profile = getMovementProfile();
+      console.log(
+        `CONSOLE: Movement profile "${profile.name}" (hysteresis ${profile.hysteresisKmh} km/h, slow-down delay ${profile.modeSwitchDelayMs / 1000}s)`
+      );
+      console.table(profile.modes);
+      return profile;
+    },
+
+    clearProfile: (): string => {
+      setMovementProfile(null);
+      return 'Movement profile reset to default';
+    },
+
+    replay: async (
+      session: string | unknown[] | Record<string, unknown>,
+      speed: ReplaySpeed = 1
+    ): Promise<string> => {
+      if (!parseReplaySpeed(speed)) {
+        return 'Speed must be 1, 10 or "max"';
+      }
+      try {
+        const frames = parseReplaySession(session);
+        const fixes = await gpsReplay.start(frames, speed);
+        return `Replay finished - ${fixes} fixes`;
+      } catch (error) {
+        console.error('CONSOLE: Failed to replay session:', error);
+        return `Replay failed - ${error instanceof Error ? error.message : 'invalid data'}`;
+      }
+    },
+
+    stopReplay: (): string => {
+      gpsReplay.stop();
+      return 'Replay stopped';
+    },
+
+    exportSession: (): string => gpsReplay.exportSession(),
+
+    checkRtirlConnection: () => {
+      const streamer = getRtirlStreamer();
+      const connection = useConnectionStore.getState();
+      const report = {
+        source: getLocationSourceType(),
+        streamer: describeRtirlStreamer(streamer),
+        platform: streamer.platform,
+        userId: streamer.platform === 'pullKey' ? null : streamer.id || null,
+        libraryLoaded: typeof window.RealtimeIRL !== 'undefined',
+        status: connection.connectionStatus,
+        connected: connection.isConnected,
+        reconnectAttempts: connection.reconnectAttempts,
+        staleFor:
+          connection.staleSince !== null
+            ? formatStaleDuration(Date.now() - connection.staleSince)
+            : null,
+        lastPosition: connection.lastPosition,
+      };
+      console.table(report);
+      return report;
+    },
+
+    getJournal: (): JournalDay[] => {
+      const days = journalService.getDays();
+      if (days.length === 0) {
+        console.log('CONSOLE: Journal is empty');
+        return days;
+      }
+      console.table(
+        days.map(day => ({
+          day: day.dayNumber,
+          date: day.date,
+          km: Number(day.distanceKm.toFixed(1)),
+          movingMin: Math.round(day.movingTimeMs / 60000),
+          avgKmh:
+            day.averageSpeedKmh !== null
+              ? Number(day.averageSpeedKmh.toFixed(1))
+              : null,
+          maxKmh: Number(day.maxSpeedKmh.toFixed(1)),
+          elevationM:
+            day.elevationGainM !== null ? Math.round(day.elevationGainM) : null,
+          from: day.startPlace,
+          to: day.endPlace,
+        }))
+      );
+      return days;
+    },
+
+    getElevation: () => {
+      const { today } = useElevationStore.getState();
+      if (!today) {
+        console.log('CONSOLE: No altitude received today');
+        return null;
+      }
+      const report = {
+        date: today.date,
+        altitudeM: Math.round(today.currentM),
+        ascentM: Math.round(today.ascentM),
+        descentM: Math.round(today.descentM),
+        minM: Math.round(today.minM),
+        maxM: Math.round(today.maxM),
+        samples: today.samples.length,
+      };
+      console.table(report);
+      return report;
+    },
+
+    exportJournal: (format: JournalExportFormat = 'csv'): string => {
+      if (format !== 'csv' && format !== 'json') {
+        return 'Format must be "csv" or "json"';
+      }
+      return journalService.exportJournal(format);
+    },
+
     showConsoleCommands: (): string => {
       const help = `
 --- Trip Overlay Console Commands ---
@@ -150,6 +504,31 @@ TripOverlay.controls.jumpToProgress(%)     - Jumps to a specific percentage of t
 // --- Trip Configuration ---
 TripOverlay.controls.setTotalDistance(km)  - Changes the total trip distance target. Ex: TripOverlay.controls.setTotalDistance(500)
 
+// --- Route Plan (multi-leg trips) ---
+TripOverlay.controls.setRoutePlan(json)    - Loads legs [{ name, start, end, distanceKm }]. Total distance becomes the sum of legs.
+TripOverlay.controls.getRoutePlan()        - Shows all legs and current leg/whole-trip progress.
+TripOverlay.controls.nextLeg()             - Manually advances to the next leg.
+TripOverlay.controls.setLeg(n)             - Jumps to leg number n (1-based).
+TripOverlay.controls.clearRoutePlan()      - Removes the route plan (back to single total distance).
+
+// --- Route Import (GPX/KML) ---
+TripOverlay.controls.importRoute(text)     - Imports a GPX/KML route from a string. Progress follows the route.
+TripOverlay.controls.loadRouteFromUrl(url) - Downloads and imports a GPX/KML route.
+TripOverlay.controls.importRouteFile()     - Opens a file picker to import a GPX/KML route.
+TripOverlay.controls.getRouteStatus()      - Shows along-route progress, off-route distance and odometer.
+TripOverlay.controls.clearRoute()          - Removes the imported route.
+
+// --- Movement Profile ---
+TripOverlay.controls.loadProfile(source)   - Loads a movement profile from a URL, JSON or base64 JSON (or an object).
+TripOverlay.controls.getProfile()          - Shows the active modes, speed bands, throttles and avatars.
+TripOverlay.controls.clearProfile()        - Goes back to the built-in STATIONARY/WALKING/CYCLING/MOTORBIKE modes.
+
+// --- GPS Replay ---
+TripOverlay.controls.replay(json, speed)   - Replays a recorded RTIRL session with original timing. Speed: 1 (default), 10 or 'max'.
+TripOverlay.controls.stopReplay()          - Stops a running replay (live GPS resumes).
+TripOverlay.controls.exportSession()       - Downloads the recently received live RTIRL payloads for replay.
+TripOverlay.controls.checkRtirlConnection() - Shows the location source, RTIRL platform/user and connection state.
+
 // --- Unit Conversion ---
 TripOverlay.controls.convertToMiles()      - Switches display to Imperial units (miles).
 TripOverlay.controls.convertToKilometers() - Switches display to Metric units (kilometers).
@@ -161,6 +540,14 @@ TripOverlay.controls.resetTodayDistance()  - Resets only the 'today' distance co
 // --- Data Management ---
 TripOverlay.controls.exportTripData()      - Downloads a backup file of current trip progress.
 TripOverlay.controls.importTripData(json)  - Restores trip progress from a JSON string.
+TripOverlay.controls.exportTrack(fmt, day) - Downloads the ridden path ('gpx' or 'geojson'), one file per day. Ex: exportTrack('gpx', '2025-07-14')
+TripOverlay.controls.getTrackDays()        - Lists the days with a recorded track.
+TripOverlay.controls.clearTrack()          - Deletes the recorded track.
+
+// --- Trip Journal ---
+TripOverlay.controls.getJournal()          - Shows every riding day (distance, moving time, speeds, places).
+TripOverlay.controls.exportJournal(fmt)    - Downloads the journal as 'csv' (default) or 'json'.
+TripOverlay.controls.getElevation()        - Shows today's altitude, ascent/descent and min/max.
 
 // --- Additional Commands ---
 TripOverlay.controls.setTodayDistance(km)  - Sets today's distance to specific value.
@@ -185,6 +572,36 @@ TripOverlay.getStatus()           - Shows the current status of the overlay.
 ?stream=true          - Enables stream mode (hotkey hints).
 ?setTodayDistance=<km>- Sets today's distance on load.
 ?setTotalTraveled=<km>- Sets total traveled distance on load.
+?routePlan=<json>     - Loads a URL-encoded route plan on load.
+?leg=<n>              - Jumps to leg number n of the route plan on load.
+?route=<url>          - Downloads and imports a GPX/KML route on load.
+?exportTrack=gpx      - Downloads the recorded track (gpx or geojson) on load.
+?dailyReset=<policy>  - Today's distance reset: midnight (rider timezone), idle, or manual.
+?resetIdleHours=<h>   - Hours without movement before the 'idle' policy resets (default 6).
+?resetGraceHours=<h>  - 'midnight' policy: skip the reset if active within this many hours (default 6).
+?resetTimezone=<tz>   - Rider timezone override, e.g. Europe/Vienna.
+?columns=<list>       - Chooses overlay columns: traveled,today,remaining,eta,avgSpeed (max 4).
+?source=<type>        - Location source: rtirl (default), geolocation, websocket, demo or replay.
+?sourceUrl=<ws-url>   - WebSocket URL for source=websocket (OwnTracks, Traccar or RTIRL-style JSON).
+?platform=<name>      - RTIRL platform of the user id: twitch (default), kick or youtube.
+?userId=<id>          - RTIRL user id to follow (default: VITE_RTIRL_USER_ID).
+?pullKey=<key>        - Follows an RTIRL pull key instead of a platform user id.
+?staleAfter=<s>       - Seconds without a fix before the GPS feed is marked stale and re-attached (default 30).
+?bpm=true             - Also listens to the RTIRL heart rate channel (shown by the dashboard).
+?dem=true             - Looks altitude up via /elevation when the location feed has none.
+?weatherProvider=<p>  - Dashboard weather: server (default, /weather function), owm, open-meteo or local (fixture).
+?tempUnit=c|f         - Dashboard temperature unit (default: from the trip's km/miles setting).
+?windUnit=<u>         - Dashboard wind unit: kmh, mph, ms, kn or bft (Beaufort).
+?precipUnit=mm|in     - Dashboard precipitation unit.
+?hourly=true|3-6      - Dashboard hourly forecast strip: icon, temperature and chance of rain.
+?rainAlert=false      - Hides the dashboard's "Rain in ~40 min" banner.
+?alerts=<level>       - Dashboard weather warnings: false hides them, minor|moderate|severe|extreme sets the minimum.
+?ahead=true|<km,...>  - Dashboard weather ahead on the route at arrival time (default 25,50,100 km).
+?replay=<url>         - Replays a recorded RTIRL session as the location source (&replaySpeed=1|10|max).
+?profile=<src>        - Loads a movement profile (URL or base64 JSON) on load.
+?smoothing=kalman     - Kalman-filters position and speed (default: none, legacy behavior).
+?demo=route           - Rides the imported route (or a sample loop) with stops, a tunnel gap and a noisy burst.
+?demoProfile=<spec>   - Route demo script, e.g. stop:20,walk:60@5,ride:300@22,tunnel:45@25,noisy:20@20.
 
 ------------------------------------
       `;
@@ -202,6 +619,39 @@ TripOverlay.getStatus()           - Shows the current status of the overlay.
           (state.currentDistanceKm / state.totalDistanceKm) * 100,
         currentMode: state.isMoving ? 'MOVING' : 'STATIONARY',
         useImperialUnits: state.units === 'miles',
+        route: state.routePlan
+          ? getRouteProgress(
+              state.routePlan,
+              state.currentLegIndex,
+              state.legDistanceKm
+            )
+          : null,
+        movementMode: state.currentMode,
+        modeConfidence: Math.round(state.modeConfidence * 100) / 100,
+        smoothing: getSmoothingMode(),
+        rejectedFixes: summarizeRejectedFixes(state.rejectedFixes),
+        locationSource: getLocationSourceType(),
+        rtirlStreamer: describeRtirlStreamer(),
+        movingAverage: {
+          recentKmh: state.recentAverageKmh,
+          todayKmh: calculateAverageSpeed(
+            state.todayMovingKm,
+            state.todayMovingTimeMs
+          ),
+          todayMovingMinutes: state.todayMovingTimeMs / 60000,
+          eta:
+            estimateArrival(
+              getTripRemainingKm(state),
+              getEtaSpeedKmh(state)
+            )?.arrivalTime.toISOString() ?? null,
+        },
+        alongRoute: state.routeTrack
+          ? {
+              routeKm: state.routeTrack.totalKm,
+              progressKm: state.routeProgressKm,
+              offRouteM: state.routeOffRouteM,
+            }
+          : null,
       };
     },
   };
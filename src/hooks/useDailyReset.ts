@@ -0,0 +1,51 @@
+import { useEffect } from 'react';
+import { useTripProgressStore } from '../store/tripStore';
+import {
+  evaluateDailyReset,
+  getDailyResetSettings,
+  getRiderTimezone,
+} from '../utils/dailyReset';
+import { logger } from '../utils/logger';
+
+// Streams often run across midnight, so re-check while the overlay is open
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Daily Reset Hook - resets today's distance according to the configured
+ * policy (midnight in the rider's timezone, idle hours, or manual only)
+ */
+export function useDailyReset() {
+  useEffect(() => {
+    const settings = getDailyResetSettings();
+    logger(
+      `🌅 Daily reset: policy=${settings.policy}, idle=${settings.idleHours}h, grace=${settings.graceHours}h, timezone=${getRiderTimezone()}`
+    );
+
+    const checkDailyReset = () => {
+      const {
+        lastDailyResetAt,
+        lastActiveAt,
+        resetTodayDistance,
+        setDailyResetBaseline,
+      } = useTripProgressStore.getState();
+
+      // First run with this version - start counting from now
+      if (lastDailyResetAt === null) {
+        setDailyResetBaseline(Date.now());
+        return;
+      }
+
+      const decision = evaluateDailyReset(lastDailyResetAt, lastActiveAt);
+      if (decision.shouldReset) {
+        logger(
+          `🌅 Daily reset: "${decision.rule}" rule fired - ${decision.reason}`
+        );
+        resetTodayDistance();
+      }
+    };
+
+    checkDailyReset();
+    const intervalId = setInterval(checkDailyReset, CHECK_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, []);
+}
@@ -0,0 +1,84 @@
+import { useEffect } from 'react';
+import { useElevationStore } from '../store/elevationStore';
+import { useJournalStore } from '../store/journalStore';
+import { CONFIG } from '../utils/config';
+import { isElevationLookupEnabled } from '../utils/elevation';
+import { elevationService } from '../utils/elevationService';
+import { calculateDistance } from '../utils/gps';
+import { logger } from '../utils/logger';
+import { getTrackDay } from '../utils/trackRecorder';
+import type { Coordinates } from '../types/config';
+import type { LocationData } from '../types/rtirl';
+
+/**
+ * Elevation Tracking Hook
+ * Feeds altitude from 'locationUpdate' fixes into useElevationStore and the
+ * day's ascent into the journal. Fixes without altitude fall back to a
+ * throttled /elevation lookup with ?dem=true. Mounted by the trip overlay
+ * only - the dashboard reads the persisted store, so lookups and climb
+ * totals aren't doubled.
+ */
+export function useElevationTracking() {
+  useEffect(() => {
+    const lookupEnabled = isElevationLookupEnabled();
+    const { lookupIntervalMs, lookupMinMoveM } = CONFIG.elevation;
+    let lastLookup: { at: number; position: Coordinates } | null = null;
+    let disposed = false;
+
+    if (lookupEnabled) {
+      logger('⛰️ Elevation: DEM lookup enabled for fixes without altitude');
+    }
+
+    const record = (altitudeM: number, timestamp: number) => {
+      const date = getTrackDay(timestamp);
+      const { today, recordAltitude } = useElevationStore.getState();
+      const previousAscentM = today?.date === date ? today.ascentM : 0;
+      recordAltitude(date, altitudeM, timestamp);
+
+      const gainM =
+        (useElevationStore.getState().today?.ascentM ?? 0) - previousAscentM;
+      if (gainM > 0) {
+        useJournalStore.getState().addElevationGain(date, gainM);
+      }
+    };
+
+    const handleLocationUpdate = (event: CustomEvent<LocationData>) => {
+      const { latitude, longitude, altitude, timestamp } = event.detail;
+      if (altitude !== undefined) {
+        record(altitude, timestamp);
+        return;
+      }
+      if (!lookupEnabled) {
+        return;
+      }
+
+      const position = { lat: latitude, lon: longitude };
+      if (
+        lastLookup &&
+        (timestamp - lastLookup.at < lookupIntervalMs ||
+          calculateDistance(lastLookup.position, position) * 1000 <
+            lookupMinMoveM)
+      ) {
+        return;
+      }
+      lastLookup = { at: timestamp, position };
+      void elevationService.lookup(position).then(elevation => {
+        if (!disposed && elevation !== null) {
+          record(elevation, timestamp);
+        }
+      });
+    };
+
+    window.addEventListener(
+      'locationUpdate',
+      handleLocationUpdate as EventListener
+    );
+    return () => {
+      disposed = true;
+      window.removeEventListener(
+        'locationUpdate',
+        handleLocationUpdate as EventListener
+      );
+    };
+  }, []);
+}
@@ -1,278 +1,270 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { useTripProgressStore } from '../store/tripStore';
-import { calculateDistance } from '../utils/gps';
-import { CONFIG, validateCoordinates } from '../utils/config';
+import { CONFIG } from '../utils/config';
 import { logger } from '../utils/logger';
 import { speedUpdateService } from '../utils/speedUpdateService';
+import { getArrivalRadiusM, hasArrivedAtLegEnd } from '../utils/routePlan';
+import { projectOntoRoute } from '../utils/routeProjection';
+import { trackRecorder } from '../utils/trackRecorder';
+import { journalService } from '../utils/journalService';
+import { setRiderPosition } from '../utils/dailyReset';
+import { GpsEngine } from '../utils/gpsEngine';
+import { getSmoothingMode } from '../utils/kalmanFilter';
+import { getStoppedMode } from '../utils/movementProfile';
+import {
+  MAX_MOVING_SAMPLE_MS,
+  MovingAverageEngine,
+} from '../utils/speedAverage';
 import type { Coordinates } from '../types/config';
 import type { LocationData } from '../types/rtirl';
 
-interface GPSState {
-  lastPosition: Coordinates | null;
-  lastTimestamp: number;
-  lastModeChange: number;
-  currentMode: 'STATIONARY' | 'WALKING' | 'CYCLING';
-  modeSwitchTimeout: ReturnType<typeof setTimeout> | null;
-  lastThrottleLogTime: number;
+interface ProgressLogState {
   lastProgressLogTime: number;
   lastLoggedProgress: number | null;
-  startLocation: Coordinates | null;
 }
 
 /**
- * GPS Processing Hook - Converts raw GPS data to robust movement detection
- * Handles speed calculation, mode detection with stability, and store updates
+ * GPS Processing Hook - Zustand adapter over the shared GpsEngine
+ * The engine does throttling, speed, mode, drift and jump detection; this
+ * hook writes its events into the trip store and the trip features
+ * (route legs, along-route progress, averages, journal, track recording)
  */
 export function useGPSProcessor() {
-  const { updateSpeed, setMoving, addDistance, setCurrentMode } = useTripProgressStore();
-
-  const stateRef = useRef<GPSState>({
-    lastPosition: null,
-    lastTimestamp: 0,
-    lastModeChange: 0,
-    currentMode: 'STATIONARY',
-    modeSwitchTimeout: null,
-    lastThrottleLogTime: 0,
+  const {
+    updateSpeed,
+    setMoving,
+    addDistance,
+    setCurrentMode,
+    setModeConfidence,
+    addMovingTime,
+    markActive,
+  } = useTripProgressStore();
+  const engineRef = useRef<GpsEngine | null>(null);
+  const averageEngineRef = useRef(new MovingAverageEngine());
+  const logStateRef = useRef<ProgressLogState>({
     lastProgressLogTime: 0,
     lastLoggedProgress: null,
-    startLocation: CONFIG.trip.useAutoStart ? null : CONFIG.trip.manualStartLocation,
   });
 
-  // Calculate speed from GPS positions using Haversine formula
-  const _calculateSpeedFromGPS = useCallback(
-    (pos1: Coordinates, pos2: Coordinates, timeDeltaMs: number): number => {
-      if (timeDeltaMs <= 0) {
-        return 0;
-      }
-
-      const distanceKm = calculateDistance(pos1, pos2);
-      const timeHours = timeDeltaMs / (1000 * 60 * 60);
-      return distanceKm / timeHours; // km/h
-    },
-    []
-  );
-
-  // Simple speed-based mode determination (matching original vanilla JS)
-  const handleSpeedData = useCallback((speedKmh: number) => {
-    if (typeof speedKmh !== 'number' || !isFinite(speedKmh)) {
+  // Auto-advance the route plan when the rider reaches the current leg's end
+  const checkLegArrival = useCallback((position: Coordinates) => {
+    const { routePlan, currentLegIndex, advanceLeg } =
+      useTripProgressStore.getState();
+    if (!routePlan) {
       return;
     }
 
-    const state = stateRef.current;
-    const MOVEMENT_MODES = CONFIG.movement.modes;
-    
-    let newMode: 'STATIONARY' | 'WALKING' | 'CYCLING' = 'STATIONARY';
-    if (speedKmh > MOVEMENT_MODES.WALKING.maxSpeed) {
-      newMode = 'CYCLING';
-    } else if (speedKmh > MOVEMENT_MODES.STATIONARY.maxSpeed) {
-      newMode = 'WALKING';
+    const leg = routePlan.legs[currentLegIndex];
+    if (
+      !leg ||
+      !hasArrivedAtLegEnd(leg, position, getArrivalRadiusM(routePlan))
+    ) {
+      return;
     }
 
-    if (newMode !== state.currentMode) {
-      const isSlowingDown =
-        (newMode === 'STATIONARY' && state.currentMode !== 'STATIONARY') ||
-        (newMode === 'WALKING' && state.currentMode === 'CYCLING');
-
-      logger(`🔄 GPS: Mode change detected: ${state.currentMode} → ${newMode} (speed: ${speedKmh.toFixed(1)} km/h, slowing: ${isSlowingDown})`);
-
-      if (isSlowingDown) {
-        // Apply delay when slowing down to prevent flickering
-        if (!state.modeSwitchTimeout) {
-          logger(`⏱️ GPS: Starting ${CONFIG.movement.modeSwitchDelay/1000}s delay for mode change to ${newMode}`);
-          state.modeSwitchTimeout = setTimeout(() => {
-            state.currentMode = newMode;
-            setCurrentMode(newMode); // Update Zustand store
-            state.modeSwitchTimeout = null;
-            logger(`✅ GPS: Mode changed to ${newMode} after delay (speed: ${speedKmh.toFixed(1)} km/h)`);
-          }, CONFIG.movement.modeSwitchDelay);
-        } else {
-          logger(`⏱️ GPS: Mode change delay already active, waiting...`);
-        }
-      } else {
-        // Immediate mode change when speeding up
-        if (state.modeSwitchTimeout) {
-          clearTimeout(state.modeSwitchTimeout);
-          state.modeSwitchTimeout = null;
-          logger(`⚡ GPS: Cancelled delayed mode change, switching immediately`);
-        }
-        state.currentMode = newMode;
-        setCurrentMode(newMode); // Update Zustand store
-        logger(`✅ GPS: Mode changed to ${newMode} immediately (speed: ${speedKmh.toFixed(1)} km/h)`);
-      }
-    } else {
-      // Same mode, clear any pending timeout
-      if (state.modeSwitchTimeout) {
-        clearTimeout(state.modeSwitchTimeout);
-        state.modeSwitchTimeout = null;
-        logger(`🚫 GPS: Cancelled mode change delay (speed settled at ${speedKmh.toFixed(1)} km/h in ${newMode})`);
-      }
+    if (advanceLeg()) {
+      const nextLeg = routePlan.legs[currentLegIndex + 1];
+      logger(
+        `🏁 Route: Arrived at end of "${leg.name}" - starting leg ${currentLegIndex + 2}/${routePlan.legs.length} "${nextLeg.name}"`
+      );
+    }
+  }, []);
+
+  // Project the fix onto the imported route for along-route progress
+  const updateRouteProgress = useCallback((position: Coordinates) => {
+    const {
+      routeTrack,
+      routeSegmentIndex,
+      routeOffRouteM,
+      updateRouteProjection,
+      setRouteOffRoute,
+    } = useTripProgressStore.getState();
+    if (!routeTrack) {
+      return;
     }
-  }, [setCurrentMode]);
-
-  // Process location update - EXACT match to original vanilla JS logic
-  const processLocationUpdate = useCallback(
-    (data: LocationData) => {
-      const now = Date.now();
-      const state = stateRef.current;
-
-      // 1. GPS THROTTLING (CRITICAL - missing from React version)
-      const modeConfig = CONFIG.movement.modes[state.currentMode];
-      if (now - state.lastTimestamp < modeConfig.gpsThrottle) {
-        if (!state.lastThrottleLogTime || now - state.lastThrottleLogTime > 10000) {
-          logger.warn('⏱️ Trip: Updates throttled (GPS throttling active)');
-          state.lastThrottleLogTime = now;
-        }
-        return; // CRITICAL: Exit early if throttled
-      }
 
-      const previousUpdateTime = state.lastTimestamp;
-      state.lastTimestamp = now;
+    const projection = projectOntoRoute(routeTrack, position, {
+      fromSegment: routeSegmentIndex,
+    });
+    if (!projection) {
+      return;
+    }
 
-      if (!data) {
-        return;
+    // Too far from the planned route - keep the last progress instead of
+    // snapping to whatever part of the route happens to be closest
+    if (projection.offRouteM > CONFIG.trip.maxOffRouteM) {
+      if (
+        routeOffRouteM === null ||
+        routeOffRouteM <= CONFIG.trip.maxOffRouteM
+      ) {
+        logger.warn(
+          `🧭 Route: ${(projection.offRouteM / 1000).toFixed(1)}km off route - holding progress`
+        );
       }
+      setRouteOffRoute(projection.offRouteM);
+      return;
+    }
 
-      // 2. Validate coordinates
-      const currentPosition: Coordinates = {
-        lat: data.latitude,
-        lon: data.longitude,
-      };
+    updateRouteProjection(projection);
+  }, []);
+
+  // Smart progress logging - in demo mode only every 15s or per whole percent
+  const logProgress = useCallback((distanceKm: number, mode: string) => {
+    const now = Date.now();
+    const logState = logStateRef.current;
+    const { totalTraveledKm, totalDistanceKm, units } =
+      useTripProgressStore.getState();
+    const progressPercent = Math.min(
+      (totalTraveledKm / totalDistanceKm) * 100,
+      100
+    );
 
-      if (!validateCoordinates(currentPosition)) {
-        logger.warn('⚠️ Trip: Invalid GPS coordinates received:', currentPosition);
-        return;
-      }
+    const isDemoMode =
+      new URLSearchParams(window.location.search).get('demo') === 'true';
+    const shouldLogProgress =
+      !isDemoMode ||
+      !logState.lastProgressLogTime ||
+      now - logState.lastProgressLogTime > 15000 ||
+      Math.floor(progressPercent) !==
+        Math.floor(logState.lastLoggedProgress || 0);
+
+    if (shouldLogProgress) {
+      const unitMultiplier = units === 'miles' ? 0.621371 : 1;
+      const unitSuffix = units === 'miles' ? 'mi' : 'km';
+      logger(
+        `📈 Trip: Progress update - +${(distanceKm * unitMultiplier).toFixed(4)}${unitSuffix} | Total: ${(totalTraveledKm * unitMultiplier).toFixed(4)}${unitSuffix} | ${progressPercent.toFixed(2)}% | Mode: ${mode}`
+      );
+      logState.lastProgressLogTime = now;
+      logState.lastLoggedProgress = progressPercent;
+    }
+  }, []);
 
-      // 3. Handle auto-start location detection (CRITICAL - missing)
-      if (CONFIG.trip.useAutoStart && !state.startLocation) {
-        if (data.latitude === 0 && data.longitude === 0) {
-          logger.warn('⚠️ Trip: Rejecting suspicious 0,0 coordinates for auto-start');
-          return;
+  // Wire engine events into the store
+  useEffect(() => {
+    const engine = new GpsEngine({ smoothing: getSmoothingMode() });
+    engineRef.current = engine;
+
+    engine.on('position', ({ position }) => {
+      setRiderPosition(position);
+      checkLegArrival(position);
+      updateRouteProgress(position);
+    });
+
+    engine.on('mode', ({ mode }) => {
+      setCurrentMode(mode);
+    });
+
+    engine.on(
+      'speed',
+      ({
+        speedKmh,
+        reportedSpeedKmh,
+        calculatedSpeedKmh,
+        mode,
+        confidence,
+        isMoving,
+      }) => {
+        if (speedKmh > 0.1) {
+          logger(
+            `🏃 GPS: Speed=${speedKmh.toFixed(1)}km/h (reported=${reportedSpeedKmh.toFixed(1)}, calculated=${calculatedSpeedKmh.toFixed(1)}) | Current mode: ${mode}`
+          );
         }
-        state.startLocation = currentPosition;
-        state.lastPosition = currentPosition;
-        logger(`✅ Trip: Auto-detected start location - ${state.startLocation.lat.toFixed(4)}, ${state.startLocation.lon.toFixed(4)}`);
-        return; // CRITICAL: Exit after setting start location
-      }
-
-      // 4. CRITICAL CHECK: Need BOTH startLocation AND lastPosition
-      if (!state.startLocation || !state.lastPosition) {
-        state.lastPosition = currentPosition;
-        updateSpeed(0);
-        setMoving(false);
-        logger('📍 GPS: Initial position set');
-        return;
-      }
-
-      // 5. Speed calculation (exact match to original)
-      const newDistance = calculateDistance(state.lastPosition, currentPosition);
-      const timeDiff = Math.max(1, (now - previousUpdateTime) / 1000);
-      
-      const reportedSpeedMs = data.speed || 0; // meters per second from RTIRL
-      const reportedSpeed = reportedSpeedMs * 3.6; // Convert m/s to km/h
-      const calculatedSpeed = (newDistance / timeDiff) * 3600; // km/h
-      const finalSpeed = Math.max(reportedSpeed, calculatedSpeed);
-
-      // 6. Handle speed data and mode detection
-      // Debug logging for movement detection issues
-      if (Math.abs(finalSpeed) > 0.1) {
-        logger(`🏃 GPS: Speed=${finalSpeed.toFixed(1)}km/h (reported=${reportedSpeed.toFixed(1)}, calculated=${calculatedSpeed.toFixed(1)}) | Current mode: ${state.currentMode}`);
-      }
-      handleSpeedData(finalSpeed);
-
-      // 7. Store for dashboard compatibility (CRITICAL - missing)
-      localStorage.setItem('tripOverlaySpeed', finalSpeed.toFixed(1));
-      localStorage.setItem('tripOverlayMode', state.currentMode);
-      speedUpdateService.updateSpeed(finalSpeed, state.currentMode);
-
-      // 8. Distance validation using current mode
-      const usedModeConfig = CONFIG.movement.modes[state.currentMode];
-      const minMovementKm = usedModeConfig.minMovementM / 1000;
-
-      if (newDistance < minMovementKm) {
-        state.lastPosition = currentPosition;
-        return; // Ignore noise
+        // Stored for dashboard compatibility
+        localStorage.setItem('tripOverlaySpeed', speedKmh.toFixed(1));
+        localStorage.setItem('tripOverlayMode', mode);
+        speedUpdateService.updateSpeed(speedKmh, mode);
+        updateSpeed(speedKmh);
+        setMoving(isMoving);
+        setModeConfidence(confidence);
       }
+    );
 
-      // 9. GPS jump detection
-      const maxSpeedMs = usedModeConfig.maxSpeed / 3.6;
-      const maxReasonableDistance = (timeDiff * maxSpeedMs) / 1000;
-
-      if (newDistance > maxReasonableDistance * 1.5) {
-        logger.warn(
-          `⚠️ Trip: GPS jump detected in ${state.currentMode} mode: ${newDistance.toFixed(2)}km vs max ${maxReasonableDistance.toFixed(2)}km - ignoring`
+    engine.on('distance', event => {
+      addDistance(event.distanceKm);
+      markActive(event.timestamp);
+
+      // Moving-time-only averages: stationary fixes never add time, and long
+      // gaps (tunnels, signal loss) are capped so they don't count as riding
+      const isMovingSample = event.speedKmh > getStoppedMode().maxSpeed;
+      const movingTimeMs = isMovingSample
+        ? Math.min(event.durationMs, MAX_MOVING_SAMPLE_MS)
+        : 0;
+      if (isMovingSample) {
+        averageEngineRef.current.addSample(event.distanceKm, movingTimeMs);
+        addMovingTime(
+          event.distanceKm,
+          movingTimeMs,
+          averageEngineRef.current.getAverageKmh()
         );
-        state.lastPosition = currentPosition;
+      }
+      journalService.recordFix({
+        timestamp: event.timestamp,
+        position: event.position,
+        distanceKm: event.distanceKm,
+        movingTimeMs,
+        speedKmh: event.speedKmh,
+      });
+      trackRecorder.record({
+        timestamp: event.timestamp,
+        lat: event.position.lat,
+        lon: event.position.lon,
+        speedKmh: event.speedKmh,
+        accuracy: event.accuracy,
+        mode: event.mode,
+      });
+
+      logProgress(event.distanceKm, event.mode);
+    });
+
+    // Throttling skips fixes on purpose - only count real rejections
+    engine.on('rejected', ({ reason, detail }) => {
+      if (reason === 'throttled') {
         return;
       }
-
-      // 10. Add distance and smart progress logging (CRITICAL - missing smart logging)
-      addDistance(newDistance);
-      
-      // Get current progress for smart logging
-      const { totalTraveledKm, totalDistanceKm, units } = useTripProgressStore.getState();
-      const progressPercent = Math.min((totalTraveledKm / totalDistanceKm) * 100, 100);
-      
-      // Smart logging like original (not every update!)
-      const isDemoMode = new URLSearchParams(window.location.search).get('demo') === 'true';
-      const shouldLogProgress = !isDemoMode || 
-        !state.lastProgressLogTime || 
-        now - state.lastProgressLogTime > 15000 ||
-        Math.floor(progressPercent) !== Math.floor(state.lastLoggedProgress || 0);
-
-      if (shouldLogProgress) {
-        const kmToMiles = 0.621371;
-        const unitMultiplier = units === 'miles' ? kmToMiles : 1;
-        const unitSuffix = units === 'miles' ? 'mi' : 'km';
-        logger(
-          `📈 Trip: Progress update - +${(newDistance * unitMultiplier).toFixed(4)}${unitSuffix} | Total: ${(totalTraveledKm * unitMultiplier).toFixed(4)}${unitSuffix} | ${progressPercent.toFixed(2)}% | Mode: ${state.currentMode}`
-        );
-        state.lastProgressLogTime = now;
-        state.lastLoggedProgress = progressPercent;
+      if (reason === 'stale' || reason === 'duplicate') {
+        logger(`🕒 GPS: Dropping ${reason} fix - ${detail}`);
       }
+      useTripProgressStore.getState().recordRejectedFix(reason);
+    });
 
-      // 11. Update store with processed values
-      updateSpeed(finalSpeed);
-      setMoving(finalSpeed > CONFIG.movement.modes.STATIONARY.maxSpeed);
-
-      // 12. Update state for next calculation
-      state.lastPosition = currentPosition;
-    },
-    [
-      handleSpeedData,
-      updateSpeed,
-      setMoving,
-      addDistance,
-      setCurrentMode,
-    ]
-  );
-
-  // Set up location update listener
-  useEffect(() => {
     const handleLocationUpdate = (event: CustomEvent<LocationData>) => {
-      processLocationUpdate(event.detail);
+      engine.process(event.detail);
     };
+    // Replay fixes start over at an earlier clock (see gpsReplay)
+    const handleReplayStart = () => engine.restart();
 
     window.addEventListener(
       'locationUpdate',
       handleLocationUpdate as EventListener
     );
+    window.addEventListener('gpsReplayStart', handleReplayStart);
 
     return () => {
       window.removeEventListener(
         'locationUpdate',
         handleLocationUpdate as EventListener
       );
-      // Clean up timeout on unmount
-      const timeout = stateRef.current.modeSwitchTimeout;
-      if (timeout) {
-        clearTimeout(timeout);
-      }
+      window.removeEventListener('gpsReplayStart', handleReplayStart);
+      engine.dispose();
+      engineRef.current = null;
     };
-  }, [processLocationUpdate]);
+  }, [
+    checkLegArrival,
+    updateRouteProgress,
+    logProgress,
+    updateSpeed,
+    setMoving,
+    addDistance,
+    addMovingTime,
+    markActive,
+    setCurrentMode,
+    setModeConfidence,
+  ]);
 
   return {
-    getCurrentMode: () => stateRef.current.currentMode,
-    getLastPosition: () => stateRef.current.lastPosition,
+    getCurrentMode: () => engineRef.current?.getMode() ?? 'STATIONARY',
+    getModeConfidence: () => engineRef.current?.getConfidence() ?? 0,
+    getLastPosition: (): Coordinates | null =>
+      engineRef.current?.getLastPosition() ?? null,
   };
 }
@@ -0,0 +1,227 @@
+import { useEffect, useRef } from 'react';
+import { useConnectionStore } from '../store/connectionStore';
+import { useTripProgressStore } from '../store/tripStore';
+import { CONFIG } from '../utils/config';
+import { logger } from '../utils/logger';
+import { gpsReplay } from '../utils/gpsReplay';
+import {
+  createLocationSource,
+  formatStaleDuration,
+  getLocationSourceType,
+  getStaleAfterMs,
+  isReconnectableSource,
+} from '../utils/locationSource';
+import type { Coordinates } from '../types/config';
+import type {
+  LocationData,
+  LocationSource,
+  LocationSourceHandlers,
+  SensorReadings,
+} from '../types/rtirl';
+
+// Chosen once per page via ?source= (see utils/locationSource)
+const sourceType = getLocationSourceType();
+const isDemo = sourceType === 'demo';
+const WATCHDOG_INTERVAL_MS = 1000;
+
+const SOURCE_LABELS: Record<LocationData['source'], string> = {
+  rtirl: 'RTIRL',
+  geolocation: 'Geolocation',
+  websocket: 'WebSocket',
+  demo: 'Demo',
+  replay: 'Replay',
+};
+
+/**
+ * Location Source Hook
+ * Runs the selected location source and feeds its fixes into
+ * useConnectionStore and the 'locationUpdate' event (speed in km/h).
+ * Heading, altitude and heart rate land in the store's sensor readings.
+ * A watchdog marks the feed stale after getStaleAfterMs() without a fix and
+ * re-attaches live sources with exponential backoff until fixes return.
+ */
+export function useLocationSource() {
+  const {
+    setConnected,
+    setPosition,
+    setConnectionStatus,
+    incrementReconnectAttempts,
+    resetReconnectAttempts,
+    isConnected,
+    lastPosition,
+    connectionStatus,
+    reconnectAttempts,
+    staleSince,
+  } = useConnectionStore();
+
+  const sourceRef = useRef<LocationSource | null>(null);
+  const lastFixRef = useRef(Date.now());
+  const backoffRef = useRef({ attempt: 0, nextAt: 0 });
+
+  const handleLocation = (locationData: LocationData | null) => {
+    if (!locationData) {
+      logger.warn('📍 Trip: Location is hidden or streamer is offline');
+      setConnected(false);
+      setConnectionStatus('disconnected');
+      return;
+    }
+
+    // Live fixes are ignored while a console replay is running
+    if (gpsReplay.isActive() && locationData.source !== 'replay') {
+      return;
+    }
+    // The dashboard runs its own demo simulation
+    if (
+      locationData.source === 'demo' &&
+      useConnectionStore.getState().isDashboardDemoActive
+    ) {
+      return;
+    }
+
+    const { latitude, longitude, speed: speedKmh } = locationData;
+    const coordinates: Coordinates = { lat: latitude, lon: longitude };
+
+    lastFixRef.current = Date.now();
+    backoffRef.current = { attempt: 0, nextAt: 0 };
+    const connection = useConnectionStore.getState();
+    if (connection.staleSince !== null) {
+      logger(
+        `✅ GPS feed recovered after ${formatStaleDuration(lastFixRef.current - connection.staleSince)}`
+      );
+      connection.setStaleSince(null);
+    }
+
+    if (!isConnected) {
+      logger('✅ Trip: Streamer location is now live!');
+    }
+    if (!isDemo) {
+      logger(
+        `📡 ${SOURCE_LABELS[locationData.source]}: Location update - ${latitude.toFixed(6)}, ${longitude.toFixed(6)} | Speed: ${speedKmh.toFixed(1)} km/h | Accuracy: ${locationData.accuracy.toFixed(1)}m | Time: ${new Date().toLocaleTimeString()}`
+      );
+    }
+
+    setPosition(coordinates);
+    const readings: Partial<SensorReadings> = {};
+    if (locationData.heading !== undefined) {
+      readings.heading = locationData.heading;
+    }
+    if (locationData.altitude !== undefined) {
+      readings.altitude = locationData.altitude;
+    }
+    if (Object.keys(readings).length > 0) {
+      connection.setSensors(readings);
+    }
+    setConnected(true);
+    setConnectionStatus('connected');
+    resetReconnectAttempts();
+
+    // Dispatch custom event for location update with full data (speed in km/h)
+    window.dispatchEvent(
+      new CustomEvent('locationUpdate', { detail: locationData })
+    );
+  };
+
+  // Sources outlive renders - always call the latest handler
+  const handleLocationRef = useRef(handleLocation);
+  handleLocationRef.current = handleLocation;
+
+  const handlersRef = useRef<LocationSourceHandlers>({
+    onLocation: data => handleLocationRef.current(data),
+    onStatus: status =>
+      useConnectionStore.getState().setConnectionStatus(status),
+    onReconnect: () =>
+      useConnectionStore.getState().incrementReconnectAttempts(),
+    onSensor: readings => useConnectionStore.getState().setSensors(readings),
+  });
+
+  useEffect(() => {
+    // The demo rides the imported route if there is one
+    const source = createLocationSource(
+      sourceType,
+      () => useTripProgressStore.getState().routeTrack?.points ?? null
+    );
+    sourceRef.current = source;
+    source.start(handlersRef.current);
+
+    return () => {
+      source.stop();
+      sourceRef.current = null;
+    };
+  }, []);
+
+  const restartSource = () => {
+    const source = sourceRef.current;
+    if (source) {
+      incrementReconnectAttempts();
+      source.stop();
+      source.start(handlersRef.current);
+    }
+  };
+  const restartSourceRef = useRef(restartSource);
+  restartSourceRef.current = restartSource;
+
+  // Stale-feed watchdog
+  useEffect(() => {
+    const staleAfterMs = getStaleAfterMs();
+    const { reconnectBaseMs, reconnectMaxMs } = CONFIG.rtirl;
+    lastFixRef.current = Date.now();
+
+    const timer = setInterval(() => {
+      const now = Date.now();
+      // A console replay takes over - the quiet live feed isn't stale
+      if (gpsReplay.isActive() && sourceType !== 'replay') {
+        lastFixRef.current = now;
+        return;
+      }
+      const silentMs = now - lastFixRef.current;
+      if (silentMs < staleAfterMs) {
+        return;
+      }
+
+      const connection = useConnectionStore.getState();
+      if (connection.staleSince === null) {
+        logger.warn(
+          `⚠️ GPS stale - no fix for ${formatStaleDuration(silentMs)}`
+        );
+        connection.setStaleSince(lastFixRef.current);
+      }
+
+      const backoff = backoffRef.current;
+      if (isReconnectableSource(sourceType) && now >= backoff.nextAt) {
+        const delayMs = Math.min(
+          reconnectMaxMs,
+          reconnectBaseMs * 2 ** backoff.attempt
+        );
+        backoffRef.current = {
+          attempt: backoff.attempt + 1,
+          nextAt: now + delayMs,
+        };
+        logger(
+          `🔌 Re-attaching ${SOURCE_LABELS[sourceType]} (attempt ${backoff.attempt + 1}, next in ${formatStaleDuration(delayMs)})`
+        );
+        restartSourceRef.current();
+      }
+    }, WATCHDOG_INTERVAL_MS);
+
+    return () => {
+      clearInterval(timer);
+      useConnectionStore.getState().setStaleSince(null);
+    };
+  }, []);
+
+  return {
+    isConnected,
+    lastPosition,
+    connectionStatus,
+    reconnectAttempts,
+    staleSince,
+    isDemo,
+    sourceType,
+    reconnect: () => {
+      if (isReconnectableSource(sourceType)) {
+        logger(`🔌 Attempting to reconnect ${SOURCE_LABELS[sourceType]}...`);
+        restartSource();
+      }
+    },
+  };
+}
@@ -0,0 +1,173 @@
+import { useEffect, useRef, useState } from 'react';
+import { useConnectionStore } from '../store/connectionStore';
+import { useTripProgressStore } from '../store/tripStore';
+import { usePersistedStoreSync } from './usePersistedStoreSync';
+import { calculateBearing, calculateDistance } from '../utils/gps';
+import { CONFIG } from '../utils/config';
+import { logger } from '../utils/logger';
+import { getTrackDay, trackRecorder } from '../utils/trackRecorder';
+import type { Coordinates } from '../types/config';
+import type { LocationData } from '../types/rtirl';
+
+export interface MiniMapSettings {
+  tileUrl: string;
+  zoom: number;
+  sizePx: number;
+  showBreadcrumb: boolean;
+  showRoute: boolean;
+}
+
+// Minimum movement before the heading is recalculated (avoids GPS jitter spin)
+const HEADING_MIN_MOVEMENT_M = 5;
+
+/**
+ * Read mini-map settings from URL parameters
+ * ?tiles=<template>&zoom=<1-19>&size=<px>&breadcrumb=false&route=false
+ */
+export function getMiniMapSettings(): MiniMapSettings {
+  const urlParams = new URLSearchParams(window.location.search);
+  const settings: MiniMapSettings = {
+    tileUrl: CONFIG.map.tileUrl,
+    zoom: CONFIG.map.zoom,
+    sizePx: CONFIG.map.sizePx,
+    showBreadcrumb: urlParams.get('breadcrumb') !== 'false',
+    showRoute: urlParams.get('route') !== 'false',
+  };
+
+  const tiles = urlParams.get('tiles');
+  if (tiles) {
+    if (/^(https?:\/\/|\/)/i.test(tiles) && tiles.includes('{z}')) {
+      settings.tileUrl = tiles;
+    } else {
+      logger.warn(
+        'Invalid tiles parameter:',
+        tiles,
+        '(must be an http(s) or relative URL with {z}/{x}/{y})'
+      );
+    }
+  }
+
+  const zoom = parseInt(urlParams.get('zoom') || '', 10);
+  if (!isNaN(zoom)) {
+    settings.zoom = Math.min(19, Math.max(1, zoom));
+  }
+
+  const size = parseInt(urlParams.get('size') || '', 10);
+  if (!isNaN(size)) {
+    settings.sizePx = Math.min(1000, Math.max(100, size));
+  }
+
+  return settings;
+}
+
+/**
+ * Mini-map data hook - current position, heading, breadcrumb and planned route
+ * Breadcrumb starts from today's recorded track and grows with live updates
+ */
+export function useMiniMap(settings: MiniMapSettings) {
+  const lastPosition = useConnectionStore(state => state.lastPosition);
+  const routeTrack = useTripProgressStore(state => state.routeTrack);
+  const routePlan = useTripProgressStore(state => state.routePlan);
+
+  const [breadcrumb, setBreadcrumb] = useState<Coordinates[]>([]);
+  const [heading, setHeading] = useState<number | null>(null);
+  const headingAnchorRef = useRef<Coordinates | null>(null);
+
+  // Load today's recorded track once
+  useEffect(() => {
+    if (!settings.showBreadcrumb) {
+      return;
+    }
+
+    let cancelled = false;
+    trackRecorder
+      .getPoints(getTrackDay(Date.now()))
+      .then(points => {
+        if (cancelled || points.length === 0) {
+          return;
+        }
+        logger(`🗺️ Map: Loaded ${points.length} recorded breadcrumb points`);
+        setBreadcrumb(prev => [
+          ...points.map(point => ({ lat: point.lat, lon: point.lon })),
+          ...prev,
+        ]);
+      })
+      .catch(error => {
+        logger.warn('⚠️ Map: Recorded track unavailable -', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [settings.showBreadcrumb]);
+
+  // Append live fixes to the breadcrumb
+  useEffect(() => {
+    if (!settings.showBreadcrumb) {
+      return;
+    }
+
+    const handleLocationUpdate = (event: CustomEvent<LocationData>) => {
+      const point = { lat: event.detail.latitude, lon: event.detail.longitude };
+      setBreadcrumb(prev => {
+        const next = [...prev, point];
+        // Keep every other point once the limit is reached
+        return next.length > CONFIG.map.maxBreadcrumbPoints
+          ? next.filter(
+              (_, index) => index % 2 === 0 || index === next.length - 1
+            )
+          : next;
+      });
+    };
+
+    window.addEventListener(
+      'locationUpdate',
+      handleLocationUpdate as EventListener
+    );
+    return () => {
+      window.removeEventListener(
+        'locationUpdate',
+        handleLocationUpdate as EventListener
+      );
+    };
+  }, [settings.showBreadcrumb]);
+
+  // Heading from movement between fixes
+  useEffect(() => {
+    if (!lastPosition) {
+      return;
+    }
+    const anchor = headingAnchorRef.current;
+    if (!anchor) {
+      headingAnchorRef.current = lastPosition;
+      return;
+    }
+    if (
+      calculateDistance(anchor, lastPosition) * 1000 >=
+      HEADING_MIN_MOVEMENT_M
+    ) {
+      setHeading(calculateBearing(anchor, lastPosition));
+      headingAnchorRef.current = lastPosition;
+    }
+  }, [lastPosition]);
+
+  // Pick up route changes made in the trip overlay (other OBS browser source)
+  usePersistedStoreSync(useTripProgressStore);
+
+  // Planned route - imported track, else straight route plan legs
+  let route: Coordinates[] = [];
+  if (settings.showRoute) {
+    if (routeTrack) {
+      route = routeTrack.points;
+    } else if (routePlan) {
+      route = [routePlan.legs[0].start, ...routePlan.legs.map(leg => leg.end)];
+    }
+  }
+
+  return {
+    position: lastPosition,
+    heading,
+    breadcrumb,
+    route,
+  };
+}
@@ -0,0 +1,31 @@
+import { useEffect } from 'react';
+
+// The part of a zustand persist store the sync needs
+interface PersistedStore {
+  persist: {
+    getOptions: () => { name?: string };
+    rehydrate: () => Promise<void> | void;
+  };
+}
+
+const syncedStores = new Set<PersistedStore>();
+
+/**
+ * Persisted Store Sync Hook
+ * The trip overlay, dashboard and mini-map are separate OBS browser sources
+ * sharing localStorage - rehydrate `store` when another one writes it.
+ * A single listener per store, however many hooks on the page ask for it.
+ */
+export function usePersistedStoreSync(store: PersistedStore) {
+  useEffect(() => {
+    if (syncedStores.has(store)) {
+      return;
+    }
+    syncedStores.add(store);
+    window.addEventListener('storage', event => {
+      if (event.key === store.persist.getOptions().name) {
+        void store.persist.rehydrate();
+      }
+    });
+  }, [store]);
+}
@@ -1,9 +1,17 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { calculateDistance } from '../utils/gps';
-import { CONFIG, validateCoordinates } from '../utils/config';
+import { CONFIG } from '../utils/config';
 import { logger } from '../utils/logger';
 import { speedUpdateService } from '../utils/speedUpdateService';
+import { getTrackDay } from '../utils/trackRecorder';
+import { evaluateDailyReset } from '../utils/dailyReset';
+import { GpsEngine, type GpsDistanceEvent } from '../utils/gpsEngine';
+import { getSmoothingMode } from '../utils/kalmanFilter';
+import {
+  getMovementProfile,
+  getStoppedMode,
+} from '../utils/movementProfile';
 import { useConnectionStore } from '../store/connectionStore';
+import { useJournalStore } from '../store/journalStore';
 import type { Coordinates } from '../types/config';
 import type { LocationData } from '../types/rtirl';
 import type { MovementMode } from '../types/trip';
@@ -30,9 +38,8 @@ interface TripOverlayState {
   speedHistory: number[];
   positionHistory: Array<{ position: Coordinates; timestamp: number }>;
   lastModeChange: number;
-  consistentModeReadings: number;
   lastProposedMode: MovementMode;
-  stationaryCenter: Coordinates | null;
+  modeConfidence: number;
   modeChangeCounter: number;
   isInitialized: boolean;
 }
@@ -61,9 +68,8 @@ const createInitialState = (): TripOverlayState => ({
   speedHistory: [],
   positionHistory: [],
   lastModeChange: 0,
-  consistentModeReadings: 0,
   lastProposedMode: 'STATIONARY',
-  stationaryCenter: null,
+  modeConfidence: 0,
   modeChangeCounter: 0,
   isInitialized: false,
 });
@@ -113,301 +119,65 @@ export function useTripOverlay() {
     setState(prev => ({ ...prev, lastSaveTime: now }));
   }, []);
 
-  // Movement detection using original responsive logic for live streaming
-  const determineMovementMode = useCallback(
-    (speed: number, _currentMode: MovementMode): MovementMode => {
-      // Use original config thresholds
-      const STATIONARY_THRESHOLD = CONFIG.movement.modes.STATIONARY.maxSpeed;
-      const WALKING_THRESHOLD = CONFIG.movement.modes.WALKING.maxSpeed;
-
-      // Immediate switching like original for responsiveness
-      if (speed > WALKING_THRESHOLD) {
-        return 'CYCLING';
-      } else if (speed > STATIONARY_THRESHOLD) {
-        return 'WALKING';
-      } else {
-        return 'STATIONARY';
-      }
-    },
-    []
-  );
-
-  // Speed calculation - exact port from original
-  const calculateSpeedFromGPS = useCallback(
-    (pos1: Coordinates, pos2: Coordinates, timeDeltaMs: number): number => {
-      if (timeDeltaMs <= 0) return 0;
-      const distanceKm = calculateDistance(pos1, pos2);
-      const timeHours = timeDeltaMs / (1000 * 60 * 60);
-      return distanceKm / timeHours;
-    },
-    []
-  );
+  // Persist progress immediately so distance isn't lost on reload
+  const saveImmediately = useCallback((current: TripOverlayState) => {
+    const immediateData = {
+      totalDistanceTraveled: current.totalDistanceTraveled,
+      todayDistanceTraveled: current.todayDistanceTraveled,
+      date: new Date().toDateString(),
+      lastActiveTime: new Date().toISOString(),
+      useImperialUnits: current.useImperialUnits,
+      totalDistance: current.originalTotalDistance,
+      currentMode: current.currentMode,
+      autoStartLocation:
+        CONFIG.trip.useAutoStart && current.startLocation
+          ? current.startLocation
+          : null,
+    };
+    localStorage.setItem('trip-overlay-data', JSON.stringify(immediateData));
+  }, []);
 
-  // Enhanced GPS processing with comprehensive bug fixes
-  const processLocationUpdate = useCallback(
-    (data: LocationData) => {
-      const now = Date.now();
+  // Accepted movement from the shared GPS engine
+  const handleDistance = useCallback(
+    (event: GpsDistanceEvent) => {
       const currentState = stateRef.current;
-
-      // Log ALL RTIRL updates for stream debugging
+      const newTotalTraveled =
+        currentState.totalDistanceTraveled + event.distanceKm;
+      const newTodayTraveled =
+        currentState.todayDistanceTraveled + event.distanceKm;
+
+      const progressPercent =
+        currentState.originalTotalDistance > 0
+          ? (newTotalTraveled / currentState.originalTotalDistance) * 100
+          : 0;
+      const unitMultiplier = currentState.useImperialUnits ? 0.621371 : 1;
+      const units = currentState.useImperialUnits ? 'mi' : 'km';
       logger(
-        `📡 RTIRL: Location update - ${data.latitude?.toFixed(6)}, ${data.longitude?.toFixed(6)} | Speed: ${data.speed?.toFixed(1) || 'N/A'} km/h | Accuracy: ${data.accuracy?.toFixed(1) || 'N/A'}m | Time: ${new Date(now).toLocaleTimeString()}`
+        `✅ GPS: Added ${event.distanceKm.toFixed(4)} km to trip (speed: ${event.speedKmh.toFixed(1)} km/h, mode: ${event.mode})`
       );
-
-      // Validate coordinates
-      const newPosition: Coordinates = {
-        lat: data.latitude,
-        lon: data.longitude,
-      };
-
-      if (!validateCoordinates(newPosition)) {
-        logger.warn('⚠️ GPS: Invalid coordinates, ignoring update:', data);
-        return;
-      }
-
-      // Stricter accuracy validation
-      if (data.accuracy && data.accuracy > 15) {
-        logger.warn(
-          `⚠️ GPS: Poor accuracy (${data.accuracy}m), ignoring update`
-        );
-        return;
-      }
-
-      // Handle initial position
-      if (
-        !currentState.lastPosition ||
-        now - currentState.lastUpdateTime > 30000
-      ) {
-        setState(prev => ({
-          ...prev,
-          lastPosition: newPosition,
-          lastUpdateTime: now,
-          positionHistory: [{ position: newPosition, timestamp: now }],
-          stationaryCenter: newPosition, // Set initial stationary center
-          consistentModeReadings: 0,
-          lastProposedMode: 'STATIONARY',
-        }));
-
-        // Update the ref immediately to prevent subsequent updates from being treated as initial
-        stateRef.current = {
-          ...stateRef.current,
-          lastPosition: newPosition,
-          lastUpdateTime: now,
-        };
-
-        logger('📍 GPS: Initial position set');
-        logger(
-          `✅ RTIRL: Streamer location is now live! - ${newPosition.lat.toFixed(4)}, ${newPosition.lon.toFixed(4)}`
-        );
-        return;
-      }
-
-      const timeDelta = now - currentState.lastUpdateTime;
-      if (timeDelta < 1000) return; // Skip too frequent updates
-
-      // Calculate distance and speed
-      const distanceKm = calculateDistance(
-        currentState.lastPosition,
-        newPosition
-      );
-      const distanceM = distanceKm * 1000;
-      const reportedSpeed = data.speed || 0;
-      const calculatedSpeed = calculateSpeedFromGPS(
-        currentState.lastPosition,
-        newPosition,
-        timeDelta
+      logger(
+        `📈 Trip: Progress update - +${(event.distanceKm * unitMultiplier).toFixed(4)}${units} | Total: ${(newTotalTraveled * unitMultiplier).toFixed(4)}${units} | ${progressPercent.toFixed(2)}% | Mode: ${event.mode}`
       );
-      // Original speed calculation logic - simple and reliable
-      const finalSpeed = Math.max(reportedSpeed, calculatedSpeed);
-
-      // Add detailed speed calculation logging like original
-      if (currentState.speedHistory.length === 0) {
-        logger(
-          `🧮 Trip: Initial speed check - Reported: ${reportedSpeed.toFixed(1)} km/h, Calculated: ${calculatedSpeed.toFixed(1)} km/h -> Using: ${finalSpeed.toFixed(1)} km/h`
-        );
-      }
-
-      // GPS drift detection for stationary mode
-      const STATIONARY_DRIFT_THRESHOLD = 8; // meters
-      let isGPSDrift = false;
-
-      if (currentState.stationaryCenter) {
-        const driftDistance =
-          calculateDistance(currentState.stationaryCenter, newPosition) * 1000;
-        // Only consider drift if BOTH distance is small AND speed is low
-        if (driftDistance < STATIONARY_DRIFT_THRESHOLD && finalSpeed < 2.0) {
-          isGPSDrift = true;
-          logger(
-            `🎯 GPS: Drift detected - ${driftDistance.toFixed(1)}m from stationary center`
-          );
-        } else if (finalSpeed >= 2.0) {
-          // Clear stationary center if speed indicates real movement
-          logger(
-            '🏃 GPS: Clearing stationary center - significant speed detected'
-          );
-        }
-      }
-
-      // Update speed history
-      const newSpeedHistory = [...currentState.speedHistory, finalSpeed];
-      if (newSpeedHistory.length > 10) {
-        newSpeedHistory.shift();
-      }
-
-      // Use original vanilla JS logic - no smoothing, just use the calculated speed
-      const smoothedSpeed = finalSpeed;
-
-      // Movement mode detection - calculate what mode the speed suggests
-      const speedBasedMode: MovementMode = (() => {
-        const STATIONARY_THRESHOLD = CONFIG.movement.modes.STATIONARY.maxSpeed;
-        const WALKING_THRESHOLD = CONFIG.movement.modes.WALKING.maxSpeed;
-
-        if (smoothedSpeed > WALKING_THRESHOLD) {
-          return 'CYCLING';
-        } else if (smoothedSpeed > STATIONARY_THRESHOLD) {
-          return 'WALKING';
-        } else {
-          return 'STATIONARY';
-        }
-      })();
-
-      // Immediate mode switching like original for responsiveness
-      let actualMode: MovementMode = speedBasedMode;
-      if (speedBasedMode !== currentState.currentMode) {
-        const previousMode = currentState.currentMode;
-        // Match original logging format
-        logger(`MODE CHANGE: ${previousMode} → ${actualMode}`);
-        logger(`🏃‍♂️ Movement mode changed to: ${actualMode}`);
-        logger(
-          `🔄 GPS: Mode changed to ${actualMode} (speed: ${smoothedSpeed.toFixed(1)} km/h)`
-        );
-      }
-
-      // Update or reset stationary center
-      let newStationaryCenter = currentState.stationaryCenter;
-      if (actualMode === 'STATIONARY') {
-        if (!newStationaryCenter || smoothedSpeed < 1.0) {
-          newStationaryCenter = newPosition;
-          logger('📌 GPS: Updated stationary center');
-        }
-      } else if (
-        actualMode === 'WALKING' ||
-        actualMode === 'CYCLING' ||
-        smoothedSpeed > 3.0
-      ) {
-        // Clear stationary center when moving or significant speed detected
-        newStationaryCenter = null;
-        logger('🏃 GPS: Cleared stationary center - moving');
-      }
 
-      // Enhanced distance validation and accumulation
-      let newTotalTraveled = currentState.totalDistanceTraveled;
-      let newTodayTraveled = currentState.todayDistanceTraveled;
-
-      // Only accumulate distance if:
-      // 1. Not GPS drift
-      // 2. Not in stationary mode
-      // 3. Speed is above meaningful threshold
-      // 4. Distance is reasonable
-      if (!isGPSDrift && actualMode !== 'STATIONARY' && smoothedSpeed > 1.0) {
-        const usedModeConfig = CONFIG.movement.modes[actualMode];
-        const minMovementKm = usedModeConfig.minMovementM / 1000;
-
-        if (distanceKm >= minMovementKm) {
-          // Calculate maximum reasonable distance for time period and mode
-          const maxSpeedMs = usedModeConfig.maxSpeed / 3.6;
-          const maxReasonableDistance =
-            ((timeDelta / 1000) * maxSpeedMs) / 1000;
-
-          if (distanceKm <= maxReasonableDistance * 1.5) {
-            newTotalTraveled += distanceKm;
-            newTodayTraveled += distanceKm;
-
-            // Match original comprehensive logging format
-            const progressPercent =
-              state.originalTotalDistance > 0
-                ? (newTotalTraveled / state.originalTotalDistance) * 100
-                : 0;
-            const unitMultiplier = state.useImperialUnits ? 0.621371 : 1;
-            const units = state.useImperialUnits ? 'mi' : 'km';
-
-            logger(
-              `✅ GPS: Added ${distanceKm.toFixed(4)} km to trip (speed: ${smoothedSpeed.toFixed(1)} km/h, mode: ${actualMode})`
-            );
-            logger(
-              `📈 Trip: Progress update - +${(distanceKm * unitMultiplier).toFixed(4)}${units} | Total: ${(newTotalTraveled * unitMultiplier).toFixed(4)}${units} | ${progressPercent.toFixed(2)}% | Mode: ${actualMode}`
-            );
-          } else {
-            logger.warn(
-              `⚠️ GPS: Jump detected - ignoring ${distanceKm.toFixed(4)}km (max: ${maxReasonableDistance.toFixed(4)}km)`
-            );
-            logger.warn(
-              `⚠️ Trip: GPS jump detected in ${actualMode} mode: ${distanceKm.toFixed(2)}km vs max ${maxReasonableDistance.toFixed(2)}km - ignoring`
-            );
-          }
-        } else {
-          logger(
-            `📏 GPS: Movement too small - ${distanceKm.toFixed(4)}km (min: ${minMovementKm.toFixed(4)}km)`
-          );
-        }
-      } else if (isGPSDrift) {
-        logger(`🎯 GPS: Ignoring drift movement - ${distanceM.toFixed(1)}m`);
-      }
-
-      // Update state with all the fixes
-      setState(prev => ({
-        ...prev,
-        lastPosition: newPosition,
-        lastUpdateTime: now,
-        currentMode: actualMode,
-        lastModeChange:
-          actualMode !== prev.currentMode ? now : prev.lastModeChange,
+      const nextState: TripOverlayState = {
+        ...currentState,
         totalDistanceTraveled: newTotalTraveled,
         todayDistanceTraveled: newTodayTraveled,
-        speedHistory: newSpeedHistory,
         positionHistory: [
-          ...prev.positionHistory,
-          { position: newPosition, timestamp: now },
+          ...currentState.positionHistory,
+          { position: event.position, timestamp: event.timestamp },
         ].slice(-10),
-        consistentModeReadings: 0,
-        lastProposedMode: actualMode,
-        stationaryCenter: newStationaryCenter,
-        // Force re-render by updating a counter when mode changes
-        modeChangeCounter:
-          actualMode !== prev.currentMode
-            ? (prev.modeChangeCounter || 0) + 1
-            : prev.modeChangeCounter || 0,
-      }));
-
-      // Update localStorage for dashboard compatibility
-      speedUpdateService.updateSpeed(smoothedSpeed, actualMode);
-
-      // Save progress immediately for distance updates to prevent data loss
-      const immediateData = {
+      };
+      stateRef.current = nextState;
+      setState(prev => ({
+        ...prev,
         totalDistanceTraveled: newTotalTraveled,
         todayDistanceTraveled: newTodayTraveled,
-        date: new Date().toDateString(),
-        lastActiveTime: new Date().toISOString(),
-        useImperialUnits: currentState.useImperialUnits,
-        totalDistance: currentState.originalTotalDistance,
-        currentMode: actualMode,
-        autoStartLocation:
-          CONFIG.trip.useAutoStart && currentState.startLocation
-            ? currentState.startLocation
-            : null,
-      };
-      localStorage.setItem('trip-overlay-data', JSON.stringify(immediateData));
-
-      // Comprehensive logging
-      logger(
-        `🧮 GPS: ${distanceM.toFixed(1)}m in ${(timeDelta / 1000).toFixed(1)}s -> Speed: ${smoothedSpeed.toFixed(1)} km/h, Mode: ${actualMode} ${isGPSDrift ? '[DRIFT]' : ''}`
-      );
+        positionHistory: nextState.positionHistory,
+      }));
+      saveImmediately(nextState);
     },
-    [
-      calculateSpeedFromGPS,
-      state.originalTotalDistance,
-      state.useImperialUnits,
-    ]
+    [saveImmediately]
   );
 
   // Console commands - exact port from original
@@ -595,26 +365,25 @@ export function useTripOverlay() {
       if (saved) {
         const data = JSON.parse(saved);
 
-        // Check if we should reset today's distance (original logic)
+        // Check if we should reset today's distance (configurable policy)
         const shouldResetToday = (() => {
-          const now = new Date();
           const savedDate = data.date;
-          const lastActiveTime = data.lastActiveTime;
-
-          if (!savedDate || savedDate === now.toDateString()) {
+          if (!savedDate) {
             return false;
           }
 
-          if (lastActiveTime) {
-            const hoursSinceLastActive =
-              (now.getTime() - new Date(lastActiveTime).getTime()) /
-              (1000 * 60 * 60);
-            if (hoursSinceLastActive < 6) {
-              return false;
-            }
+          // Legacy saves only know the last active time, so treat the day as
+          // having started just before it
+          const lastActiveMs = data.lastActiveTime
+            ? new Date(data.lastActiveTime).getTime()
+            : new Date(savedDate).getTime();
+          const decision = evaluateDailyReset(lastActiveMs - 1, lastActiveMs);
+          if (decision.shouldReset) {
+            logger(
+              `🌅 Daily reset: "${decision.rule}" rule fired - ${decision.reason}`
+            );
           }
-
-          return true;
+          return decision.shouldReset;
         })();
 
         setState(prev => ({
@@ -631,6 +400,15 @@ export function useTripOverlay() {
         }));
 
         if (shouldResetToday) {
+          // Keep the finished day in the journal before today's counter resets
+          if (data.todayDistanceTraveled > 0) {
+            useJournalStore
+              .getState()
+              .archiveDay(
+                getTrackDay(new Date(data.date).getTime()),
+                data.todayDistanceTraveled
+              );
+          }
           logger('Daily distance reset - new travel day detected');
         }
       } else {
@@ -644,29 +422,85 @@ export function useTripOverlay() {
     }
   }, []);
 
-  // Set up location update listener with original logging
+  // Set up location update listener - GpsEngine does the movement detection
   useEffect(() => {
     // Log initialization like original
     logger('⚙️ Trip: Movement detection enabled');
-    logger(
-      `📡 Trip: GPS throttling - STATIONARY:${CONFIG.movement.modes.STATIONARY.gpsThrottle}ms, WALKING:${CONFIG.movement.modes.WALKING.gpsThrottle}ms, CYCLING:${CONFIG.movement.modes.CYCLING.gpsThrottle}ms`
-    );
+    const throttles = getMovementProfile()
+      .modes.map(mode => `${mode.name}:${mode.gpsThrottle}ms`)
+      .join(', ');
+    logger(`📡 Trip: GPS throttling - ${throttles}`);
+    logger(`📡 Trip: Position smoothing - ${getSmoothingMode()}`);
+
+    const engine = new GpsEngine({
+      startLocation: stateRef.current.startLocation,
+      smoothing: getSmoothingMode(),
+    });
+
+    engine.on('position', ({ position, timestamp }) => {
+      stateRef.current = {
+        ...stateRef.current,
+        lastPosition: position,
+        lastUpdateTime: timestamp,
+      };
+      setState(prev => ({
+        ...prev,
+        lastPosition: position,
+        lastUpdateTime: timestamp,
+        startLocation: engine.getStartLocation(),
+      }));
+    });
+
+    engine.on('speed', ({ speedKmh, mode, confidence }) => {
+      setState(prev => ({
+        ...prev,
+        speedHistory: [...prev.speedHistory, speedKmh].slice(-10),
+        modeConfidence: confidence,
+      }));
+      // Update localStorage for dashboard compatibility
+      speedUpdateService.updateSpeed(speedKmh, mode);
+    });
+
+    engine.on('mode', ({ mode, previousMode }) => {
+      logger(`MODE CHANGE: ${previousMode} → ${mode}`);
+      setState(prev => ({
+        ...prev,
+        currentMode: mode,
+        lastModeChange: Date.now(),
+        lastProposedMode: mode,
+        // Force re-render by updating a counter when mode changes
+        modeChangeCounter: (prev.modeChangeCounter || 0) + 1,
+      }));
+    });
+
+    engine.on('distance', handleDistance);
+
+    engine.on('rejected', ({ reason, detail }) => {
+      if (reason === 'drift' || reason === 'noise') {
+        logger(`🎯 GPS: Ignoring ${reason} movement - ${detail}`);
+      }
+    });
 
     const handleLocationUpdate = (event: CustomEvent<LocationData>) => {
-      processLocationUpdate(event.detail);
+      engine.process(event.detail);
     };
+    // Replay fixes start over at an earlier clock (see gpsReplay)
+    const handleReplayStart = () => engine.restart();
 
     window.addEventListener(
       'locationUpdate',
       handleLocationUpdate as EventListener
     );
+    window.addEventListener('gpsReplayStart', handleReplayStart);
     return () => {
       window.removeEventListener(
         'locationUpdate',
         handleLocationUpdate as EventListener
       );
+      window.removeEventListener('gpsReplayStart', handleReplayStart);
+      engine.dispose();
     };
-  }, [processLocationUpdate]);
+  }, [handleDistance]);
 
   // Ensure data is saved before page unload
   useEffect(() => {
@@ -789,10 +623,10 @@ export function useTripOverlay() {
    Total Trip Distance: ${(state.originalTotalDistance * unitMultiplier).toFixed(1)} ${unitSuffix}
 
 🚀 Movement Status:
-   Current Mode: ${state.currentMode}
+   Current Mode: ${state.currentMode} (confidence ${Math.round(state.modeConfidence * 100)}%)
    Speed History: ${state.speedHistory.length} readings
    Last Speed: ${state.speedHistory.length > 0 ? state.speedHistory[state.speedHistory.length - 1].toFixed(1) : '0.0'} km/h
-   Moving: ${state.currentMode !== 'STATIONARY' && state.speedHistory.length > 0 && state.speedHistory[state.speedHistory.length - 1] > CONFIG.movement.modes.STATIONARY.maxSpeed ? 'Yes' : 'No'}
+   Moving: ${state.currentMode !== getStoppedMode().name && state.speedHistory.length > 0 && state.speedHistory[state.speedHistory.length - 1] > getStoppedMode().maxSpeed ? 'Yes' : 'No'}
 
 📍 GPS Status:
    Last Position: ${state.lastPosition ? `${state.lastPosition.lat.toFixed(4)}, ${state.lastPosition.lon.toFixed(4)}` : 'None'}
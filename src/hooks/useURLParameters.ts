@@ -1,6 +1,11 @@
 import { useEffect } from 'react';
 import { useTripProgressStore } from '../store/tripStore';
 import { logger } from '../utils/logger';
+import { isSameRoutePlan, parseRoutePlan } from '../utils/routePlan';
+import { fetchRouteFromUrl } from '../utils/routeImport';
+import { buildRouteTrack } from '../utils/routeProjection';
+import { exportTrack } from '../utils/trackExport';
+import { loadMovementProfile } from '../utils/movementProfile';
 
 /**
  * Sanitize string input to prevent XSS
@@ -49,6 +54,9 @@ export function useURLParameters() {
     exportTripData,
     importTripData,
     setUnits,
+    setRoutePlan,
+    setCurrentLeg,
+    setRouteTrack,
   } = useTripProgressStore();
 
   useEffect(() => {
@@ -236,9 +244,137 @@ export function useURLParameters() {
             processedParams++;
             break;
 
+          case 'routePlan':
+            if (value && value.length > 0) {
+              try {
+                const plan = parseRoutePlan(
+                  safeJsonParse(decodeURIComponent(value))
+                );
+                // The URL is applied on every browser source reload - only a
+                // new plan starts over at leg 1
+                if (
+                  isSameRoutePlan(
+                    plan,
+                    useTripProgressStore.getState().routePlan
+                  )
+                ) {
+                  logger(
+                    'URL parameter: Route plan unchanged - keeping leg progress'
+                  );
+                } else {
+                  logger(
+                    `URL parameter: Loaded route plan with ${plan.legs.length} legs`
+                  );
+                  setRoutePlan(plan);
+                }
+                processedParams++;
+              } catch (error) {
+                logger.error(
+                  'Failed to load route plan from URL parameter:',
+                  error
+                );
+              }
+            }
+            break;
+
+          case 'route':
+            if (value && value.length > 0) {
+              const routeUrl = sanitizeInput(value);
+              const { routeTrackUrl, routeTrackId } =
+                useTripProgressStore.getState();
+              // Already stored from an earlier load - keep its progress
+              if (routeTrackUrl === routeUrl && routeTrackId) {
+                logger(`URL parameter: Route ${routeUrl} already loaded`);
+                processedParams++;
+                break;
+              }
+              logger(`URL parameter: Loading route from ${routeUrl}`);
+              fetchRouteFromUrl(routeUrl)
+                .then(route => {
+                  const track = buildRouteTrack(route.points, route.name);
+                  setRouteTrack(track, routeUrl);
+                  logger(
+                    `🗺️ URL parameter: Route imported - ${track.totalKm.toFixed(1)}km`
+                  );
+                })
+                .catch(error => {
+                  logger.error(
+                    'Failed to load route from URL parameter:',
+                    error
+                  );
+                });
+              processedParams++;
+            }
+            break;
+
+          // Settings read by the module that uses them, which also warns
+          // about invalid values
+          case 'replay': // utils/locationSource
+          case 'replaySpeed':
+          case 'source':
+          case 'sourceUrl':
+          case 'staleAfter':
+          case 'bpm':
+          case 'platform': // utils/rtirlStreamer
+          case 'userId':
+          case 'dem': // utils/elevation
+          case 'weatherProvider': // utils/weatherProvider
+          case 'alerts': // utils/weatherAlerts
+          case 'ahead': // utils/weatherAhead
+          case 'hourly': // utils/weatherForecast
+          case 'tempUnit': // utils/weatherUnits
+          case 'windUnit':
+          case 'precipUnit':
+          case 'columns': // utils/overlayColumns
+          case 'dailyReset': // utils/dailyReset
+          case 'resetIdleHours':
+          case 'resetGraceHours':
+          case 'resetTimezone':
+          case 'smoothing': // utils/kalmanFilter
+          case 'demoProfile': // utils/routeDemo
+            logger(`URL parameter: ${key} = ${sanitizeInput(value)}`);
+            processedParams++;
+            break;
+
+          case 'pullKey':
+            // Read by utils/rtirlStreamer - a secret, so never logged
+            logger('URL parameter: RTIRL pull key set');
+            processedParams++;
+            break;
+
+          case 'profile':
+            if (value && value.length > 0) {
+              logger('URL parameter: Loading movement profile');
+              loadMovementProfile(value).catch(error => {
+                logger.error('Failed to load movement profile:', error);
+              });
+              processedParams++;
+            }
+            break;
+
+          case 'exportTrack':
+            if (value === 'gpx' || value === 'geojson') {
+              logger(`URL parameter triggered: exportTrack(${value})`);
+              exportTrack(value)
+                .then(result => logger(`📤 ${result}`))
+                .catch(error => {
+                  logger.error('Failed to export track:', error);
+                });
+              processedParams++;
+            } else {
+              logger.warn(
+                'Invalid exportTrack parameter:',
+                sanitizeInput(value),
+                '(must be gpx or geojson)'
+              );
+            }
+            break;
+
           case 'demo':
             if (value === 'true') {
               logger('🎭 Demo mode enabled via URL parameter');
+            } else if (value === 'route') {
+              logger('🎭 Route demo enabled via URL parameter');
             }
             processedParams++;
             break;
@@ -259,6 +395,29 @@ export function useURLParameters() {
       }
     });
 
+    // Leg selection must run after the route plan has been loaded
+    const legParam = urlParams.get('leg');
+    if (legParam !== null) {
+      const legNumber = parseInt(legParam, 10);
+      const { routePlan } = useTripProgressStore.getState();
+      if (
+        routePlan &&
+        !isNaN(legNumber) &&
+        legNumber >= 1 &&
+        legNumber <= routePlan.legs.length
+      ) {
+        logger(`URL parameter: Jumped to leg ${legNumber}`);
+        setCurrentLeg(legNumber - 1);
+        processedParams++;
+      } else {
+        logger.warn(
+          'Invalid leg parameter:',
+          legParam,
+          '(requires a route plan, 1 to number of legs)'
+        );
+      }
+    }
+
     if (processedParams > 0) {
       logger(`🔗 Processed ${processedParams} URL parameter(s)`);
     }
@@ -1,6 +1,10 @@
-import { useQuery } from '@tanstack/react-query';
-import type { WeatherResponse } from '../types/weather';
-import { fetchWeatherData } from '../utils/weatherService';
+import { queryOptions, useQuery } from '@tanstack/react-query';
+import type { WeatherData } from '../types/weather';
+import { getWeatherProviderType } from '../utils/weatherProvider';
+import {
+  fetchWeatherData,
+  type WeatherFetchOptions,
+} from '../utils/weatherService';
 
 /**
  * Fetch weather data with multiple fallback strategies
@@ -8,55 +12,53 @@ import { fetchWeatherData } from '../utils/weatherService';
 async function fetchWeather(
   lat: number,
   lon: number,
-  units: string = 'metric'
-): Promise<WeatherResponse> {
-  return fetchWeatherData(lat, lon, units);
+  options?: WeatherFetchOptions
+): Promise<WeatherData> {
+  return fetchWeatherData(lat, lon, options);
 }
 
+const isValidCoordinate = (lat?: number, lon?: number): boolean =>
+  Boolean(
+    lat &&
+      lon &&
+      isFinite(lat) &&
+      isFinite(lon) &&
+      lat >= -90 &&
+      lat <= 90 &&
+      lon >= -180 &&
+      lon <= 180
+  );
+
 /**
- * Custom hook for weather data with React Query caching
+ * Shared React Query options for weather at a position - the weather-ahead
+ * view (useWeatherAhead) uses the same cache entries as the dashboard
  * @param lat - Latitude coordinate
  * @param lon - Longitude coordinate
- * @param units - Temperature units ('metric', 'imperial', 'standard')
+ * @param options - Fetch options, see fetchWeatherData
  */
-export function useWeatherData(
+export function weatherQueryOptions(
   lat?: number,
   lon?: number,
-  units: string = 'metric'
+  options?: WeatherFetchOptions
 ) {
   // Round coordinates to prevent cache busting from tiny GPS variations
   // 0.01 degrees ≈ 1.1km, which is reasonable for weather accuracy
   const roundedLat = lat ? Math.round(lat * 100) / 100 : undefined;
   const roundedLon = lon ? Math.round(lon * 100) / 100 : undefined;
 
-  return useQuery({
-    queryKey: ['weather', roundedLat, roundedLon, units],
+  return queryOptions({
+    queryKey: ['weather', roundedLat, roundedLon, getWeatherProviderType()],
     queryFn: () => {
       if (
-        !lat ||
-        !lon ||
-        !isFinite(lat) ||
-        !isFinite(lon) ||
-        lat < -90 ||
-        lat > 90 ||
-        lon < -180 ||
-        lon > 180
+        lat === undefined ||
+        lon === undefined ||
+        !isValidCoordinate(lat, lon)
       ) {
         throw new Error('Invalid coordinates for weather fetch');
       }
-      return fetchWeather(lat, lon, units);
+      return fetchWeather(lat, lon, options);
     },
-    enabled: Boolean(
-      lat &&
-        lon &&
-        isFinite(lat) &&
-        isFinite(lon) &&
-        lat >= -90 &&
-        lat <= 90 &&
-        lon >= -180 &&
-        lon <= 180
-    ),
-    refetchInterval: 600000, // 10 minutes
+    enabled: isValidCoordinate(lat, lon),
     staleTime: 300000, // 5 minutes
     retry: (failureCount, error) => {
       // Don't retry on 4xx errors (bad coordinates, missing API key)
@@ -69,6 +71,19 @@ export function useWeatherData(
   });
 }
 
+/**
+ * Custom hook for weather data with React Query caching
+ * Data is always metric - convert for display in the formatters
+ * @param lat - Latitude coordinate
+ * @param lon - Longitude coordinate
+ */
+export function useWeatherData(lat?: number, lon?: number) {
+  return useQuery({
+    ...weatherQueryOptions(lat, lon),
+    refetchInterval: 600000, // 10 minutes
+  });
+}
+
 /**
  * Get appropriate weather icon from OpenWeatherMap
  */
@@ -1,4 +1,5 @@
 import { create } from 'zustand';
+import type { SensorReadings } from '../types/rtirl';
 
 export interface Coordinates {
   lat: number;
@@ -11,6 +12,8 @@ interface ConnectionState {
   connectionStatus: 'disconnected' | 'connecting' | 'connected' | 'error';
   reconnectAttempts: number;
   isDashboardDemoActive: boolean; // Replace global window flag
+  staleSince: number | null; // Time of the last fix while the feed is stale
+  sensors: SensorReadings; // Latest heading/altitude/heart rate, null if unknown
 
   // Actions
   setConnected: (connected: boolean) => void;
@@ -21,6 +24,8 @@ interface ConnectionState {
   incrementReconnectAttempts: () => void;
   resetReconnectAttempts: () => void;
   setDashboardDemoActive: (active: boolean) => void;
+  setStaleSince: (since: number | null) => void;
+  setSensors: (readings: Partial<SensorReadings>) => void;
 }
 
 export const useConnectionStore = create<ConnectionState>(set => ({
@@ -29,6 +34,8 @@ export const useConnectionStore = create<ConnectionState>(set => ({
   connectionStatus: 'disconnected',
   reconnectAttempts: 0,
   isDashboardDemoActive: false,
+  staleSince: null,
+  sensors: { heading: null, altitude: null, heartRate: null },
 
   setConnected: (_connected: boolean) => set({ isConnected: _connected }),
   setPosition: (_position: Coordinates) => set({ lastPosition: _position }),
@@ -42,4 +49,7 @@ export const useConnectionStore = create<ConnectionState>(set => ({
   resetReconnectAttempts: () => set({ reconnectAttempts: 0 }),
   setDashboardDemoActive: (_active: boolean) =>
     set({ isDashboardDemoActive: _active }),
+  setStaleSince: (_since: number | null) => set({ staleSince: _since }),
+  setSensors: (_readings: Partial<SensorReadings>) =>
+    set(state => ({ sensors: { ...state.sensors, ..._readings } })),
 }));
@@ -0,0 +1,35 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { applyAltitude } from '../utils/elevation';
+import type { ElevationDay } from '../types/trip';
+
+interface ElevationState {
+  today: ElevationDay | null;
+
+  // Actions
+  recordAltitude: (date: string, altitudeM: number, timestamp: number) => void;
+  clearElevation: () => void;
+}
+
+/**
+ * Elevation Store - today's altitude, climb totals and sparkline samples
+ * Persisted so a reload mid-ride keeps the day's ascent
+ */
+export const useElevationStore = create<ElevationState>()(
+  persist(
+    set => ({
+      today: null,
+
+      recordAltitude: (date: string, altitudeM: number, timestamp: number) =>
+        set(state => ({
+          today: applyAltitude(state.today, date, altitudeM, timestamp),
+        })),
+
+      clearElevation: () => set({ today: null }),
+    }),
+    {
+      name: 'trip-overlay-elevation', // localStorage key
+      partialize: state => ({ today: state.today }),
+    }
+  )
+);
@@ -0,0 +1,148 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Coordinates } from '../types/config';
+import type { JournalEntry } from '../types/trip';
+
+interface JournalFix {
+  timestamp: number;
+  date: string;
+  position: Coordinates;
+  distanceKm: number;
+  movingTimeMs: number;
+  speedKmh: number;
+}
+
+interface JournalState {
+  entries: Record<string, JournalEntry>;
+
+  // Actions
+  recordFix: (fix: JournalFix) => void;
+  setPlaces: (
+    date: string,
+    places: { startPlace?: string; endPlace?: string }
+  ) => void;
+  addElevationGain: (date: string, meters: number) => void;
+  archiveDay: (date: string, distanceKm: number) => void;
+  clearJournal: () => void;
+}
+
+// Keep roughly a year of riding days in localStorage
+const MAX_ENTRIES = 400;
+
+const createEntry = (date: string): JournalEntry => ({
+  date,
+  distanceKm: 0,
+  movingTimeMs: 0,
+  maxSpeedKmh: 0,
+  startPosition: null,
+  endPosition: null,
+  startPlace: null,
+  endPlace: null,
+  elevationGainM: null,
+  firstFixAt: null,
+  lastFixAt: null,
+});
+
+// Drop the oldest days once the journal grows past MAX_ENTRIES
+const pruneEntries = (
+  entries: Record<string, JournalEntry>
+): Record<string, JournalEntry> => {
+  const dates = Object.keys(entries).sort();
+  if (dates.length <= MAX_ENTRIES) {
+    return entries;
+  }
+  const pruned = { ...entries };
+  dates.slice(0, dates.length - MAX_ENTRIES).forEach(date => {
+    delete pruned[date];
+  });
+  return pruned;
+};
+
+/**
+ * Trip Journal Store - per-day riding history
+ * Survives daily resets so past days can be recapped on stream
+ */
+export const useJournalStore = create<JournalState>()(
+  persist(
+    set => ({
+      entries: {},
+
+      recordFix: (fix: JournalFix) =>
+        set(state => {
+          const entry = state.entries[fix.date] || createEntry(fix.date);
+          return {
+            entries: pruneEntries({
+              ...state.entries,
+              [fix.date]: {
+                ...entry,
+                distanceKm: entry.distanceKm + Math.max(0, fix.distanceKm),
+                movingTimeMs:
+                  entry.movingTimeMs + Math.max(0, fix.movingTimeMs),
+                maxSpeedKmh: Math.max(entry.maxSpeedKmh, fix.speedKmh),
+                startPosition: entry.startPosition || fix.position,
+                endPosition: fix.position,
+                firstFixAt: entry.firstFixAt ?? fix.timestamp,
+                lastFixAt: fix.timestamp,
+              },
+            }),
+          };
+        }),
+
+      setPlaces: (date, places) =>
+        set(state => {
+          const entry = state.entries[date];
+          if (!entry) {
+            return state;
+          }
+          return {
+            entries: {
+              ...state.entries,
+              [date]: {
+                ...entry,
+                startPlace: places.startPlace ?? entry.startPlace,
+                endPlace: places.endPlace ?? entry.endPlace,
+              },
+            },
+          };
+        }),
+
+      addElevationGain: (date: string, meters: number) =>
+        set(state => {
+          const entry = state.entries[date];
+          if (!entry || !isFinite(meters) || meters <= 0) {
+            return state;
+          }
+          return {
+            entries: {
+              ...state.entries,
+              [date]: {
+                ...entry,
+                elevationGainM: (entry.elevationGainM ?? 0) + meters,
+              },
+            },
+          };
+        }),
+
+      // Keep a day's total when only a distance is known (legacy daily reset)
+      archiveDay: (date: string, distanceKm: number) =>
+        set(state => {
+          const entry = state.entries[date] || createEntry(date);
+          if (distanceKm <= entry.distanceKm) {
+            return state;
+          }
+          return {
+            entries: pruneEntries({
+              ...state.entries,
+              [date]: { ...entry, distanceKm },
+            }),
+          };
+        }),
+
+      clearJournal: () => set({ entries: {} }),
+    }),
+    {
+      name: 'trip-overlay-journal', // localStorage key
+      partialize: state => ({ entries: state.entries }),
+    }
+  )
+);
@@ -1,9 +1,20 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { logger } from '../utils/logger';
+import { getRoutePlanDistance, parseRoutePlan } from '../utils/routePlan';
+import { routeTrackStore } from '../utils/routeTrackStore';
+import type { GpsRejectReason } from '../utils/gpsEngine';
+import type {
+  MovementMode,
+  RoutePlan,
+  RouteProjection,
+  RouteTrack,
+} from '../types/trip';
 
 interface TripProgressState {
   // Core distances
   totalDistanceKm: number;
+  baseTotalDistanceKm: number | null; // Total before a route plan/track set it
   currentDistanceKm: number;
   todayDistanceKm: number;
   totalTraveledKm: number;
@@ -12,9 +23,38 @@ interface TripProgressState {
   units: 'km' | 'miles';
   isMoving: boolean;
   currentSpeed: number;
-  currentMode: 'STATIONARY' | 'WALKING' | 'CYCLING';
+  currentMode: MovementMode;
+  modeConfidence: number; // 0-1 from the mode classifier
   modeChangeCounter: number;
 
+  // Multi-leg route plan
+  routePlan: RoutePlan | null;
+  currentLegIndex: number;
+  legDistanceKm: number;
+
+  // Imported GPX/KML route with along-route progress. The track itself lives
+  // in IndexedDB (utils/routeTrackStore); only its id is persisted here
+  routeTrack: RouteTrack | null;
+  routeTrackId: string | null;
+  routeTrackUrl: string | null; // ?route= it was downloaded from
+  routeProgressKm: number;
+  routeOffRouteM: number | null;
+  routeSegmentIndex: number;
+
+  // Moving-time-only speed averages (stationary time excluded)
+  recentAverageKmh: number | null;
+  todayMovingKm: number;
+  todayMovingTimeMs: number;
+  totalMovingKm: number;
+  totalMovingTimeMs: number;
+
+  // Daily reset bookkeeping (see utils/dailyReset)
+  lastActiveAt: number | null;
+  lastDailyResetAt: number | null;
+
+  // Fixes the GPS engine dropped this session, by reason (not persisted)
+  rejectedFixes: Partial<Record<GpsRejectReason, number>>;
+
   // Actions for distance manipulation
   addDistance: (km: number) => void;
   setDistance: (km: number) => void;
@@ -29,18 +69,120 @@ interface TripProgressState {
   // Speed and movement
   updateSpeed: (speed: number) => void;
   setMoving: (moving: boolean) => void;
-  setCurrentMode: (mode: 'STATIONARY' | 'WALKING' | 'CYCLING') => void;
+  setCurrentMode: (mode: MovementMode) => void;
+  setModeConfidence: (confidence: number) => void;
+
+  // Route plan actions
+  setRoutePlan: (plan: RoutePlan) => void;
+  clearRoutePlan: () => void;
+  advanceLeg: () => boolean;
+  setCurrentLeg: (index: number) => void;
+
+  // Route track actions
+  setRouteTrack: (track: RouteTrack, url?: string) => void;
+  clearRouteTrack: () => void;
+  updateRouteProjection: (projection: RouteProjection) => void;
+  setRouteOffRoute: (offRouteM: number) => void;
+
+  // Daily reset actions
+  markActive: (timestamp: number) => void;
+  setDailyResetBaseline: (timestamp: number) => void;
+
+  // Moving time actions
+  addMovingTime: (
+    km: number,
+    durationMs: number,
+    recentAverageKmh: number | null
+  ) => void;
+
+  // GPS diagnostics
+  recordRejectedFix: (reason: GpsRejectReason) => void;
 
   // Data import/export
   exportTripData: () => string;
   importTripData: (data: any) => string;
 }
 
+// Trip total from before the route plan/track, once neither is left
+const restoreBaseTotal = (
+  state: TripProgressState
+): Partial<TripProgressState> => ({
+  totalDistanceKm: state.baseTotalDistanceKm ?? state.totalDistanceKm,
+  baseTotalDistanceKm: null,
+});
+
+// Route track whose IndexedDB write is in flight, and the stored id of the
+// track in memory (or being loaded into it)
+let savingRouteTrack: RouteTrack | null = null;
+let loadedRouteTrackId: string | null = null;
+
+const saveRouteTrack = (track: RouteTrack) => {
+  savingRouteTrack = track;
+  loadedRouteTrackId = null;
+  routeTrackStore
+    .save(track)
+    .then(id => {
+      if (useTripProgressStore.getState().routeTrack === track) {
+        loadedRouteTrackId = id;
+        useTripProgressStore.setState({ routeTrackId: id });
+      }
+    })
+    .catch(error => {
+      logger.warn('Failed to store the route - it is lost on reload:', error);
+    })
+    .finally(() => {
+      if (savingRouteTrack === track) {
+        savingRouteTrack = null;
+      }
+    });
+};
+
+// Bring the in-memory track in line with the persisted id after a rehydrate
+// (startup, or a storage event from another browser source)
+const syncRouteTrack = (state: TripProgressState) => {
+  const { routeTrack, routeTrackId } = state;
+  if (
+    routeTrackId === loadedRouteTrackId ||
+    (routeTrack && routeTrack === savingRouteTrack)
+  ) {
+    return;
+  }
+
+  if (!routeTrackId) {
+    if (loadedRouteTrackId) {
+      // Cleared in another browser source
+      loadedRouteTrackId = null;
+      useTripProgressStore.setState({ routeTrack: null });
+    } else if (routeTrack) {
+      // Persisted in localStorage before routes moved to IndexedDB
+      saveRouteTrack(routeTrack);
+    }
+    return;
+  }
+
+  loadedRouteTrackId = routeTrackId;
+  routeTrackStore
+    .load(routeTrackId)
+    .then(track => {
+      if (useTripProgressStore.getState().routeTrackId !== routeTrackId) {
+        return;
+      }
+      if (!track) {
+        logger.warn('Stored route not found - import it again');
+      }
+      useTripProgressStore.setState({ routeTrack: track });
+    })
+    .catch(error => {
+      logger.warn('Failed to load the stored route:', error);
+    });
+};
+
 export const useTripProgressStore = create<TripProgressState>()(
   persist(
     (set, get) => ({
   // Initial state
   totalDistanceKm: 371, // Distance from Vienna to Zagreb (matches CONFIG)
+  baseTotalDistanceKm: null,
   currentDistanceKm: 0,
   todayDistanceKm: 0,
   totalTraveledKm: 0,
@@ -48,7 +190,25 @@ export const useTripProgressStore = create<TripProgressState>()(
   isMoving: false,
   currentSpeed: 0,
   currentMode: 'STATIONARY',
+  modeConfidence: 0,
   modeChangeCounter: 0,
+  routePlan: null,
+  currentLegIndex: 0,
+  legDistanceKm: 0,
+  routeTrack: null,
+  routeTrackId: null,
+  routeTrackUrl: null,
+  routeProgressKm: 0,
+  routeOffRouteM: null,
+  routeSegmentIndex: 0,
+  recentAverageKmh: null,
+  todayMovingKm: 0,
+  todayMovingTimeMs: 0,
+  totalMovingKm: 0,
+  totalMovingTimeMs: 0,
+  lastActiveAt: null,
+  lastDailyResetAt: null,
+  rejectedFixes: {},
 
   // Distance manipulation actions
   addDistance: (km: number) =>
@@ -56,6 +216,9 @@ export const useTripProgressStore = create<TripProgressState>()(
       currentDistanceKm: Math.max(0, state.currentDistanceKm + km),
       todayDistanceKm: Math.max(0, state.todayDistanceKm + km),
       totalTraveledKm: Math.max(0, state.totalTraveledKm + km),
+      legDistanceKm: state.routePlan
+        ? Math.max(0, state.legDistanceKm + km)
+        : state.legDistanceKm,
     })),
 
   setDistance: (km: number) =>
@@ -97,11 +260,25 @@ export const useTripProgressStore = create<TripProgressState>()(
       currentDistanceKm: 0,
       todayDistanceKm: 0,
       totalTraveledKm: 0,
+      currentLegIndex: 0,
+      legDistanceKm: 0,
+      routeProgressKm: 0,
+      routeOffRouteM: null,
+      routeSegmentIndex: 0,
+      recentAverageKmh: null,
+      todayMovingKm: 0,
+      todayMovingTimeMs: 0,
+      totalMovingKm: 0,
+      totalMovingTimeMs: 0,
+      lastDailyResetAt: Date.now(),
     }),
 
   resetTodayDistance: () =>
     set({
       todayDistanceKm: 0,
+      todayMovingKm: 0,
+      todayMovingTimeMs: 0,
+      lastDailyResetAt: Date.now(),
     }),
 
   // Speed and movement actions
@@ -113,7 +290,120 @@ export const useTripProgressStore = create<TripProgressState>()(
 
   setMoving: (moving: boolean) => set({ isMoving: moving }),
 
-  setCurrentMode: (mode: 'STATIONARY' | 'WALKING' | 'CYCLING') => set({ currentMode: mode }),
+  setCurrentMode: (mode: MovementMode) => set({ currentMode: mode }),
+
+  setModeConfidence: (confidence: number) =>
+    set({ modeConfidence: confidence }),
+
+  // Route plan actions - the plan's summed leg distances become the trip total
+  // until it is cleared
+  setRoutePlan: (plan: RoutePlan) =>
+    set(state => ({
+      routePlan: plan,
+      currentLegIndex: 0,
+      legDistanceKm: 0,
+      totalDistanceKm: getRoutePlanDistance(plan),
+      baseTotalDistanceKm: state.baseTotalDistanceKm ?? state.totalDistanceKm,
+    })),
+
+  clearRoutePlan: () =>
+    set(state => ({
+      routePlan: null,
+      currentLegIndex: 0,
+      legDistanceKm: 0,
+      ...(state.routeTrack
+        ? { totalDistanceKm: state.routeTrack.totalKm }
+        : restoreBaseTotal(state)),
+    })),
+
+  advanceLeg: () => {
+    const { routePlan, currentLegIndex } = get();
+    if (!routePlan || currentLegIndex >= routePlan.legs.length - 1) {
+      return false;
+    }
+    set({ currentLegIndex: currentLegIndex + 1, legDistanceKm: 0 });
+    return true;
+  },
+
+  setCurrentLeg: (index: number) => {
+    const { routePlan } = get();
+    if (!routePlan || index < 0 || index >= routePlan.legs.length) {
+      return;
+    }
+    set({ currentLegIndex: index, legDistanceKm: 0 });
+  },
+
+  // Route track actions - the route length becomes the trip total while the
+  // accumulated odometer (totalTraveledKm) keeps counting independently
+  setRouteTrack: (track: RouteTrack, url?: string) => {
+    set(state => ({
+      routeTrack: track,
+      routeTrackId: null,
+      routeTrackUrl: url ?? null,
+      routeProgressKm: 0,
+      routeOffRouteM: null,
+      routeSegmentIndex: 0,
+      totalDistanceKm: track.totalKm,
+      baseTotalDistanceKm: state.baseTotalDistanceKm ?? state.totalDistanceKm,
+    }));
+    saveRouteTrack(track);
+  },
+
+  clearRouteTrack: () => {
+    savingRouteTrack = null;
+    loadedRouteTrackId = null;
+    set(state => ({
+      routeTrack: null,
+      routeTrackId: null,
+      routeTrackUrl: null,
+      routeProgressKm: 0,
+      routeOffRouteM: null,
+      routeSegmentIndex: 0,
+      ...(state.routePlan
+        ? { totalDistanceKm: getRoutePlanDistance(state.routePlan) }
+        : restoreBaseTotal(state)),
+    }));
+    routeTrackStore.clear().catch(error => {
+      logger.warn('Failed to delete the stored route:', error);
+    });
+  },
+
+  updateRouteProjection: (projection: RouteProjection) =>
+    set({
+      routeProgressKm: projection.distanceAlongKm,
+      routeOffRouteM: projection.offRouteM,
+      routeSegmentIndex: projection.segmentIndex,
+    }),
+
+  setRouteOffRoute: (offRouteM: number) => set({ routeOffRouteM: offRouteM }),
+
+  // Daily reset actions
+  markActive: (timestamp: number) => set({ lastActiveAt: timestamp }),
+
+  setDailyResetBaseline: (timestamp: number) =>
+    set({ lastDailyResetAt: timestamp }),
+
+  // Moving time actions - only called for fixes classified as moving
+  addMovingTime: (
+    km: number,
+    durationMs: number,
+    recentAverageKmh: number | null
+  ) =>
+    set(state => ({
+      recentAverageKmh,
+      todayMovingKm: state.todayMovingKm + km,
+      todayMovingTimeMs: state.todayMovingTimeMs + durationMs,
+      totalMovingKm: state.totalMovingKm + km,
+      totalMovingTimeMs: state.totalMovingTimeMs + durationMs,
+    })),
+
+  recordRejectedFix: (reason: GpsRejectReason) =>
+    set(state => ({
+      rejectedFixes: {
+        ...state.rejectedFixes,
+        [reason]: (state.rejectedFixes[reason] ?? 0) + 1,
+      },
+    })),
 
   // Data import/export
   exportTripData: () => {
@@ -123,6 +413,9 @@ export const useTripProgressStore = create<TripProgressState>()(
       todayDistanceTraveled: state.todayDistanceKm,
       useImperialUnits: state.units === 'miles',
       totalDistance: state.totalDistanceKm,
+      routePlan: state.routePlan,
+      currentLegIndex: state.currentLegIndex,
+      legDistanceKm: state.legDistanceKm,
       exportDate: new Date().toISOString(),
     };
 
@@ -155,6 +448,15 @@ export const useTripProgressStore = create<TripProgressState>()(
       if (data.totalDistance !== undefined) {
         get().setTotalDistance(data.totalDistance);
       }
+      if (data.routePlan) {
+        get().setRoutePlan(parseRoutePlan(data.routePlan));
+        if (typeof data.currentLegIndex === 'number') {
+          get().setCurrentLeg(data.currentLegIndex);
+        }
+        if (typeof data.legDistanceKm === 'number') {
+          set({ legDistanceKm: Math.max(0, data.legDistanceKm) });
+        }
+      }
       return 'Trip data imported';
     } catch (error) {
       console.error('Failed to import trip data:', error);
@@ -166,10 +468,29 @@ export const useTripProgressStore = create<TripProgressState>()(
       name: 'trip-overlay-storage', // localStorage key
       partialize: (state) => ({
         totalDistanceKm: state.totalDistanceKm,
+        baseTotalDistanceKm: state.baseTotalDistanceKm,
         totalTraveledKm: state.totalTraveledKm,
         todayDistanceKm: state.todayDistanceKm,
         units: state.units,
+        routePlan: state.routePlan,
+        currentLegIndex: state.currentLegIndex,
+        legDistanceKm: state.legDistanceKm,
+        routeTrackId: state.routeTrackId,
+        routeTrackUrl: state.routeTrackUrl,
+        routeProgressKm: state.routeProgressKm,
+        routeSegmentIndex: state.routeSegmentIndex,
+        todayMovingKm: state.todayMovingKm,
+        todayMovingTimeMs: state.todayMovingTimeMs,
+        totalMovingKm: state.totalMovingKm,
+        totalMovingTimeMs: state.totalMovingTimeMs,
+        lastActiveAt: state.lastActiveAt,
+        lastDailyResetAt: state.lastDailyResetAt,
       }),
+      onRehydrateStorage: () => state => {
+        if (state) {
+          syncRouteTrack(state);
+        }
+      },
     }
   )
 );
@@ -0,0 +1,43 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { WeatherAlert } from '../types/weather';
+
+interface WeatherAlertState {
+  dismissed: Record<string, number>; // Alert id -> its end (Unix seconds)
+
+  // Actions
+  dismissAlerts: (alerts: WeatherAlert[]) => void;
+  pruneDismissed: (nowS: number) => void;
+}
+
+/**
+ * Weather Alert Store - warnings the streamer dismissed
+ * Persisted so an OBS source reload doesn't bring them back; entries are
+ * dropped once the alert has expired
+ */
+export const useWeatherAlertStore = create<WeatherAlertState>()(
+  persist(
+    set => ({
+      dismissed: {},
+
+      dismissAlerts: (alerts: WeatherAlert[]) =>
+        set(state => ({
+          dismissed: {
+            ...state.dismissed,
+            ...Object.fromEntries(alerts.map(alert => [alert.id, alert.end])),
+          },
+        })),
+
+      pruneDismissed: (nowS: number) =>
+        set(state => ({
+          dismissed: Object.fromEntries(
+            Object.entries(state.dismissed).filter(([, end]) => end > nowS)
+          ),
+        })),
+    }),
+    {
+      name: 'trip-overlay-weather-alerts', // localStorage key
+      partialize: state => ({ dismissed: state.dismissed }),
+    }
+  )
+);
@@ -4,21 +4,41 @@ export interface MovementMode {
   minMovementM: number;
   gpsThrottle: number;
   avatar: string;
+  showSpeed?: boolean;
 }
 
 export interface ConfigType {
   rtirl: {
     userId: string;
+    platform: string;
+    pullKey: string;
     demoMode: boolean;
+    staleAfterMs: number;
+    reconnectBaseMs: number;
+    reconnectMaxMs: number;
   };
   trip: {
     totalDistanceKm: number;
     useAutoStart: boolean;
     manualStartLocation: { lat: number; lon: number };
+    arrivalRadiusM: number;
+    maxOffRouteM: number;
+    dailyReset: {
+      policy: 'midnight' | 'idle' | 'manual';
+      idleHours: number;
+      graceHours: number;
+    };
   };
   weather: {
     updateInterval: number;
     useMetric: boolean;
+    hourlyDefaultHours: number;
+    rainAlertHorizonMin: number;
+    rainIntensityMmH: number;
+    rainProbabilityPct: number;
+    aheadDistancesKm: number[];
+    aheadSnapKm: number;
+    aheadQuotaReserve: number;
   };
   time: {
     use24Hour: boolean;
@@ -30,13 +50,42 @@ export interface ConfigType {
       STATIONARY: MovementMode;
       WALKING: MovementMode;
       CYCLING: MovementMode;
+      MOTORBIKE: MovementMode;
     };
     modeSwitchDelay: number;
+    hysteresisKmh: number;
+    classifier: {
+      windowMs: number;
+      minSamples: number;
+      minConfidence: number;
+    };
+    maxAccuracyM: number;
+    driftThresholdM: number;
+    smoothing: {
+      mode: 'kalman' | 'none';
+      accelerationNoise: number;
+      reportedSpeedNoiseKmh: number;
+      maxGapMs: number;
+    };
   };
   performance: {
     uiUpdateDebounce: number;
     saveDebounceDelay: number;
   };
+  elevation: {
+    noiseThresholdM: number;
+    sampleIntervalMs: number;
+    maxSamples: number;
+    lookupIntervalMs: number;
+    lookupMinMoveM: number;
+  };
+  map: {
+    tileUrl: string;
+    attribution: string;
+    zoom: number;
+    sizePx: number;
+    maxBreadcrumbPoints: number;
+  };
 }
 
 export interface WeatherIcons {
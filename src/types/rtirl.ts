@@ -6,8 +6,18 @@ export interface LocationData {
   longitude: number;
   accuracy: number;
   speed: number;
-  timestamp: number;
-  source: 'rtirl' | 'demo';
+  timestamp: number; // When the fix was taken - device time when the source has it
+  receivedAt?: number; // When the browser received it
+  source: 'rtirl' | 'geolocation' | 'websocket' | 'demo' | 'replay';
+  heading?: number; // Degrees clockwise from north, when the source has it
+  altitude?: number; // Meters above sea level, when the source has it
+}
+
+// Latest values from sensor channels (RTIRL heading/altitude/heart rate)
+export interface SensorReadings {
+  heading: number | null;
+  altitude: number | null;
+  heartRate: number | null; // Beats per minute
 }
 
 export interface ConnectionState {
@@ -24,6 +34,24 @@ export interface ConnectionState {
   resetReconnectAttempts: () => void;
 }
 
+export type LocationSourceType = LocationData['source'];
+
+export type ConnectionStatus = ConnectionState['connectionStatus'];
+
+// Callbacks a location source reports through - see useLocationSource
+export interface LocationSourceHandlers {
+  onLocation: (data: LocationData | null) => void; // null = location hidden
+  onStatus: (status: ConnectionStatus) => void;
+  onReconnect: () => void; // A reconnect attempt is starting
+  onSensor?: (readings: Partial<SensorReadings>) => void;
+}
+
+export interface LocationSource {
+  readonly type: LocationSourceType;
+  start: (handlers: LocationSourceHandlers) => void;
+  stop: () => void;
+}
+
 export interface RTIRLMessage {
   event: string;
   data: LocationData;
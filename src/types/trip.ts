@@ -1,5 +1,9 @@
 // Trip state and related types
-export type MovementMode = 'STATIONARY' | 'WALKING' | 'CYCLING';
+import type { Coordinates } from './config';
+
+// Built-in modes are STATIONARY, WALKING, CYCLING and MOTORBIKE; movement
+// profiles can define any other mode names
+export type MovementMode = string;
 
 export interface TripState {
   // State
@@ -35,3 +39,98 @@ export interface TripProgress {
   totalDistance?: number;
   lastUpdate?: number;
 }
+
+// A single leg of a multi-day route (e.g. one riding day or one city pair)
+export interface RouteLeg {
+  name: string;
+  start: Coordinates;
+  end: Coordinates;
+  distanceKm: number;
+}
+
+export interface RoutePlan {
+  name?: string;
+  legs: RouteLeg[];
+  arrivalRadiusM?: number; // Overrides CONFIG.trip.arrivalRadiusM
+}
+
+// Imported GPX/KML polyline with cumulative distances for along-route progress
+export interface RouteTrack {
+  name?: string;
+  points: Coordinates[];
+  cumulativeKm: number[];
+  totalKm: number;
+}
+
+export interface RouteProjection {
+  distanceAlongKm: number;
+  offRouteM: number;
+  segmentIndex: number;
+  point: Coordinates;
+}
+
+// Accepted GPS fix stored by the track recorder (IndexedDB)
+export interface TrackPoint {
+  id?: number; // Auto-increment key assigned by IndexedDB
+  day: string; // Local calendar day (YYYY-MM-DD) used to split exports
+  timestamp: number;
+  lat: number;
+  lon: number;
+  speedKmh: number;
+  accuracy: number | null;
+  mode: MovementMode;
+}
+
+// One calendar day of riding in the trip journal
+export interface JournalEntry {
+  date: string; // Local calendar day (YYYY-MM-DD)
+  distanceKm: number;
+  movingTimeMs: number;
+  maxSpeedKmh: number;
+  startPosition: Coordinates | null;
+  endPosition: Coordinates | null;
+  startPlace: string | null;
+  endPlace: string | null;
+  elevationGainM: number | null; // Only set when altitude data is available
+  firstFixAt: number | null;
+  lastFixAt: number | null;
+}
+
+// One point of the daily elevation sparkline
+export interface ElevationSample {
+  timestamp: number;
+  altitudeM: number;
+}
+
+// Climb statistics for one riding day
+export interface ElevationDay {
+  date: string; // Local calendar day (YYYY-MM-DD)
+  currentM: number;
+  ascentM: number;
+  descentM: number;
+  anchorM: number; // Last counted altitude - the threshold is measured from here
+  trend: 'up' | 'down' | null; // Direction of the last counted change
+  minM: number;
+  maxM: number;
+  samples: ElevationSample[];
+}
+
+// One speed band of a movement profile
+export interface MovementModeProfile {
+  name: MovementMode;
+  maxSpeed: number; // Upper end of the band in km/h; GPS jumps beyond 1.5x
+  minMovementM: number;
+  gpsThrottle: number;
+  avatar: string;
+  showSpeed: boolean; // Show the dashboard speed readout in this mode
+  enterKmh?: number; // Classifier thresholds - default band edge +/- hysteresis
+  exitKmh?: number;
+}
+
+// Named set of modes, slowest first - the first mode counts as stopped
+export interface MovementProfile {
+  name: string;
+  modes: MovementModeProfile[];
+  hysteresisKmh: number;
+  modeSwitchDelayMs: number;
+}
@@ -1,42 +1,111 @@
-// Weather API types based on OpenWeatherMap One Call API 3.0
+// Weather types - one normalized model whatever provider the data came from
+// Values are always metric (°C, m/s, mm); formatters convert for display
+
+// Upstream APIs with an adapter in src/utils/weatherProviders
+export type WeatherProviderName = 'owm' | 'open-meteo' | 'local';
+
+// ?weatherProvider= - 'server' asks the /weather function, which picks its
+// provider via WEATHER_PROVIDER; the others are called from the browser
+export type WeatherProviderType = 'server' | WeatherProviderName;
+
+// Display units - ?tempUnit=, ?windUnit=, ?precipUnit=, else from the
+// trip's km/miles setting (see utils/weatherUnits)
+export type TemperatureUnit = 'c' | 'f';
+export type WindUnit = 'kmh' | 'mph' | 'ms' | 'kn' | 'bft';
+export type PrecipitationUnit = 'mm' | 'in';
+
+export interface WeatherUnits {
+  temperature: TemperatureUnit;
+  wind: WindUnit;
+  precipitation: PrecipitationUnit;
+}
+
+export type WeatherConditionType =
+  | 'clear'
+  | 'clouds'
+  | 'fog'
+  | 'drizzle'
+  | 'rain'
+  | 'snow'
+  | 'thunderstorm';
 
 export interface WeatherCondition {
-  id: number;
-  main: string;
-  description: string;
-  icon: string;
+  type: WeatherConditionType;
+  description: string; // e.g. "light rain"
+  icon: string; // OpenWeatherMap icon code, e.g. "10d" - shared by all providers
 }
 
 export interface CurrentWeather {
   temp: number;
-  feels_like: number;
-  humidity: number;
-  uvi: number;
-  weather: WeatherCondition[];
-  wind_speed: number;
-  wind_deg: number;
+  feelsLike: number;
+  humidity: number; // %
+  uvi: number | null;
+  windSpeed: number; // m/s
+  windDeg: number | null;
+  precipitationMmH: number | null; // Rain and snow falling now
+  condition: WeatherCondition;
 }
 
-export interface DailyWeather {
-  temp: {
-    min: number;
-    max: number;
-  };
-  weather: WeatherCondition[];
+// Short-term precipitation nowcast - OWM per minute, Open-Meteo per 15 min
+export interface MinutelyWeather {
+  time: number; // Unix seconds, start of the interval
+  precipitationMmH: number; // Intensity in mm/h
 }
 
 export interface HourlyWeather {
-  dt: number;
+  time: number; // Unix seconds, start of the hour
   temp: number;
-  weather: WeatherCondition[];
+  condition: WeatherCondition;
+  precipitationProbability: number | null; // 0-100 %
+  precipitationMm: number | null;
 }
 
-export interface WeatherResponse {
+export interface DailyWeather {
+  time: number; // Unix seconds
+  tempMin: number;
+  tempMax: number;
+  condition: WeatherCondition;
+  precipitationProbability: number | null; // 0-100 %
+}
+
+// Official warnings - OWM passes them through from national services
+// (e.g. MeteoAlarm, NWS); Open-Meteo has none
+export type WeatherAlertSeverity =
+  | 'minor'
+  | 'moderate'
+  | 'severe'
+  | 'extreme'
+  | 'unknown';
+
+export interface WeatherAlert {
+  id: string; // Stable across refreshes - used to remember dismissals
+  event: string; // e.g. "Orange Thunderstorm Warning"
+  severity: WeatherAlertSeverity;
+  sender: string;
+  description: string;
+  start: number; // Unix seconds
+  end: number; // Unix seconds
+}
+
+export interface WeatherData {
+  provider: WeatherProviderName | 'mock';
   current: CurrentWeather;
-  daily: DailyWeather[];
+  minutely: MinutelyWeather[]; // Empty when the provider has no nowcast
   hourly: HourlyWeather[];
+  daily: DailyWeather[]; // daily[0] is today
+  alerts: WeatherAlert[];
   timezone: string; // e.g., "Europe/Vienna"
-  timezone_offset: number; // UTC offset in seconds
+  timezoneOffset: number; // UTC offset in seconds
+}
+
+// One way of getting weather - see createWeatherProvider
+export interface WeatherProvider {
+  readonly type: WeatherProviderType;
+  fetchWeather: (
+    lat: number,
+    lon: number,
+    signal: AbortSignal
+  ) => Promise<WeatherData>;
 }
 
 export interface WeatherError {
@@ -47,14 +116,14 @@ export interface WeatherError {
 }
 
 export interface WeatherState {
-  data: WeatherResponse | null;
+  data: WeatherData | null;
   location: string;
   isLoading: boolean;
   error: string | null;
   lastUpdate: number;
 
   // Actions
-  setWeatherData: (data: WeatherResponse) => void;
+  setWeatherData: (data: WeatherData) => void;
   setLocation: (location: string) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
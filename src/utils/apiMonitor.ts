@@ -65,8 +65,9 @@ class ApiMonitor {
 
   /**
    * Check if we can make an API call without exceeding daily limit
+   * @param reserve - Calls to keep back for more important requests
    */
-  canMakeApiCall(): boolean {
+  canMakeApiCall(reserve: number = 0): boolean {
     const usage = this.getUsageData();
     const remaining = DAILY_LIMIT - usage.totalCalls;
 
@@ -77,6 +78,13 @@ class ApiMonitor {
       return false;
     }
 
+    if (remaining <= reserve) {
+      logger(
+        `🚫 API Monitor: ${remaining} API calls left, kept in reserve (${reserve})`
+      );
+      return false;
+    }
+
     if (remaining <= 50) {
       logger(`⚠️ API Monitor: Only ${remaining} API calls remaining today!`);
     }
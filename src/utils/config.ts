@@ -6,6 +6,20 @@ const getRTIRLUserId = (): string => {
   return import.meta.env.VITE_RTIRL_USER_ID || '41908566';
 };
 
+// RTIRL platform the user id belongs to (twitch, kick, youtube or pullKey)
+const getRTIRLPlatform = (): string => {
+  return import.meta.env.VITE_RTIRL_PLATFORM || 'twitch';
+};
+
+// Slippy-map tile template ({z}/{x}/{y}, optional {s} subdomain)
+// Point VITE_MAP_TILE_URL at a locally hosted tile server to avoid rate limits
+const getMapTileUrl = (): string => {
+  return (
+    import.meta.env.VITE_MAP_TILE_URL ||
+    'https://tile.openstreetmap.org/{z}/{x}/{y}.png'
+  );
+};
+
 const isDemoMode = (): boolean => {
   return (
     import.meta.env.VITE_DEMO_MODE === 'true' ||
@@ -18,7 +32,12 @@ export const CONFIG: ConfigType = {
   // RTIRL Configuration
   rtirl: {
     userId: getRTIRLUserId(),
+    platform: getRTIRLPlatform(), // Overridable via ?platform=, ?userId=, ?pullKey=
+    pullKey: import.meta.env.VITE_RTIRL_PULL_KEY || '',
     demoMode: isDemoMode(),
+    staleAfterMs: 30000, // No fix for this long marks the feed stale (?staleAfter=)
+    reconnectBaseMs: 5000, // First re-attach delay once stale, doubling each try
+    reconnectMaxMs: 300000, // Backoff cap
   },
 
   // Trip Progress Configuration
@@ -26,12 +45,26 @@ export const CONFIG: ConfigType = {
     totalDistanceKm: 371.0, // Distance from Vienna to Zagreb
     useAutoStart: false,
     manualStartLocation: { lat: 48.209, lon: 16.3531 }, // Vienna
+    arrivalRadiusM: 500, // Auto-advance to the next route leg within this radius
+    maxOffRouteM: 2000, // Freeze along-route progress when further off the route
+    dailyReset: {
+      policy: 'midnight', // 'midnight' | 'idle' | 'manual'
+      idleHours: 6, // 'idle' policy: reset after this long without movement
+      graceHours: 6, // 'midnight' policy: no reset if active this recently
+    },
   },
 
   // Weather Configuration
   weather: {
     updateInterval: 600000, // 10 minutes
     useMetric: true,
+    hourlyDefaultHours: 4, // ?hourly=true - hours in the forecast strip
+    rainAlertHorizonMin: 120, // Warn about rain starting this far ahead
+    rainIntensityMmH: 0.2, // Nowcast intensity that counts as rain
+    rainProbabilityPct: 50, // Hourly chance that counts as rain
+    aheadDistancesKm: [25, 50, 100], // ?ahead=true - route points to forecast
+    aheadSnapKm: 5, // Route points move in steps this size as the rider rides
+    aheadQuotaReserve: 200, // API calls kept back for the rider's own weather
   },
 
   // Time Configuration
@@ -61,9 +94,31 @@ export const CONFIG: ConfigType = {
         minMovementM: 5, // Original working threshold
         gpsThrottle: 500,
         avatar: '/cycling.gif',
+        showSpeed: true,
+      },
+      MOTORBIKE: {
+        maxSpeed: 160, // Highway riding - jumps are checked against 1.5x this
+        minMovementM: 10,
+        gpsThrottle: 500,
+        avatar: '/motorbike.gif',
+        showSpeed: true,
       },
     },
     modeSwitchDelay: 10000, // Original 10 seconds
+    hysteresisKmh: 0, // Extra km/h past a threshold before switching
+    classifier: {
+      windowMs: 15000, // Rolling speed window for mode detection
+      minSamples: 3, // Full confidence needs at least this many fixes
+      minConfidence: 0.6, // Share of the window that must agree to switch
+    },
+    maxAccuracyM: 50, // Ignore fixes with worse reported accuracy
+    driftThresholdM: 8, // Movement below this around a stop is GPS drift
+    smoothing: {
+      mode: 'none', // 'kalman' filters position/speed, override with ?smoothing=
+      accelerationNoise: 1, // Process noise (m/s²) - higher follows turns faster
+      reportedSpeedNoiseKmh: 3, // Trust in the device-reported speed
+      maxGapMs: 60000, // Restart the filter after a gap this long
+    },
   },
 
   // Performance Configuration
@@ -71,6 +126,24 @@ export const CONFIG: ConfigType = {
     uiUpdateDebounce: 100,
     saveDebounceDelay: 500,
   },
+
+  // Elevation Configuration
+  elevation: {
+    noiseThresholdM: 10, // Climbs/descents smaller than this are GPS noise
+    sampleIntervalMs: 60000, // One sparkline point per minute
+    maxSamples: 1440, // A full day of sparkline points
+    lookupIntervalMs: 60000, // ?dem=true: at most one /elevation lookup per minute
+    lookupMinMoveM: 50, // ...and only after moving this far
+  },
+
+  // Mini-map Configuration
+  map: {
+    tileUrl: getMapTileUrl(),
+    attribution: '© OpenStreetMap contributors',
+    zoom: 14,
+    sizePx: 300,
+    maxBreadcrumbPoints: 5000, // Live breadcrumb is decimated beyond this
+  },
 };
 
 // Weather condition mapping for OpenWeatherMap codes (fallback emojis)
@@ -0,0 +1,217 @@
+// Daily Reset Policy - when the "today" counter starts over
+// Evaluated in the rider's timezone, not the (cloud) OBS machine's
+
+import { CONFIG } from './config';
+import { logger } from './logger';
+import type { Coordinates } from '../types/config';
+
+export type DailyResetPolicy = 'midnight' | 'idle' | 'manual';
+
+export interface DailyResetSettings {
+  policy: DailyResetPolicy;
+  idleHours: number;
+  graceHours: number;
+  timezone: string | null; // Explicit override (?resetTimezone=)
+}
+
+export interface DailyResetDecision {
+  shouldReset: boolean;
+  rule: 'midnight' | 'idle' | null;
+  reason: string;
+}
+
+const TIMEZONE_STORAGE_KEY = 'tripOverlayTimezone';
+const POLICIES: DailyResetPolicy[] = ['midnight', 'idle', 'manual'];
+
+let cachedSettings: DailyResetSettings | null = null;
+let lastKnownPosition: Coordinates | null = null;
+
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Reset settings from CONFIG, overridable via URL parameters:
+ * ?dailyReset=midnight|idle|manual&resetIdleHours=8&resetGraceHours=0
+ * &resetTimezone=Europe/Vienna
+ */
+export const getDailyResetSettings = (): DailyResetSettings => {
+  if (cachedSettings) {
+    return cachedSettings;
+  }
+
+  const urlParams = new URLSearchParams(window.location.search);
+  const settings: DailyResetSettings = {
+    policy: CONFIG.trip.dailyReset.policy,
+    idleHours: CONFIG.trip.dailyReset.idleHours,
+    graceHours: CONFIG.trip.dailyReset.graceHours,
+    timezone: null,
+  };
+
+  const policy = urlParams.get('dailyReset');
+  if (policy) {
+    if ((POLICIES as string[]).includes(policy)) {
+      settings.policy = policy as DailyResetPolicy;
+    } else {
+      logger.warn(
+        'Invalid dailyReset parameter:',
+        policy,
+        `(must be ${POLICIES.join(', ')})`
+      );
+    }
+  }
+
+  const idleHours = parseFloat(urlParams.get('resetIdleHours') || '');
+  if (!isNaN(idleHours) && idleHours > 0 && idleHours <= 72) {
+    settings.idleHours = idleHours;
+  }
+
+  const graceHours = parseFloat(urlParams.get('resetGraceHours') || '');
+  if (!isNaN(graceHours) && graceHours >= 0 && graceHours <= 24) {
+    settings.graceHours = graceHours;
+  }
+
+  const timezone = urlParams.get('resetTimezone');
+  if (timezone) {
+    if (isValidTimezone(timezone)) {
+      settings.timezone = timezone;
+    } else {
+      logger.warn('Invalid resetTimezone parameter:', timezone);
+    }
+  }
+
+  cachedSettings = settings;
+  return settings;
+};
+
+/**
+ * Remember the rider's timezone from weather data (OWM `timezone` field)
+ */
+export const rememberRiderTimezone = (timezone: string | undefined): void => {
+  if (!timezone || !isValidTimezone(timezone)) {
+    return;
+  }
+  if (localStorage.getItem(TIMEZONE_STORAGE_KEY) !== timezone) {
+    localStorage.setItem(TIMEZONE_STORAGE_KEY, timezone);
+    logger(`🕐 Timezone: Rider timezone is now ${timezone}`);
+  }
+};
+
+// Keep the latest fix for the longitude-based timezone estimate
+export const setRiderPosition = (position: Coordinates): void => {
+  lastKnownPosition = position;
+};
+
+/**
+ * Rider timezone - URL override, then weather timezone, then a rough
+ * longitude estimate (Etc/GMT±N), then the browser's own timezone
+ */
+export const getRiderTimezone = (): string => {
+  const { timezone } = getDailyResetSettings();
+  if (timezone) {
+    return timezone;
+  }
+
+  const stored = localStorage.getItem(TIMEZONE_STORAGE_KEY);
+  if (stored && isValidTimezone(stored)) {
+    return stored;
+  }
+
+  if (lastKnownPosition) {
+    const offsetHours = Math.round(lastKnownPosition.lon / 15);
+    // Etc/GMT zones use inverted signs (Etc/GMT-2 is UTC+2)
+    const estimated =
+      offsetHours === 0
+        ? 'Etc/GMT'
+        : `Etc/GMT${offsetHours > 0 ? '-' : '+'}${Math.abs(offsetHours)}`;
+    if (isValidTimezone(estimated)) {
+      return estimated;
+    }
+  }
+
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+};
+
+// Calendar day (YYYY-MM-DD) of a timestamp in the given timezone
+export const getDayInTimezone = (
+  timestamp: number,
+  timezone: string
+): string => {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date(timestamp));
+};
+
+// Calendar day in the rider's timezone
+export const getRiderDay = (timestamp: number): string => {
+  return getDayInTimezone(timestamp, getRiderTimezone());
+};
+
+/**
+ * Decide whether today's distance should reset
+ * - midnight: the rider-local date changed since the last reset, unless the
+ *   rider was active within graceHours (a late ride past midnight still
+ *   belongs to the previous day)
+ * - idle: no accepted GPS movement for idleHours since the last reset
+ * - manual: never resets automatically
+ */
+export const evaluateDailyReset = (
+  lastResetAt: number,
+  lastActiveAt: number | null,
+  settings: DailyResetSettings = getDailyResetSettings(),
+  now = Date.now()
+): DailyResetDecision => {
+  const idleMs = lastActiveAt !== null ? now - lastActiveAt : Infinity;
+  const idleHoursText = isFinite(idleMs)
+    ? `${(idleMs / 3600000).toFixed(1)}h idle`
+    : 'no activity recorded';
+
+  switch (settings.policy) {
+    case 'manual':
+      return { shouldReset: false, rule: null, reason: 'manual policy' };
+
+    case 'idle': {
+      const wasActiveSinceReset =
+        lastActiveAt !== null && lastActiveAt > lastResetAt;
+      if (wasActiveSinceReset && idleMs >= settings.idleHours * 3600000) {
+        return {
+          shouldReset: true,
+          rule: 'idle',
+          reason: `${idleHoursText} (limit ${settings.idleHours}h)`,
+        };
+      }
+      return { shouldReset: false, rule: null, reason: idleHoursText };
+    }
+
+    case 'midnight':
+    default: {
+      const timezone = getRiderTimezone();
+      const lastResetDay = getDayInTimezone(lastResetAt, timezone);
+      const today = getDayInTimezone(now, timezone);
+      if (lastResetDay === today) {
+        return { shouldReset: false, rule: null, reason: 'same day' };
+      }
+      if (idleMs < settings.graceHours * 3600000) {
+        return {
+          shouldReset: false,
+          rule: null,
+          reason: `new day but active within ${settings.graceHours}h grace`,
+        };
+      }
+      return {
+        shouldReset: true,
+        rule: 'midnight',
+        reason: `${lastResetDay} → ${today} in ${timezone}, ${idleHoursText}`,
+      };
+    }
+  }
+};
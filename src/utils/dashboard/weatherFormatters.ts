@@ -4,15 +4,37 @@
  */
 
 import React from 'react';
+import type {
+  PrecipitationUnit,
+  TemperatureUnit,
+  WeatherCondition,
+  WeatherData,
+  WindUnit,
+} from '../../types/weather';
+import {
+  formatPrecipitation,
+  formatTemperature,
+  formatWindSpeed,
+} from '../weatherUnits';
+
+type MaybeWeather = WeatherData | null | undefined;
 
 // Weather icon component with React-friendly error handling
-export function getWeatherIcon(weatherData: any): React.ReactElement | string {
-  if (!weatherData?.current?.weather?.[0]?.icon) {
+export function getWeatherIcon(
+  weatherData: MaybeWeather
+): React.ReactElement | string {
+  if (!weatherData?.current?.condition?.icon) {
     return '🌍'; // Fallback icon when no data
   }
+  return getConditionIcon(weatherData.current.condition);
+}
 
-  const iconCode = weatherData.current.weather[0].icon;
-  const { description } = weatherData.current.weather[0];
+// Icon for any condition - compact for the hourly forecast strip
+export function getConditionIcon(
+  condition: WeatherCondition,
+  compact: boolean = false
+): React.ReactElement {
+  const { icon: iconCode, description } = condition;
 
   // Emoji mapping for fallback (when image fails to load)
   const emojiMap: { [key: string]: string } = {
@@ -44,6 +66,7 @@ export function getWeatherIcon(weatherData: any): React.ReactElement | string {
     iconUrl: `https://openweathermap.org/img/wn/${iconCode}@2x.png`,
     alt: description,
     fallbackEmoji: emojiIcon,
+    compact,
   });
 }
 
@@ -51,11 +74,13 @@ export function getWeatherIcon(weatherData: any): React.ReactElement | string {
 function WeatherIconWithFallback({ 
   iconUrl, 
   alt, 
-  fallbackEmoji 
+  fallbackEmoji,
+  compact,
 }: { 
   iconUrl: string; 
   alt: string; 
   fallbackEmoji: string; 
+  compact: boolean;
 }) {
   const [imageError, setImageError] = React.useState(false);
 
@@ -66,14 +91,18 @@ function WeatherIconWithFallback({
 
   if (imageError) {
     return React.createElement('span', {
-      className: 'text-[1.8em] flex items-center leading-none mr-1 font-emoji drop-shadow-[0_2px_8px_rgba(0,0,0,0.7)]'
+      className: compact
+        ? 'text-[1.2em] flex items-center leading-none font-emoji drop-shadow-[0_2px_8px_rgba(0,0,0,0.7)]'
+        : 'text-[1.8em] flex items-center leading-none mr-1 font-emoji drop-shadow-[0_2px_8px_rgba(0,0,0,0.7)]'
     }, fallbackEmoji);
   }
 
   return React.createElement('img', {
     src: iconUrl,
     alt: alt,
-    className: 'w-[2.2em] h-[2.2em] object-contain flex-shrink-0',
+    className: compact
+      ? 'w-[1.6em] h-[1.6em] object-contain flex-shrink-0'
+      : 'w-[2.2em] h-[2.2em] object-contain flex-shrink-0',
     onError: () => setImageError(true),
     onLoad: () => setImageError(false),
   });
@@ -81,52 +110,49 @@ function WeatherIconWithFallback({
 
 // Temperature formatting (extracted from original)
 export function getWeatherTemp(
-  weatherData: any,
-  units: string = 'metric'
+  weatherData: MaybeWeather,
+  unit: TemperatureUnit = 'c'
 ): string {
-  if (!weatherData?.current?.temp) {
+  if (weatherData?.current?.temp === undefined) {
     return '--°';
   }
-  const unit = units === 'imperial' ? '°F' : units === 'standard' ? 'K' : '°C';
-  return `${weatherData.current.temp.toFixed(1)}${unit}`;
+  return formatTemperature(weatherData.current.temp, unit);
 }
 
 // High/Low temperature formatting (extracted from original)
 export function getWeatherHighLow(
-  weatherData: any,
-  units: string = 'metric'
+  weatherData: MaybeWeather,
+  unit: TemperatureUnit = 'c'
 ): string {
   if (!weatherData?.daily?.[0]) {
     return '';
   }
-  const unit = units === 'imperial' ? '°F' : units === 'standard' ? 'K' : '°C';
-  const high = weatherData.daily[0].temp.max.toFixed(1);
-  const low = weatherData.daily[0].temp.min.toFixed(1);
-  return `${high}${unit} / ${low}${unit}`;
+  const high = formatTemperature(weatherData.daily[0].tempMax, unit);
+  const low = formatTemperature(weatherData.daily[0].tempMin, unit);
+  return `${high} / ${low}`;
 }
 
 // Weather description formatting (extracted from original)
-export function getWeatherDesc(weatherData: any): string {
-  if (!weatherData?.current?.weather?.[0]?.description) {
+export function getWeatherDesc(weatherData: MaybeWeather): string {
+  if (!weatherData?.current?.condition?.description) {
     return '';
   }
-  return weatherData.current.weather[0].description;
+  return weatherData.current.condition.description;
 }
 
 // Feels like temperature (extracted from original)
 export function getWeatherFeelsLike(
-  weatherData: any,
-  units: string = 'metric'
+  weatherData: MaybeWeather,
+  unit: TemperatureUnit = 'c'
 ): string | null {
-  if (weatherData?.current?.feels_like === undefined) {
+  if (weatherData?.current?.feelsLike === undefined) {
     return null;
   }
-  const unit = units === 'imperial' ? '°F' : units === 'standard' ? 'K' : '°C';
-  return `${weatherData.current.feels_like.toFixed(1)}${unit}`;
+  return formatTemperature(weatherData.current.feelsLike, unit);
 }
 
 // Humidity formatting (extracted from original)
-export function getWeatherHumidity(weatherData: any): string | null {
+export function getWeatherHumidity(weatherData: MaybeWeather): string | null {
   if (weatherData?.current?.humidity === undefined) {
     return null;
   }
@@ -134,25 +160,42 @@ export function getWeatherHumidity(weatherData: any): string | null {
 }
 
 // Wind formatting with direction (extracted from original)
-export function getWeatherWind(weatherData: any): string | null {
-  if (weatherData?.current?.wind_speed === undefined) {
+export function getWeatherWind(
+  weatherData: MaybeWeather,
+  unit: WindUnit = 'kmh'
+): string | null {
+  if (weatherData?.current?.windSpeed === undefined) {
     return null;
   }
 
-  const windSpeed = (weatherData.current.wind_speed * 3.6).toFixed(1); // Convert m/s to km/h
-  let wind = `${windSpeed} km/h`;
+  let wind = formatWindSpeed(weatherData.current.windSpeed, unit);
 
-  if (weatherData.current.wind_deg !== undefined) {
-    const direction = degToCompass(weatherData.current.wind_deg);
+  if (weatherData.current.windDeg !== null) {
+    const direction = degToCompass(weatherData.current.windDeg);
     wind += ` ${direction}`;
   }
 
   return wind;
 }
 
+// Current rain/snow intensity ("1.2 mm/h") - null when dry
+export function getWeatherPrecipitation(
+  weatherData: MaybeWeather,
+  unit: PrecipitationUnit = 'mm'
+): string | null {
+  const intensity = weatherData?.current?.precipitationMmH;
+  if (!intensity) {
+    return null;
+  }
+  return `${formatPrecipitation(intensity, unit)}/h`;
+}
+
 // UV Index formatting (extracted from original)
-export function getWeatherUvi(weatherData: any): string | null {
-  if (weatherData?.current?.uvi === undefined) {
+export function getWeatherUvi(weatherData: MaybeWeather): string | null {
+  if (
+    weatherData?.current?.uvi === undefined ||
+    weatherData.current.uvi === null
+  ) {
     return null;
   }
   return weatherData.current.uvi.toFixed(1);
@@ -0,0 +1,17 @@
+// Browser file download helper used by the export commands
+
+export const downloadFile = (
+  content: string,
+  fileName: string,
+  type: string
+): void => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,80 @@
+// Elevation - current altitude, daily ascent/descent and the sparkline
+// GPS altitude wanders by several meters while standing still, so climbs are
+// only counted once they exceed CONFIG.elevation.noiseThresholdM
+
+import { CONFIG } from './config';
+import type { ElevationDay } from '../types/trip';
+
+let cachedLookupEnabled: boolean | null = null;
+
+/**
+ * ?dem=true - look altitude up via /elevation when the feed has none
+ */
+export const isElevationLookupEnabled = (): boolean => {
+  if (cachedLookupEnabled === null) {
+    cachedLookupEnabled =
+      new URLSearchParams(window.location.search).get('dem') === 'true';
+  }
+  return cachedLookupEnabled;
+};
+
+/**
+ * Add one altitude reading to a day's statistics. A new date starts a
+ * fresh day. Ascent/descent use hysteresis: turning from climbing to
+ * descending (or starting) needs noiseThresholdM, while new highs on a
+ * climb (or lows on a descent) count right away.
+ */
+export const applyAltitude = (
+  day: ElevationDay | null,
+  date: string,
+  altitudeM: number,
+  timestamp: number,
+  settings = CONFIG.elevation
+): ElevationDay => {
+  if (!day || day.date !== date) {
+    return {
+      date,
+      currentM: altitudeM,
+      ascentM: 0,
+      descentM: 0,
+      anchorM: altitudeM,
+      trend: null,
+      minM: altitudeM,
+      maxM: altitudeM,
+      samples: [{ timestamp, altitudeM }],
+    };
+  }
+
+  let { ascentM, descentM, anchorM, trend } = day;
+  const delta = altitudeM - anchorM;
+  if (delta > 0 && (trend === 'up' || delta >= settings.noiseThresholdM)) {
+    ascentM += delta;
+    anchorM = altitudeM;
+    trend = 'up';
+  } else if (
+    delta < 0 &&
+    (trend === 'down' || -delta >= settings.noiseThresholdM)
+  ) {
+    descentM -= delta;
+    anchorM = altitudeM;
+    trend = 'down';
+  }
+
+  const lastSample = day.samples[day.samples.length - 1];
+  const samples =
+    !lastSample || timestamp - lastSample.timestamp >= settings.sampleIntervalMs
+      ? [...day.samples, { timestamp, altitudeM }].slice(-settings.maxSamples)
+      : day.samples;
+
+  return {
+    ...day,
+    currentM: altitudeM,
+    ascentM,
+    descentM,
+    anchorM,
+    trend,
+    minM: Math.min(day.minM, altitudeM),
+    maxM: Math.max(day.maxM, altitudeM),
+    samples,
+  };
+};
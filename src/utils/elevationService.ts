@@ -0,0 +1,98 @@
+import { logger } from './logger';
+import type { Coordinates } from '../types/config';
+
+// Server response from functions/elevation.js
+interface ElevationResponse {
+  elevation: number | null;
+  provider: string;
+}
+
+/**
+ * Elevation Service - terrain altitude from the /elevation function
+ *
+ * Used when the location feed carries no altitude (?dem=true). The function
+ * asks a self-hosted DEM (ELEVATION_API_URL) or Open-Meteo, so no key is
+ * needed in the browser. Results are cached per ~100 m cell.
+ */
+class ElevationService {
+  private cache = new Map<string, number>();
+  private pendingRequests = new Map<string, Promise<number | null>>();
+
+  // Configuration
+  private readonly MAX_CACHE_SIZE = 500;
+  private readonly REQUEST_TIMEOUT = 5000; // 5 seconds
+
+  // Round to 3 decimal places (~100m) - terrain rarely differs much within
+  private getCacheKey(coordinates: Coordinates): string {
+    const lat = Math.round(coordinates.lat * 1000) / 1000;
+    const lon = Math.round(coordinates.lon * 1000) / 1000;
+    return `${lat},${lon}`;
+  }
+
+  /**
+   * Altitude in meters at `coordinates`, or null if the lookup failed
+   */
+  async lookup(coordinates: Coordinates): Promise<number | null> {
+    const key = this.getCacheKey(coordinates);
+    const cached = this.cache.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const pending = this.pendingRequests.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const request = this.fetchElevation(coordinates)
+      .then(elevation => {
+        if (elevation !== null) {
+          if (this.cache.size >= this.MAX_CACHE_SIZE) {
+            this.cache.clear();
+          }
+          this.cache.set(key, elevation);
+        }
+        return elevation;
+      })
+      .catch(error => {
+        logger.warn('[ElevationService] Lookup failed:', error);
+        return null;
+      })
+      .finally(() => this.pendingRequests.delete(key));
+
+    this.pendingRequests.set(key, request);
+    return request;
+  }
+
+  private async fetchElevation(
+    coordinates: Coordinates
+  ): Promise<number | null> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.REQUEST_TIMEOUT);
+    try {
+      const response = await fetch(
+        `/elevation?lat=${coordinates.lat}&lon=${coordinates.lon}`,
+        { signal: controller.signal }
+      );
+      if (!response.ok) {
+        throw new Error(
+          `Server elevation error: ${response.status} ${response.statusText}`
+        );
+      }
+
+      const data: ElevationResponse = await response.json();
+      if (typeof data.elevation !== 'number' || !isFinite(data.elevation)) {
+        return null;
+      }
+      logger(
+        `[ElevationService] ${data.elevation.toFixed(0)}m via ${data.provider}`
+      );
+      return data.elevation;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// Export singleton instance
+export const elevationService = new ElevationService();
@@ -26,6 +26,22 @@ export const calculateDistance = (
   return Math.max(0, R * c); // Ensure non-negative distance
 };
 
+// Initial bearing from pos1 to pos2 in degrees (0 = north, clockwise)
+export const calculateBearing = (
+  pos1: Coordinates,
+  pos2: Coordinates
+): number => {
+  const lat1 = (pos1.lat * Math.PI) / 180;
+  const lat2 = (pos2.lat * Math.PI) / 180;
+  const dLon = ((pos2.lon - pos1.lon) * Math.PI) / 180;
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x =
+    Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
+
 // Validate GPS coordinates
 export const isValidGPS = (lat: number, lon: number): boolean => {
   return (
@@ -0,0 +1,255 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { GpsEngine, type GpsRejectReason } from './gpsEngine';
+import { DEFAULT_MOVEMENT_PROFILE } from './movementProfile';
+import type { Coordinates } from '../types/config';
+import type { LocationData } from '../types/rtirl';
+import type { MovementMode } from '../types/trip';
+
+const START: Coordinates = { lat: 47.07, lon: 15.44 };
+const KM_PER_DEGREE_LAT = 111.195; // calculateDistance uses R = 6371 km
+
+interface Fix {
+  time: number;
+  km?: number; // North of START
+  accuracy?: number;
+  speed?: number; // Reported km/h
+}
+
+/**
+ * Engine on a virtual clock - timers run when fixes pass their due time
+ */
+const createHarness = (modeSwitchDelayMs = 10000) => {
+  let clock = 0;
+  let timers: Array<{ at: number; callback: () => void }> = [];
+  const engine = new GpsEngine({
+    startLocation: START,
+    profile: DEFAULT_MOVEMENT_PROFILE,
+    smoothing: 'none',
+    modeSwitchDelayMs,
+    now: () => clock,
+    schedule: (callback, delayMs) => {
+      const timer = { at: clock + delayMs, callback };
+      timers.push(timer);
+      return () => {
+        timers = timers.filter(candidate => candidate !== timer);
+      };
+    },
+  });
+
+  const result = {
+    distanceKm: 0,
+    maxSpeedKmh: 0,
+    modes: [] as Array<{ mode: MovementMode; delayed: boolean; at: number }>,
+    rejected: {} as Partial<Record<GpsRejectReason, number>>,
+  };
+  engine.on('distance', ({ distanceKm }) => {
+    result.distanceKm += distanceKm;
+  });
+  engine.on('speed', ({ speedKmh }) => {
+    result.maxSpeedKmh = Math.max(result.maxSpeedKmh, speedKmh);
+  });
+  engine.on('mode', ({ mode, delayed }) => {
+    result.modes.push({ mode, delayed, at: clock });
+  });
+  engine.on('rejected', ({ reason }) => {
+    result.rejected[reason] = (result.rejected[reason] ?? 0) + 1;
+  });
+
+  const advanceTo = (time: number) => {
+    let due = timers.filter(timer => timer.at <= time);
+    while (due.length > 0) {
+      const next = due.reduce((a, b) => (b.at < a.at ? b : a));
+      timers = timers.filter(timer => timer !== next);
+      clock = next.at;
+      next.callback();
+      due = timers.filter(timer => timer.at <= time);
+    }
+    clock = Math.max(clock, time);
+  };
+
+  const send = ({ time, km = 0, accuracy = 5, speed = 0 }: Fix) => {
+    advanceTo(time);
+    const data: LocationData = {
+      latitude: START.lat + km / KM_PER_DEGREE_LAT,
+      longitude: START.lon,
+      accuracy,
+      speed,
+      timestamp: time,
+      receivedAt: time,
+      source: 'replay',
+    };
+    engine.process(data);
+  };
+
+  return { engine, result, send, advanceTo };
+};
+
+// One fix per second northwards at a steady speed
+const ride = (
+  send: (fix: Fix) => void,
+  fromS: number,
+  toS: number,
+  speedKmh: number,
+  startKm = 0,
+  accuracy = 5
+) => {
+  for (let s = fromS; s <= toS; s++) {
+    send({
+      time: s * 1000,
+      km: startKm + ((s - fromS) * speedKmh) / 3600,
+      speed: speedKmh,
+      accuracy,
+    });
+  }
+};
+
+describe('GpsEngine', () => {
+  let dispose: (() => void) | null = null;
+  afterEach(() => {
+    dispose?.();
+    dispose = null;
+  });
+
+  it('throttles fixes per mode', () => {
+    const { engine, result, send } = createHarness();
+    dispose = () => engine.dispose();
+
+    // STATIONARY only takes a fix every 5s
+    for (let s = 1; s <= 10; s++) {
+      send({ time: s * 1000 });
+    }
+
+    expect(result.rejected.throttled).toBe(8);
+  });
+
+  it('treats small movement around a stop as drift', () => {
+    const { engine, result, send } = createHarness();
+    dispose = () => engine.dispose();
+
+    const jitterKm = [0, 0.003, -0.002, 0.004, -0.003, 0.001];
+    jitterKm.forEach((km, index) => send({ time: (index + 1) * 15000, km }));
+
+    expect(result.distanceKm).toBe(0);
+    expect(result.rejected.drift).toBe(jitterKm.length - 1);
+    expect(engine.getMode()).toBe('STATIONARY');
+  });
+
+  it('ignores movement below the mode minimum as noise', () => {
+    const { engine, result, send } = createHarness();
+    dispose = () => engine.dispose();
+
+    // Moving speed rules out drift; 0.5m is under STATIONARY's 1m minimum
+    send({ time: 6000, km: 0 });
+    send({ time: 12000, km: 0.0005, speed: 5 });
+
+    expect(result.rejected.noise).toBe(1);
+    expect(result.distanceKm).toBe(0);
+  });
+
+  it('measures a steady ride and switches up without delay', () => {
+    const { engine, result, send } = createHarness();
+    dispose = () => engine.dispose();
+
+    ride(send, 1, 120, 20);
+
+    expect(engine.getMode()).toBe('CYCLING');
+    expect(result.modes.every(change => !change.delayed)).toBe(true);
+    // Fixes throttled while still STATIONARY never count
+    expect(result.distanceKm).toBeGreaterThan(0.6);
+    expect(result.distanceKm).toBeLessThan((119 * 20) / 3600 + 0.001);
+    expect(result.maxSpeedKmh).toBeLessThan(21);
+    expect(result.rejected.jump).toBeUndefined();
+  });
+
+  it('rejects a position jump beyond the mode max speed', () => {
+    const { engine, result, send } = createHarness();
+    dispose = () => engine.dispose();
+
+    ride(send, 1, 60, 20);
+    const beforeKm = result.distanceKm;
+    send({ time: 61000, km: 60 / 180 + 5, speed: 20 });
+
+    expect(result.rejected.jump).toBe(1);
+    expect(result.distanceKm).toBe(beforeKm);
+  });
+
+  it('waits modeSwitchDelayMs before slowing down', () => {
+    const { engine, result, send } = createHarness(10000);
+    dispose = () => engine.dispose();
+
+    ride(send, 1, 60, 20);
+    expect(engine.getMode()).toBe('CYCLING');
+
+    const stopKm = (59 * 20) / 3600;
+    for (let s = 61; s <= 70; s++) {
+      send({ time: s * 1000, km: stopKm });
+    }
+    // Classifier has settled on STATIONARY, but the switch is delayed
+    expect(engine.getMode()).toBe('CYCLING');
+
+    for (let s = 71; s <= 90; s++) {
+      send({ time: s * 1000, km: stopKm });
+    }
+    const last = result.modes[result.modes.length - 1];
+    expect(engine.getMode()).toBe('STATIONARY');
+    expect(last).toMatchObject({ mode: 'STATIONARY', delayed: true });
+  });
+
+  it('drops stale and duplicate fixes', () => {
+    const { engine, result, send } = createHarness();
+    dispose = () => engine.dispose();
+
+    ride(send, 1, 30, 20);
+    const beforeKm = result.distanceKm;
+    send({ time: 30000, km: 0.2, speed: 20 });
+    send({ time: 20000, km: 0.3, speed: 20 });
+
+    expect(result.rejected.duplicate).toBe(1);
+    expect(result.rejected.stale).toBe(1);
+    expect(result.distanceKm).toBe(beforeKm);
+  });
+
+  it('restarts measurement when the fix clock jumps back', () => {
+    const { engine, result, send } = createHarness();
+    dispose = () => engine.dispose();
+
+    ride(send, 600, 660, 20);
+    const beforeKm = result.distanceKm;
+
+    // Ten minutes back and 2km away - neither stale nor a jump
+    send({ time: 1000, km: 2, speed: 20 });
+    expect(result.rejected.stale).toBeUndefined();
+    expect(result.rejected.jump).toBeUndefined();
+    expect(result.distanceKm).toBe(beforeKm);
+
+    // Measurement continues from the new clock
+    ride(send, 2, 30, 20, 2 + 20 / 3600);
+    expect(result.distanceKm).toBeGreaterThan(beforeKm);
+    expect(result.rejected.stale).toBeUndefined();
+  });
+
+  it('measures across a burst of inaccurate fixes', () => {
+    const { engine, result, send } = createHarness();
+    dispose = () => engine.dispose();
+
+    // 20 km/h with 20 consecutive fixes at 80m accuracy in the middle
+    ride(send, 1, 60, 20);
+    ride(send, 61, 80, 20, (60 * 20) / 3600, 80);
+    ride(send, 81, 120, 20, (80 * 20) / 3600);
+
+    expect(result.rejected.accuracy).toBe(20);
+    expect(result.rejected.jump).toBeUndefined();
+    expect(result.maxSpeedKmh).toBeLessThan(21);
+    // The gap counts in full once a good fix arrives
+    const withBurst = result.distanceKm;
+    const {
+      engine: reference,
+      result: clean,
+      send: sendClean,
+    } = createHarness();
+    ride(sendClean, 1, 120, 20);
+    reference.dispose();
+    expect(withBurst).toBeCloseTo(clean.distanceKm, 3);
+  });
+});
@@ -0,0 +1,530 @@
+// GPS Engine - framework-agnostic movement detection
+// Single pipeline shared by useGPSProcessor (Zustand) and useTripOverlay
+// (local state): throttling, validation, speed, mode, drift and jump checks
+
+import { calculateDistance, isValidCoordinates } from './gps';
+import { CONFIG } from './config';
+import { KalmanFilter, type SmoothingMode } from './kalmanFilter';
+import { ModeClassifier } from './modeClassifier';
+import {
+  getModeProfile,
+  getModeRank,
+  getMovementProfile,
+  getStoppedMode,
+} from './movementProfile';
+import { logger } from './logger';
+import type { Coordinates } from '../types/config';
+import type { LocationData } from '../types/rtirl';
+import type {
+  MovementMode,
+  MovementModeProfile,
+  MovementProfile,
+} from '../types/trip';
+
+export type GpsRejectReason =
+  | 'stale'
+  | 'duplicate'
+  | 'throttled'
+  | 'invalid'
+  | 'accuracy'
+  | 'drift'
+  | 'noise'
+  | 'jump';
+
+export interface GpsPositionEvent {
+  position: Coordinates;
+  accuracy: number | null;
+  timestamp: number;
+}
+
+export interface GpsSpeedEvent {
+  speedKmh: number;
+  reportedSpeedKmh: number;
+  calculatedSpeedKmh: number;
+  mode: MovementMode;
+  confidence: number;
+  isMoving: boolean;
+}
+
+export interface GpsModeEvent {
+  mode: MovementMode;
+  previousMode: MovementMode;
+  speedKmh: number;
+  confidence: number;
+  delayed: boolean;
+}
+
+export interface GpsDistanceEvent {
+  distanceKm: number;
+  durationMs: number;
+  speedKmh: number;
+  mode: MovementMode;
+  position: Coordinates;
+  accuracy: number | null;
+  timestamp: number;
+}
+
+export interface GpsRejectEvent {
+  reason: GpsRejectReason;
+  detail: string;
+  data: LocationData;
+}
+
+interface GpsEngineEvents {
+  position: GpsPositionEvent;
+  start: GpsPositionEvent;
+  speed: GpsSpeedEvent;
+  mode: GpsModeEvent;
+  distance: GpsDistanceEvent;
+  rejected: GpsRejectEvent;
+}
+
+type Listener<T> = (event: T) => void;
+
+export interface GpsEngineOptions {
+  // Clock for fixes without a timestamp, and injectable timers so the engine
+  // can run recorded fixes on a virtual clock
+  now?: () => number;
+  schedule?: (callback: () => void, delayMs: number) => () => void;
+  startLocation?: Coordinates | null;
+  modeSwitchDelayMs?: number;
+  maxAccuracyM?: number;
+  driftThresholdM?: number;
+  throttle?: boolean;
+  smoothing?: SmoothingMode;
+  // Fixed profile - otherwise the active (console/URL) profile is used live
+  profile?: MovementProfile;
+}
+
+// A fix this much older than the last one is a clock change (replay ended,
+// device clock corrected), not a late arrival - start measuring afresh
+const CLOCK_JUMP_MS = 5 * 60 * 1000;
+
+const defaultSchedule = (callback: () => void, delayMs: number) => {
+  const timeoutId = setTimeout(callback, delayMs);
+  return () => clearTimeout(timeoutId);
+};
+
+/**
+ * GPS Engine
+ *
+ * Takes LocationData (speed already in km/h - converted once by
+ * normalizeRtirlPayload) and emits position/speed/mode/distance events.
+ * - Modes and thresholds come from the movement profile; the mode is
+ *   classified over a rolling speed window with a confidence score
+ * - Speeding up switches mode immediately; slowing down waits
+ *   modeSwitchDelayMs so traffic lights don't flicker the avatar
+ * - Small movements around a stationary center are treated as GPS drift
+ * - Distances beyond 1.5x the mode's max speed are treated as GPS jumps
+ * - Fixes are timed by their own (device) timestamp; ones older than or as
+ *   old as the last processed fix arrived out of order and are dropped
+ * - With smoothing 'kalman', position and speed come from a Kalman filter
+ *   instead of the legacy max(reported, calculated) speed
+ */
+export class GpsEngine {
+  private listeners = new Map<keyof GpsEngineEvents, Set<Listener<never>>>();
+
+  private readonly now: () => number;
+  private readonly schedule: (
+    callback: () => void,
+    delayMs: number
+  ) => () => void;
+  private readonly modeSwitchDelayMs: number | null;
+  private readonly maxAccuracyM: number;
+  private readonly driftThresholdM: number;
+  private readonly throttle: boolean;
+  private readonly filter: KalmanFilter | null;
+  private readonly profile: MovementProfile | null;
+  private readonly classifier = new ModeClassifier();
+
+  private mode: MovementMode;
+  private confidence = 0;
+  private candidateMode: MovementMode;
+  private lastPosition: Coordinates | null = null;
+  private lastTimestamp = 0;
+  private startLocation: Coordinates | null;
+  private stationaryCenter: Coordinates | null = null;
+  private cancelModeSwitch: (() => void) | null = null;
+  private pendingMode: MovementMode | null = null;
+  private lastThrottleLogTime = 0;
+
+  constructor(options: GpsEngineOptions = {}) {
+    this.now = options.now ?? (() => Date.now());
+    this.schedule = options.schedule ?? defaultSchedule;
+    this.startLocation =
+      options.startLocation !== undefined
+        ? options.startLocation
+        : CONFIG.trip.useAutoStart
+          ? null
+          : CONFIG.trip.manualStartLocation;
+    this.modeSwitchDelayMs = options.modeSwitchDelayMs ?? null;
+    this.maxAccuracyM = options.maxAccuracyM ?? CONFIG.movement.maxAccuracyM;
+    this.driftThresholdM =
+      options.driftThresholdM ?? CONFIG.movement.driftThresholdM;
+    this.throttle = options.throttle ?? true;
+    this.filter =
+      (options.smoothing ?? CONFIG.movement.smoothing.mode) === 'kalman'
+        ? new KalmanFilter()
+        : null;
+    this.profile = options.profile ?? null;
+    this.mode = getStoppedMode(this.getProfile()).name;
+    this.candidateMode = this.mode;
+  }
+
+  private getProfile(): MovementProfile {
+    return this.profile ?? getMovementProfile();
+  }
+
+  // Current mode's settings - falls back to the stopped mode when the
+  // profile changed and no longer has the current mode
+  private getModeProfile(): MovementModeProfile {
+    const profile = this.getProfile();
+    return (
+      profile.modes.find(mode => mode.name === this.mode) ??
+      getStoppedMode(profile)
+    );
+  }
+
+  on<K extends keyof GpsEngineEvents>(
+    event: K,
+    listener: Listener<GpsEngineEvents[K]>
+  ): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  private emit<K extends keyof GpsEngineEvents>(
+    event: K,
+    payload: GpsEngineEvents[K]
+  ): void {
+    const listeners = this.listeners.get(event) as
+      | Set<Listener<GpsEngineEvents[K]>>
+      | undefined;
+    listeners?.forEach(listener => listener(payload));
+  }
+
+  private reject(reason: GpsRejectReason, detail: string, data: LocationData) {
+    this.emit('rejected', { reason, detail, data });
+  }
+
+  getMode(): MovementMode {
+    return this.mode;
+  }
+
+  // Confidence (0-1) that the speed window matches the classified mode
+  getConfidence(): number {
+    return this.confidence;
+  }
+
+  getLastPosition(): Coordinates | null {
+    return this.lastPosition;
+  }
+
+  getStartLocation(): Coordinates | null {
+    return this.startLocation;
+  }
+
+  // Forget the last fix and its time - the next fix starts measuring afresh
+  private resetMeasurement(): void {
+    this.lastTimestamp = 0;
+    this.lastPosition = null;
+    this.stationaryCenter = null;
+    this.classifier.reset();
+    this.filter?.reset();
+  }
+
+  /**
+   * Start over like a fresh engine on a new fix clock (a replay begins) -
+   * keeps listeners and the start location, drops back to the stopped mode
+   */
+  restart(): void {
+    this.resetMeasurement();
+    this.clearPendingMode();
+    this.confidence = 0;
+    const stoppedMode = getStoppedMode(this.getProfile()).name;
+    this.candidateMode = stoppedMode;
+    if (this.mode !== stoppedMode) {
+      this.setMode(stoppedMode, 0, false);
+    }
+  }
+
+  /**
+   * Process one location update
+   */
+  process(data: LocationData): void {
+    if (!data) {
+      return;
+    }
+
+    // Fix time, so replayed sessions keep their original spacing
+    const now =
+      isFinite(data.timestamp) && data.timestamp > 0
+        ? data.timestamp
+        : this.now();
+
+    // 1. Out-of-order and duplicate fixes - speed and distance need fixes in
+    // device-time order
+    if (this.lastTimestamp > 0 && now <= this.lastTimestamp) {
+      const behindMs = this.lastTimestamp - now;
+      if (behindMs > CLOCK_JUMP_MS) {
+        logger.warn(
+          `⏱️ GPS: Fix clock jumped back ${Math.round(behindMs / 1000)}s - restarting measurement`
+        );
+        this.resetMeasurement();
+      } else if (behindMs === 0) {
+        this.reject('duplicate', `same timestamp ${now}`, data);
+        return;
+      } else {
+        this.reject('stale', `${behindMs}ms older than last fix`, data);
+        return;
+      }
+    }
+
+    // 2. Throttle per mode - still riders need far fewer updates
+    const modeConfig = this.getModeProfile();
+    if (this.throttle && now - this.lastTimestamp < modeConfig.gpsThrottle) {
+      if (now - this.lastThrottleLogTime > 10000) {
+        logger.warn('⏱️ Trip: Updates throttled (GPS throttling active)');
+        this.lastThrottleLogTime = now;
+      }
+      this.reject('throttled', `${now - this.lastTimestamp}ms`, data);
+      return;
+    }
+
+    // 3. Validate coordinates
+    const measured: Coordinates = { lat: data.latitude, lon: data.longitude };
+    if (!isValidCoordinates(measured)) {
+      logger.warn('⚠️ Trip: Invalid GPS coordinates received:', measured);
+      this.reject('invalid', 'coordinates out of range', data);
+      return;
+    }
+    if (measured.lat === 0 && measured.lon === 0) {
+      logger.warn('⚠️ Trip: Rejecting suspicious 0,0 coordinates');
+      this.reject('invalid', '0,0 coordinates', data);
+      return;
+    }
+
+    // 4. Accuracy cutoff
+    const accuracy =
+      typeof data.accuracy === 'number' && isFinite(data.accuracy)
+        ? data.accuracy
+        : null;
+    if (accuracy !== null && accuracy > this.maxAccuracyM) {
+      logger.warn(`⚠️ GPS: Poor accuracy (${accuracy}m), ignoring update`);
+      this.reject('accuracy', `${accuracy}m > ${this.maxAccuracyM}m`, data);
+      return;
+    }
+
+    // Only usable fixes move the clock - durations are measured from the fix
+    // lastPosition came from, not from a rejected one in between
+    const previousTimestamp = this.lastTimestamp;
+    this.lastTimestamp = now;
+
+    // 5. Optional smoothing - accuracy is the filter's measurement noise
+    const reportedSpeedKmh =
+      typeof data.speed === 'number' && isFinite(data.speed)
+        ? Math.max(0, data.speed)
+        : 0;
+    const estimate = this.filter
+      ? this.filter.update(measured, accuracy, now, reportedSpeedKmh)
+      : null;
+    const position = estimate ? estimate.position : measured;
+
+    this.emit('position', { position, accuracy, timestamp: now });
+
+    // 6. Auto-start location
+    if (!this.startLocation) {
+      this.startLocation = position;
+      this.lastPosition = position;
+      this.stationaryCenter = position;
+      logger(
+        `✅ Trip: Auto-detected start location - ${position.lat.toFixed(4)}, ${position.lon.toFixed(4)}`
+      );
+      this.emit('start', { position, accuracy, timestamp: now });
+      return;
+    }
+
+    // 7. First fix - nothing to measure against yet
+    if (!this.lastPosition) {
+      this.lastPosition = position;
+      this.stationaryCenter = position;
+      logger('📍 GPS: Initial position set');
+      this.emitSpeed(0, 0, 0);
+      return;
+    }
+
+    // 8. Speed - filtered, or reported (km/h) vs calculated from movement
+    const distanceKm = calculateDistance(this.lastPosition, position);
+    const durationMs = Math.max(1000, now - previousTimestamp);
+    const calculatedSpeedKmh = distanceKm / (durationMs / 3600000);
+    const speedKmh = estimate
+      ? estimate.speedKmh
+      : Math.max(reportedSpeedKmh, calculatedSpeedKmh);
+
+    // 9. Mode detection with delayed slow-down
+    this.updateMode(speedKmh, now);
+    this.emitSpeed(speedKmh, reportedSpeedKmh, calculatedSpeedKmh);
+
+    // 10. Drift - tiny movement around the stationary center at low speed
+    const stationaryMax = getStoppedMode(this.getProfile()).maxSpeed;
+    if (speedKmh < stationaryMax) {
+      if (this.stationaryCenter) {
+        const driftM =
+          calculateDistance(this.stationaryCenter, position) * 1000;
+        if (driftM < this.driftThresholdM) {
+          this.lastPosition = position;
+          this.reject('drift', `${driftM.toFixed(1)}m from center`, data);
+          return;
+        }
+      }
+      this.stationaryCenter = position;
+    } else {
+      this.stationaryCenter = null;
+    }
+
+    // 11. Noise - below the current mode's minimum movement
+    const usedModeConfig = this.getModeProfile();
+    if (distanceKm < usedModeConfig.minMovementM / 1000) {
+      this.lastPosition = position;
+      this.reject('noise', `${(distanceKm * 1000).toFixed(1)}m`, data);
+      return;
+    }
+
+    // 12. Jump - further than the mode's max speed allows. A faster mode the
+    // classifier is still gathering confidence for counts too, so the first
+    // fixes after setting off aren't discarded
+    const candidateConfig = getModeProfile(
+      this.candidateMode,
+      this.getProfile()
+    );
+    const jumpMaxSpeed = Math.max(
+      usedModeConfig.maxSpeed,
+      candidateConfig?.maxSpeed ?? 0
+    );
+    const maxReasonableKm = ((durationMs / 1000) * (jumpMaxSpeed / 3.6)) / 1000;
+    if (distanceKm > maxReasonableKm * 1.5) {
+      logger.warn(
+        `⚠️ Trip: GPS jump detected in ${this.mode} mode: ${distanceKm.toFixed(2)}km vs max ${maxReasonableKm.toFixed(2)}km - ignoring`
+      );
+      this.lastPosition = position;
+      // Re-anchor the filter so it doesn't chase the jump with a huge velocity
+      this.filter?.reset();
+      this.reject(
+        'jump',
+        `${distanceKm.toFixed(2)}km > ${maxReasonableKm.toFixed(2)}km`,
+        data
+      );
+      return;
+    }
+
+    // 13. Accepted movement
+    this.lastPosition = position;
+    this.emit('distance', {
+      distanceKm,
+      durationMs,
+      speedKmh,
+      mode: this.mode,
+      position,
+      accuracy,
+      timestamp: now,
+    });
+  }
+
+  private emitSpeed(
+    speedKmh: number,
+    reportedSpeedKmh: number,
+    calculatedSpeedKmh: number
+  ) {
+    this.emit('speed', {
+      speedKmh,
+      reportedSpeedKmh,
+      calculatedSpeedKmh,
+      mode: this.mode,
+      confidence: this.confidence,
+      isMoving: speedKmh > getStoppedMode(this.getProfile()).maxSpeed,
+    });
+  }
+
+  private setMode(mode: MovementMode, speedKmh: number, delayed: boolean) {
+    const previousMode = this.mode;
+    this.mode = mode;
+    logger(
+      `✅ GPS: Mode changed ${previousMode} → ${mode}${delayed ? ' after delay' : ''} (speed: ${speedKmh.toFixed(1)} km/h, confidence: ${Math.round(this.confidence * 100)}%)`
+    );
+    this.emit('mode', {
+      mode,
+      previousMode,
+      speedKmh,
+      confidence: this.confidence,
+      delayed,
+    });
+  }
+
+  private clearPendingMode() {
+    if (this.cancelModeSwitch) {
+      this.cancelModeSwitch();
+      this.cancelModeSwitch = null;
+    }
+    this.pendingMode = null;
+  }
+
+  private updateMode(speedKmh: number, timestamp: number) {
+    const profile = this.getProfile();
+    const classification = this.classifier.classify(
+      speedKmh,
+      timestamp,
+      this.mode,
+      profile
+    );
+    const newMode = classification.mode;
+    this.confidence = classification.confidence;
+    this.candidateMode = classification.candidate;
+
+    if (newMode === this.mode) {
+      // Speed settled back into the current mode
+      if (this.pendingMode) {
+        logger(
+          `🚫 GPS: Cancelled mode change delay (speed settled at ${speedKmh.toFixed(1)} km/h in ${newMode})`
+        );
+        this.clearPendingMode();
+      }
+      return;
+    }
+
+    const isSlowingDown =
+      getModeRank(newMode, profile) < getModeRank(this.mode, profile);
+    if (!isSlowingDown) {
+      this.clearPendingMode();
+      this.setMode(newMode, speedKmh, false);
+      return;
+    }
+
+    if (this.pendingMode === newMode) {
+      return;
+    }
+
+    this.clearPendingMode();
+    this.pendingMode = newMode;
+    const delayMs = this.modeSwitchDelayMs ?? profile.modeSwitchDelayMs;
+    logger(
+      `⏱️ GPS: Starting ${delayMs / 1000}s delay for mode change to ${newMode}`
+    );
+    this.cancelModeSwitch = this.schedule(() => {
+      this.cancelModeSwitch = null;
+      this.pendingMode = null;
+      this.setMode(newMode, speedKmh, true);
+    }, delayMs);
+  }
+
+  /**
+   * Clear pending timers and listeners
+   */
+  dispose(): void {
+    this.clearPendingMode();
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,112 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import session from '../../public/fixtures/rtirl-session-ride.json';
+import { downloadFile } from './download';
+import { GpsEngine } from './gpsEngine';
+import {
+  gpsReplay,
+  parseReplaySession,
+  replayThroughEngine,
+} from './gpsReplay';
+import { RtirlSource } from './locationSources/rtirlSource';
+import { DEFAULT_MOVEMENT_PROFILE } from './movementProfile';
+import type { LocationData } from '../types/rtirl';
+
+vi.mock('./download', () => ({ downloadFile: vi.fn() }));
+
+// Pull key documents as exportSession writes them, a fix every 2s: 30s
+// stopped, 150s riding (10s up to 18 km/h and 10s back down), 60s stopped
+const frames = parseReplaySession(session);
+const RIDDEN_KM = 0.7;
+
+describe('gpsReplay', () => {
+  it('records a live pull key feed in the fixture format', () => {
+    let emit: (data: unknown) => void = () => {};
+    window.RealtimeIRL = {
+      forStreamer: () => {
+        throw new Error('Fixture is a pull key session');
+      },
+      forPullKey: () => ({
+        addLocationListener: () => () => {},
+        addListener: callback => {
+          emit = callback;
+          return () => {};
+        },
+      }),
+    };
+    const fixes: LocationData[] = [];
+    const source = new RtirlSource({ platform: 'pullKey', id: 'test-key' });
+    source.start({
+      onLocation: data => {
+        if (data) {
+          fixes.push(data);
+        }
+      },
+      onStatus: () => {},
+      onReconnect: () => {},
+    });
+
+    vi.useFakeTimers();
+    session.frames.forEach(frame => {
+      vi.setSystemTime(frame.receivedAt);
+      emit(frame.payload);
+    });
+    vi.useRealTimers();
+    source.stop();
+    delete window.RealtimeIRL;
+    gpsReplay.exportSession();
+
+    const [content] = vi.mocked(downloadFile).mock.calls[0];
+    expect(JSON.parse(content)).toEqual(session);
+    // Live fixes are timed by the device, not on receipt
+    expect(fixes).toHaveLength(session.frames.length);
+    expect(fixes[0].timestamp).toBe(session.frames[0].payload.reportedAt);
+  });
+
+  it('parses the recorded session with its original spacing', () => {
+    expect(frames).toHaveLength(121);
+    expect(frames[0].offsetMs).toBe(0);
+    expect(frames[frames.length - 1].offsetMs).toBe(240000);
+  });
+
+  it('replays the session through the engine', () => {
+    const result = replayThroughEngine(frames, {
+      profile: DEFAULT_MOVEMENT_PROFILE,
+      smoothing: 'none',
+    });
+
+    expect(result.fixes).toBe(121);
+    // Fixes throttled before CYCLING is confirmed don't count
+    expect(result.distanceKm).toBeGreaterThan(RIDDEN_KM * 0.9);
+    expect(result.distanceKm).toBeLessThan(RIDDEN_KM * 1.05);
+    expect(result.modeChanges).toContain('CYCLING');
+    expect(result.finalMode).toBe('STATIONARY');
+  });
+
+  it('gives the same result on every replay', async () => {
+    const engine = new GpsEngine({
+      startLocation: null,
+      profile: DEFAULT_MOVEMENT_PROFILE,
+      smoothing: 'none',
+      schedule: () => () => {},
+    });
+    let distanceKm = 0;
+    engine.on('distance', event => {
+      distanceKm += event.distanceKm;
+    });
+    const handleReplayStart = () => engine.restart();
+    window.addEventListener('gpsReplayStart', handleReplayStart);
+
+    const runs: number[] = [];
+    for (let run = 0; run < 2; run++) {
+      distanceKm = 0;
+      await gpsReplay.start(frames, 'max', data => engine.process(data));
+      runs.push(distanceKm);
+    }
+
+    window.removeEventListener('gpsReplayStart', handleReplayStart);
+    engine.dispose();
+    expect(runs[0]).toBeGreaterThan(RIDDEN_KM * 0.9);
+    expect(runs[1]).toBeCloseTo(runs[0], 6);
+  });
+});
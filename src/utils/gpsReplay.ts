@@ -0,0 +1,328 @@
+// GPS Replay - recorded RTIRL sessions fed back through 'locationUpdate'
+// Reproduces a stream's GPS input with its original timing at 1x/10x/max
+// speed, and runs sessions straight through a GpsEngine for Vitest
+
+import { downloadFile } from './download';
+import {
+  GpsEngine,
+  type GpsEngineOptions,
+  type GpsRejectReason,
+} from './gpsEngine';
+import { logger } from './logger';
+import { normalizeRtirlPayload } from './rtirlPayload';
+import type { LocationData } from '../types/rtirl';
+import type { MovementMode } from '../types/trip';
+
+export type ReplaySpeed = 1 | 10 | 'max';
+
+export interface ReplayFrame {
+  offsetMs: number; // Time since the first frame
+  payload: unknown; // Raw RTIRL listener data
+}
+
+export interface ReplayResult {
+  fixes: number;
+  distanceKm: number;
+  finalMode: MovementMode;
+  modeChanges: MovementMode[];
+  rejected: Partial<Record<GpsRejectReason, number>>;
+}
+
+interface RecordedFrame {
+  receivedAt: number;
+  payload: unknown;
+}
+
+type RawObject = Record<string, unknown>;
+
+const REPLAY_SPEEDS: ReplaySpeed[] = [1, 10, 'max'];
+const MAX_FRAMES = 100000;
+const MAX_RECORDED_FRAMES = 10000;
+const DEFAULT_INTERVAL_MS = 1000;
+const MAX_SPEED_BATCH = 250;
+const FETCH_TIMEOUT = 15000;
+
+export const parseReplaySpeed = (value: unknown): ReplaySpeed | null => {
+  const speed = value === 'max' ? 'max' : Number(value);
+  return (REPLAY_SPEEDS as unknown[]).includes(speed)
+    ? (speed as ReplaySpeed)
+    : null;
+};
+
+const toTime = (value: unknown): number | undefined => {
+  if (typeof value === 'number' && isFinite(value)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const parsed = isNaN(Number(value)) ? Date.parse(value) : Number(value);
+    return isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+};
+
+/**
+ * Parse a recorded session - an array (or { frames }) of either
+ * { receivedAt, payload } entries as written by gpsReplay.exportSession, or bare
+ * RTIRL payloads carrying their own timestamp/reportedAt. Frames without any
+ * time are spaced 1s apart.
+ */
+export const parseReplaySession = (input: unknown): ReplayFrame[] => {
+  const data = typeof input === 'string' ? JSON.parse(input) : input;
+  const entries: unknown[] = Array.isArray(data)
+    ? data
+    : Array.isArray((data as RawObject | null)?.frames)
+      ? ((data as RawObject).frames as unknown[])
+      : [];
+  if (entries.length === 0) {
+    throw new Error('Replay session contains no frames');
+  }
+  if (entries.length > MAX_FRAMES) {
+    throw new Error(`Replay session too long (max ${MAX_FRAMES} frames)`);
+  }
+
+  const timed = entries.map((entry, index) => {
+    const raw = (entry ?? {}) as RawObject;
+    const payload = 'payload' in raw ? raw.payload : entry;
+    const time =
+      toTime(raw.receivedAt) ??
+      toTime(raw.timestamp) ??
+      toTime((payload as RawObject | null)?.reportedAt) ??
+      toTime((payload as RawObject | null)?.timestamp);
+    return { index, time, payload };
+  });
+
+  const hasTimes = timed.every(frame => frame.time !== undefined);
+  const frames = hasTimes
+    ? [...timed].sort(
+        (a, b) => (a.time as number) - (b.time as number) || a.index - b.index
+      )
+    : timed;
+  const startTime = hasTimes ? (frames[0].time as number) : 0;
+
+  return frames.map((frame, index) => ({
+    offsetMs: hasTimes
+      ? (frame.time as number) - startTime
+      : index * DEFAULT_INTERVAL_MS,
+    payload: frame.payload,
+  }));
+};
+
+/**
+ * Download and parse a recorded session
+ */
+export const fetchReplaySession = async (
+  url: string
+): Promise<ReplayFrame[]> => {
+  const resolved = new URL(url, window.location.href);
+  if (resolved.protocol !== 'https:' && resolved.protocol !== 'http:') {
+    throw new Error('Replay URL must use http or https');
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+
+  try {
+    const response = await fetch(resolved.toString(), {
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Replay download failed: ${response.status}`);
+    }
+    return parseReplaySession(await response.text());
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error('Replay download timed out');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+/**
+ * Run a session through a fresh GpsEngine on a virtual clock - no timers,
+ * no window events. Intended for Vitest: assert distances and modes for a
+ * recorded stream.
+ */
+export const replayThroughEngine = (
+  frames: ReplayFrame[],
+  options: GpsEngineOptions = {},
+  startTime = 0
+): ReplayResult => {
+  let clock = startTime;
+  let timers: Array<{ at: number; callback: () => void }> = [];
+  const engine = new GpsEngine({
+    startLocation: null,
+    ...options,
+    now: () => clock,
+    schedule: (callback, delayMs) => {
+      const timer = { at: clock + delayMs, callback };
+      timers.push(timer);
+      return () => {
+        timers = timers.filter(candidate => candidate !== timer);
+      };
+    },
+  });
+
+  const result: ReplayResult = {
+    fixes: 0,
+    distanceKm: 0,
+    finalMode: engine.getMode(),
+    modeChanges: [],
+    rejected: {},
+  };
+  engine.on('distance', ({ distanceKm }) => {
+    result.distanceKm += distanceKm;
+  });
+  engine.on('mode', ({ mode }) => {
+    result.modeChanges.push(mode);
+  });
+  engine.on('rejected', ({ reason }) => {
+    result.rejected[reason] = (result.rejected[reason] ?? 0) + 1;
+  });
+
+  const runTimersUntil = (time: number) => {
+    let due = timers.filter(timer => timer.at <= time);
+    while (due.length > 0) {
+      const next = due.reduce((a, b) => (b.at < a.at ? b : a));
+      timers = timers.filter(timer => timer !== next);
+      clock = next.at;
+      next.callback();
+      due = timers.filter(timer => timer.at <= time);
+    }
+    clock = time;
+  };
+
+  frames.forEach(frame => {
+    const timestamp = startTime + frame.offsetMs;
+    runTimersUntil(timestamp);
+    const data = normalizeRtirlPayload(frame.payload, 'replay', timestamp);
+    if (data) {
+      result.fixes++;
+      engine.process(data);
+    }
+  });
+
+  result.finalMode = engine.getMode();
+  engine.dispose();
+  return result;
+};
+
+const dispatchLocation = (data: LocationData): void => {
+  window.dispatchEvent(new CustomEvent('locationUpdate', { detail: data }));
+};
+
+/**
+ * GPS Replay
+ *
+ * Dispatches recorded payloads as 'locationUpdate' events - the same path
+ * as live RTIRL data - stamped with virtual time so throttling and speeds
+ * match the original stream. 'gpsReplayStart' fires first so the GPS
+ * engines restart on the replay's clock. At 10x/max the delayed slow-down timer still
+ * runs on wall-clock time, so mode switches can lag behind the distance.
+ * Also keeps the last MAX_RECORDED_FRAMES live payloads for export.
+ */
+class GpsReplay {
+  private active = false;
+  private runId = 0;
+  private recorded: RecordedFrame[] = [];
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  // Keep a live payload so the session can be exported and replayed later
+  record(payload: unknown): void {
+    this.recorded.push({ receivedAt: Date.now(), payload });
+    if (this.recorded.length > MAX_RECORDED_FRAMES) {
+      this.recorded.splice(0, this.recorded.length - MAX_RECORDED_FRAMES);
+    }
+  }
+
+  exportSession(): string {
+    if (this.recorded.length === 0) {
+      return 'No live GPS payloads recorded yet';
+    }
+    const fileName = `rtirl-session-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.json`;
+    downloadFile(
+      JSON.stringify({ version: 1, frames: this.recorded }, null, 2),
+      fileName,
+      'application/json'
+    );
+    return `Exported ${this.recorded.length} payloads to ${fileName}`;
+  }
+
+  /**
+   * Replay frames; resolves with the number of dispatched fixes once the
+   * session ends or is stopped. Fixes go to `emit` - by default straight to
+   * 'locationUpdate', the replay location source passes its own handler.
+   */
+  async start(
+    frames: ReplayFrame[],
+    speed: ReplaySpeed = 1,
+    emit: (data: LocationData) => void = dispatchLocation
+  ): Promise<number> {
+    this.stop();
+    const runId = ++this.runId;
+    this.active = true;
+
+    // Replayed fixes are stamped in the past - the GPS engines restart
+    // instead of dropping them as older than the last live (or previous
+    // replay's) fix
+    window.dispatchEvent(new CustomEvent('gpsReplayStart'));
+
+    // Virtual time runs at replay speed and ends at "now", so journal and
+    // track entries never land in the future
+    const lastOffsetMs = frames[frames.length - 1]?.offsetMs ?? 0;
+    const speedFactor = speed === 'max' ? Infinity : speed;
+    const baseTime = Date.now() - lastOffsetMs * (1 - 1 / speedFactor);
+    const durationS = lastOffsetMs / 1000;
+    logger(
+      `⏯️ Replay: Starting ${frames.length} frames (${durationS.toFixed(0)}s recorded) at ${speed === 'max' ? 'max speed' : `${speed}x`}`
+    );
+
+    let dispatched = 0;
+    let previousOffset = 0;
+    for (let index = 0; index < frames.length; index++) {
+      const frame = frames[index];
+      const delayMs =
+        speed === 'max'
+          ? index % MAX_SPEED_BATCH === 0
+            ? 0
+            : -1
+          : (frame.offsetMs - previousOffset) / speed;
+      previousOffset = frame.offsetMs;
+
+      if (delayMs >= 0) {
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+      if (runId !== this.runId) {
+        return dispatched;
+      }
+
+      const data = normalizeRtirlPayload(
+        frame.payload,
+        'replay',
+        baseTime + frame.offsetMs
+      );
+      if (data) {
+        emit(data);
+        dispatched++;
+      }
+    }
+
+    this.active = false;
+    logger(`⏹️ Replay: Finished - ${dispatched} fixes dispatched`);
+    return dispatched;
+  }
+
+  stop(): void {
+    if (this.active) {
+      logger('⏹️ Replay: Stopped');
+    }
+    this.runId++;
+    this.active = false;
+  }
+}
+
+export const gpsReplay = new GpsReplay();
@@ -0,0 +1,187 @@
+import { useJournalStore } from '../store/journalStore';
+import { calculateAverageSpeed } from './speedAverage';
+import { downloadFile } from './download';
+import { locationService } from './locationService';
+import { logger } from './logger';
+import { getTrackDay } from './trackRecorder';
+import type { Coordinates } from '../types/config';
+import type { JournalEntry } from '../types/trip';
+
+export type JournalExportFormat = 'csv' | 'json';
+
+export interface JournalDay extends JournalEntry {
+  dayNumber: number;
+  averageSpeedKmh: number | null;
+}
+
+interface JournalFixInput {
+  timestamp: number;
+  position: Coordinates;
+  distanceKm: number;
+  movingTimeMs: number;
+  speedKmh: number;
+}
+
+const csvEscape = (value: string | number | null): string => {
+  if (value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Journal Service - feeds the per-day journal and resolves place names
+ *
+ * Place names come from locationService (server-side geocoding with
+ * fallbacks). The end place is refreshed at most every 15 minutes so a full
+ * riding day costs only a few dozen lookups.
+ */
+class JournalService {
+  private lastEndPlaceLookup = 0;
+  private pendingStartPlaces = new Set<string>();
+
+  // Configuration
+  private readonly END_PLACE_REFRESH_MS = 15 * 60 * 1000;
+
+  /**
+   * Record an accepted GPS fix into today's journal entry
+   */
+  recordFix(fix: JournalFixInput): void {
+    const date = getTrackDay(fix.timestamp);
+    const { entries, recordFix } = useJournalStore.getState();
+    const isNewDay = !entries[date];
+
+    recordFix({ ...fix, date });
+
+    if (isNewDay) {
+      logger(`📔 Journal: Started entry for ${date}`);
+      // Close out the previous day with its final position
+      this.lastEndPlaceLookup = 0;
+      const previous = this.getPreviousEntry(date);
+      if (previous?.endPosition) {
+        void this.lookupPlace(previous.date, previous.endPosition, 'endPlace');
+      }
+    }
+
+    const entry = useJournalStore.getState().entries[date];
+    if (
+      entry &&
+      !entry.startPlace &&
+      entry.startPosition &&
+      !this.pendingStartPlaces.has(date)
+    ) {
+      this.pendingStartPlaces.add(date);
+      void this.lookupPlace(date, entry.startPosition, 'startPlace').finally(
+        () => this.pendingStartPlaces.delete(date)
+      );
+    }
+
+    const now = Date.now();
+    if (now - this.lastEndPlaceLookup > this.END_PLACE_REFRESH_MS) {
+      this.lastEndPlaceLookup = now;
+      void this.lookupPlace(date, fix.position, 'endPlace');
+    }
+  }
+
+  /**
+   * All journal days in order, numbered from the first riding day
+   */
+  getDays(): JournalDay[] {
+    const { entries } = useJournalStore.getState();
+    return Object.keys(entries)
+      .sort()
+      .map((date, index) => {
+        const entry = entries[date];
+        return {
+          ...entry,
+          dayNumber: index + 1,
+          averageSpeedKmh: calculateAverageSpeed(
+            entry.distanceKm,
+            entry.movingTimeMs
+          ),
+        };
+      });
+  }
+
+  toCsv(days: JournalDay[]): string {
+    const header = [
+      'day',
+      'date',
+      'distance_km',
+      'moving_time_min',
+      'avg_speed_kmh',
+      'max_speed_kmh',
+      'elevation_gain_m',
+      'start_place',
+      'end_place',
+    ];
+    const rows = days.map(day =>
+      [
+        day.dayNumber,
+        day.date,
+        day.distanceKm.toFixed(2),
+        (day.movingTimeMs / 60000).toFixed(0),
+        day.averageSpeedKmh !== null ? day.averageSpeedKmh.toFixed(1) : null,
+        day.maxSpeedKmh.toFixed(1),
+        day.elevationGainM !== null ? day.elevationGainM.toFixed(0) : null,
+        day.startPlace,
+        day.endPlace,
+      ]
+        .map(csvEscape)
+        .join(',')
+    );
+    return [header.join(','), ...rows].join('\n') + '\n';
+  }
+
+  /**
+   * Download the journal as CSV or JSON
+   */
+  exportJournal(format: JournalExportFormat = 'csv'): string {
+    const days = this.getDays();
+    if (days.length === 0) {
+      return 'Journal is empty';
+    }
+
+    const date = new Date().toISOString().split('T')[0];
+    if (format === 'json') {
+      downloadFile(
+        JSON.stringify(days, null, 2),
+        `trip-journal-${date}.json`,
+        'application/json'
+      );
+    } else {
+      downloadFile(this.toCsv(days), `trip-journal-${date}.csv`, 'text/csv');
+    }
+
+    logger(
+      `📔 Journal: Exported ${days.length} days as ${format.toUpperCase()}`
+    );
+    return `Journal exported: ${days.length} days (${format.toUpperCase()})`;
+  }
+
+  private getPreviousEntry(date: string): JournalEntry | null {
+    const { entries } = useJournalStore.getState();
+    const previousDate = Object.keys(entries)
+      .filter(candidate => candidate < date)
+      .sort()
+      .pop();
+    return previousDate ? entries[previousDate] : null;
+  }
+
+  private async lookupPlace(
+    date: string,
+    position: Coordinates,
+    field: 'startPlace' | 'endPlace'
+  ): Promise<void> {
+    try {
+      const place = await locationService.reverseGeocode(position);
+      useJournalStore.getState().setPlaces(date, { [field]: place });
+    } catch (error) {
+      logger.warn(`⚠️ Journal: Place lookup failed for ${date}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const journalService = new JournalService();
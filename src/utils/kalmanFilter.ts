@@ -0,0 +1,192 @@
+// Kalman Filter - position and speed smoothing for live GPS fixes
+// Constant-velocity model per axis in a local metric plane; the reported
+// accuracy is the measurement noise, so poor fixes move the estimate less
+
+import { CONFIG } from './config';
+import { logger } from './logger';
+import type { Coordinates } from '../types/config';
+
+export type SmoothingMode = 'kalman' | 'none';
+
+export interface KalmanEstimate {
+  position: Coordinates;
+  speedKmh: number;
+}
+
+// 2x2 covariance of [position, velocity] for one axis
+interface AxisState {
+  position: number; // meters from origin
+  velocity: number; // m/s
+  p00: number;
+  p01: number;
+  p11: number;
+}
+
+const SMOOTHING_MODES: SmoothingMode[] = ['kalman', 'none'];
+const EARTH_RADIUS_M = 6371000;
+const MIN_ACCURACY_M = 3;
+const DEFAULT_ACCURACY_M = 15;
+const INITIAL_VELOCITY_VARIANCE = 25; // (5 m/s)²
+
+let cachedSmoothing: SmoothingMode | null = null;
+
+/**
+ * Smoothing mode from CONFIG, overridable via ?smoothing=kalman|none
+ */
+export const getSmoothingMode = (): SmoothingMode => {
+  if (cachedSmoothing) {
+    return cachedSmoothing;
+  }
+
+  let mode = CONFIG.movement.smoothing.mode;
+  const param = new URLSearchParams(window.location.search).get('smoothing');
+  if (param) {
+    if ((SMOOTHING_MODES as string[]).includes(param)) {
+      mode = param as SmoothingMode;
+    } else {
+      logger.warn(
+        'Invalid smoothing parameter:',
+        param,
+        `(must be ${SMOOTHING_MODES.join(', ')})`
+      );
+    }
+  }
+
+  cachedSmoothing = mode;
+  return mode;
+};
+
+const createAxis = (position: number, variance: number): AxisState => ({
+  position,
+  velocity: 0,
+  p00: variance,
+  p01: 0,
+  p11: INITIAL_VELOCITY_VARIANCE,
+});
+
+/**
+ * Kalman Filter
+ *
+ * Each update predicts forward by the elapsed time (process noise from
+ * CONFIG.movement.smoothing.accelerationNoise) and corrects with the new fix.
+ * A reported device speed is fused with the filtered velocity by inverse
+ * variance weighting, so Doppler speed still wins when the fix is noisy.
+ */
+export class KalmanFilter {
+  private origin: Coordinates | null = null;
+  private lat: AxisState | null = null;
+  private lon: AxisState | null = null;
+  private lastTimestamp = 0;
+
+  constructor(
+    private readonly accelerationNoise = CONFIG.movement.smoothing
+      .accelerationNoise,
+    private readonly reportedSpeedNoiseKmh = CONFIG.movement.smoothing
+      .reportedSpeedNoiseKmh,
+    private readonly maxGapMs = CONFIG.movement.smoothing.maxGapMs
+  ) {}
+
+  reset(): void {
+    this.origin = null;
+    this.lat = null;
+    this.lon = null;
+    this.lastTimestamp = 0;
+  }
+
+  update(
+    position: Coordinates,
+    accuracy: number | null,
+    timestamp: number,
+    reportedSpeedKmh: number | null = null
+  ): KalmanEstimate {
+    const accuracyM = Math.max(MIN_ACCURACY_M, accuracy ?? DEFAULT_ACCURACY_M);
+    const variance = accuracyM * accuracyM;
+
+    // (Re)start after a long gap - the old velocity says nothing anymore
+    if (
+      !this.origin ||
+      !this.lat ||
+      !this.lon ||
+      timestamp - this.lastTimestamp > this.maxGapMs
+    ) {
+      this.origin = position;
+      this.lat = createAxis(0, variance);
+      this.lon = createAxis(0, variance);
+      this.lastTimestamp = timestamp;
+      return { position, speedKmh: Math.max(0, reportedSpeedKmh ?? 0) };
+    }
+
+    const dt = Math.max(0, (timestamp - this.lastTimestamp) / 1000);
+    this.lastTimestamp = timestamp;
+
+    const { x, y } = this.toMeters(position);
+    this.lat = this.step(this.lat, y, variance, dt);
+    this.lon = this.step(this.lon, x, variance, dt);
+
+    const filteredMs = Math.hypot(this.lat.velocity, this.lon.velocity);
+    let speedKmh = filteredMs * 3.6;
+
+    if (reportedSpeedKmh !== null && reportedSpeedKmh > 0) {
+      const filteredVariance = (this.lat.p11 + this.lon.p11) * 3.6 * 3.6;
+      const reportedVariance =
+        this.reportedSpeedNoiseKmh * this.reportedSpeedNoiseKmh;
+      const gain = filteredVariance / (filteredVariance + reportedVariance);
+      speedKmh += gain * (reportedSpeedKmh - speedKmh);
+    }
+
+    return {
+      position: this.toCoordinates(this.lon.position, this.lat.position),
+      speedKmh: Math.max(0, speedKmh),
+    };
+  }
+
+  // Predict by dt seconds, then correct with a position measurement
+  private step(
+    state: AxisState,
+    measurement: number,
+    variance: number,
+    dt: number
+  ): AxisState {
+    const q = this.accelerationNoise;
+    const dt2 = dt * dt;
+
+    const position = state.position + state.velocity * dt;
+    const velocity = state.velocity;
+    const p00 =
+      state.p00 + 2 * dt * state.p01 + dt2 * state.p11 + (q * dt2 * dt2) / 4;
+    const p01 = state.p01 + dt * state.p11 + (q * dt2 * dt) / 2;
+    const p11 = state.p11 + q * dt2;
+
+    const innovation = measurement - position;
+    const s = p00 + variance;
+    const k0 = p00 / s;
+    const k1 = p01 / s;
+
+    return {
+      position: position + k0 * innovation,
+      velocity: velocity + k1 * innovation,
+      p00: (1 - k0) * p00,
+      p01: (1 - k0) * p01,
+      p11: p11 - k1 * p01,
+    };
+  }
+
+  private toMeters(position: Coordinates): { x: number; y: number } {
+    const origin = this.origin as Coordinates;
+    const cosLat = Math.cos((origin.lat * Math.PI) / 180);
+    return {
+      x:
+        ((position.lon - origin.lon) * Math.PI * EARTH_RADIUS_M * cosLat) / 180,
+      y: ((position.lat - origin.lat) * Math.PI * EARTH_RADIUS_M) / 180,
+    };
+  }
+
+  private toCoordinates(x: number, y: number): Coordinates {
+    const origin = this.origin as Coordinates;
+    const cosLat = Math.cos((origin.lat * Math.PI) / 180);
+    return {
+      lat: origin.lat + (y * 180) / (Math.PI * EARTH_RADIUS_M),
+      lon: origin.lon + (x * 180) / (Math.PI * EARTH_RADIUS_M * cosLat),
+    };
+  }
+}
@@ -0,0 +1,131 @@
+// Location Sources - where GPS fixes come from
+// Every source normalizes into LocationData and reports through the same
+// handlers, so the overlay, dashboard and mini-map don't care which is used
+
+import { CONFIG } from './config';
+import { logger } from './logger';
+import { isRouteDemo } from './routeDemo';
+import { getRtirlStreamer } from './rtirlStreamer';
+import { formatDuration } from './speedAverage';
+import { DemoSource } from './locationSources/demoSource';
+import { GeolocationSource } from './locationSources/geolocationSource';
+import { ReplaySource } from './locationSources/replaySource';
+import { RtirlSource } from './locationSources/rtirlSource';
+import { WebSocketSource } from './locationSources/websocketSource';
+import type { Coordinates } from '../types/config';
+import type { LocationSource, LocationSourceType } from '../types/rtirl';
+
+const SOURCE_TYPES: LocationSourceType[] = [
+  'rtirl',
+  'geolocation',
+  'websocket',
+  'demo',
+  'replay',
+];
+
+const MIN_STALE_AFTER_S = 5;
+const MAX_STALE_AFTER_S = 3600;
+
+let cachedSourceType: LocationSourceType | null = null;
+let cachedStaleAfterMs: number | null = null;
+
+/**
+ * Source chosen via ?source=, else implied by ?replay= or ?demo=,
+ * else RTIRL
+ */
+export const getLocationSourceType = (): LocationSourceType => {
+  if (cachedSourceType) {
+    return cachedSourceType;
+  }
+
+  const params = new URLSearchParams(window.location.search);
+  let type: LocationSourceType = 'rtirl';
+  if (params.get('replay')) {
+    type = 'replay';
+  } else if (CONFIG.rtirl.demoMode || isRouteDemo()) {
+    type = 'demo';
+  }
+
+  const param = params.get('source');
+  if (param) {
+    if ((SOURCE_TYPES as string[]).includes(param)) {
+      type = param as LocationSourceType;
+    } else {
+      logger.warn(
+        'Invalid source parameter:',
+        param,
+        `(must be ${SOURCE_TYPES.join(', ')})`
+      );
+    }
+  }
+
+  cachedSourceType = type;
+  return type;
+};
+
+/**
+ * How long without a fix before the feed counts as stale - CONFIG, or
+ * ?staleAfter= in seconds
+ */
+export const getStaleAfterMs = (): number => {
+  if (cachedStaleAfterMs !== null) {
+    return cachedStaleAfterMs;
+  }
+
+  let staleAfterMs = CONFIG.rtirl.staleAfterMs;
+  const param = new URLSearchParams(window.location.search).get('staleAfter');
+  if (param) {
+    const seconds = Number(param);
+    if (
+      isFinite(seconds) &&
+      seconds >= MIN_STALE_AFTER_S &&
+      seconds <= MAX_STALE_AFTER_S
+    ) {
+      staleAfterMs = seconds * 1000;
+    } else {
+      logger.warn(
+        'Invalid staleAfter parameter:',
+        param,
+        `(must be ${MIN_STALE_AFTER_S}-${MAX_STALE_AFTER_S} seconds)`
+      );
+    }
+  }
+
+  cachedStaleAfterMs = staleAfterMs;
+  return staleAfterMs;
+};
+
+// "45s" below a minute, then "2m", "1h 05m"
+export const formatStaleDuration = (ms: number): string =>
+  ms < 60000 ? `${Math.max(0, Math.floor(ms / 1000))}s` : formatDuration(ms);
+
+// Sources the watchdog may tear down and re-attach when they go quiet
+export const isReconnectableSource = (type: LocationSourceType): boolean =>
+  type === 'rtirl' || type === 'geolocation' || type === 'websocket';
+
+/**
+ * Create the source for `type`; settings come from URL parameters
+ * (?sourceUrl=, ?replay=, ?platform=/?userId=/?pullKey=, ?bpm=) and
+ * CONFIG.rtirl
+ */
+export const createLocationSource = (
+  type: LocationSourceType = getLocationSourceType(),
+  getRoute: () => Coordinates[] | null = () => null
+): LocationSource => {
+  const params = new URLSearchParams(window.location.search);
+  switch (type) {
+    case 'geolocation':
+      return new GeolocationSource();
+    case 'websocket':
+      return new WebSocketSource(params.get('sourceUrl') ?? '');
+    case 'demo':
+      return new DemoSource(getRoute);
+    case 'replay':
+      return new ReplaySource(params.get('replay') ?? '');
+    case 'rtirl':
+    default:
+      return new RtirlSource(getRtirlStreamer(), {
+        heartRate: params.get('bpm') === 'true',
+      });
+  }
+};
@@ -0,0 +1,77 @@
+// Demo location source - simulated fixes for testing without a live feed
+import { logger } from '../logger';
+import { isRouteDemo, routeDemo } from '../routeDemo';
+import { normalizeRtirlPayload } from '../rtirlPayload';
+import type { Coordinates } from '../../types/config';
+import type { LocationSource, LocationSourceHandlers } from '../../types/rtirl';
+
+const TICK_MS = 1000;
+const DEMO_START = { lat: 48.2082, lon: 16.3738 }; // Vienna
+
+/**
+ * ?demo=route rides a route (see routeDemo); otherwise the position jitters
+ * around Vienna at a slowly varying cycling speed
+ */
+export class DemoSource implements LocationSource {
+  readonly type = 'demo';
+  private timer: ReturnType<typeof setInterval> | undefined;
+
+  // Route to ride - read on start so a freshly imported route is used
+  constructor(
+    private readonly getRoute: () => Coordinates[] | null = () => null
+  ) {}
+
+  start(handlers: LocationSourceHandlers): void {
+    if (isRouteDemo()) {
+      routeDemo.start(payload => {
+        const locationData = normalizeRtirlPayload(payload, 'demo', Date.now());
+        if (locationData) {
+          handlers.onLocation(locationData);
+        }
+      }, this.getRoute());
+      return;
+    }
+
+    logger('🎭 RTIRL Demo mode enabled, starting demo data');
+    let updateCount = 0;
+    let { lat, lon } = DEMO_START;
+
+    const generateDemoData = () => {
+      updateCount++;
+
+      // Simulate movement with varying speed
+      const speed = Math.max(0, Math.sin(updateCount * 0.1) * 5 + 15);
+
+      // Move coordinates slightly (simulate cycling)
+      const movement = 0.0001; // ~11 meters
+      lat += (Math.random() - 0.5) * movement;
+      lon += (Math.random() - 0.5) * movement;
+
+      const locationData = normalizeRtirlPayload(
+        { latitude: lat, longitude: lon, accuracy: 5, speed, source: 'demo' },
+        'demo',
+        Date.now()
+      );
+      if (!locationData) {
+        return;
+      }
+      if (updateCount === 1 || updateCount % 5 === 0) {
+        logger(
+          `🎭 Demo update #${updateCount} - ${lat.toFixed(4)}, ${lon.toFixed(4)} @ ${speed.toFixed(1)}km/h`
+        );
+      }
+      handlers.onLocation(locationData);
+    };
+
+    this.timer = setInterval(generateDemoData, TICK_MS);
+    generateDemoData();
+  }
+
+  stop(): void {
+    if (this.timer !== undefined) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    routeDemo.stop();
+  }
+}
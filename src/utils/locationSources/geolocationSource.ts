@@ -0,0 +1,67 @@
+// Browser Geolocation location source - the overlay page itself on a phone
+import { logger } from '../logger';
+import { normalizeRtirlPayload } from '../rtirlPayload';
+import type { LocationSource, LocationSourceHandlers } from '../../types/rtirl';
+
+const POSITION_TIMEOUT = 30000;
+
+/**
+ * Watches navigator.geolocation. Needs a secure context (https or
+ * localhost) and location permission; coords.speed is m/s like RTIRL.
+ * Heading and altitude come along when the device reports them.
+ */
+export class GeolocationSource implements LocationSource {
+  readonly type = 'geolocation';
+  private watchId: number | null = null;
+
+  start(handlers: LocationSourceHandlers): void {
+    if (!('geolocation' in navigator)) {
+      logger.error('❌ Browser geolocation is not available');
+      handlers.onStatus('error');
+      return;
+    }
+
+    logger('🔌 Requesting browser geolocation...');
+    handlers.onStatus('connecting');
+
+    this.watchId = navigator.geolocation.watchPosition(
+      position => {
+        const { latitude, longitude, accuracy, speed, heading, altitude } =
+          position.coords;
+        const locationData = normalizeRtirlPayload(
+          {
+            latitude,
+            longitude,
+            accuracy,
+            speed,
+            heading,
+            altitude,
+            timestamp: position.timestamp,
+          },
+          'geolocation',
+          Date.now()
+        );
+        if (locationData) {
+          handlers.onLocation(locationData);
+        }
+      },
+      error => {
+        if (error.code === error.PERMISSION_DENIED) {
+          logger.error('❌ Geolocation permission denied');
+          handlers.onStatus('error');
+        } else {
+          // Timeouts and lost signal - the watch keeps running
+          logger.warn('⚠️ Geolocation:', error.message);
+        }
+      },
+      { enableHighAccuracy: true, maximumAge: 0, timeout: POSITION_TIMEOUT }
+    );
+  }
+
+  stop(): void {
+    if (this.watchId !== null) {
+      navigator.geolocation.clearWatch(this.watchId);
+      this.watchId = null;
+    }
+  }
+}
@@ -0,0 +1,54 @@
+// Replay location source - a recorded session from ?replay= as the live feed
+import { fetchReplaySession, gpsReplay, parseReplaySpeed } from '../gpsReplay';
+import { logger } from '../logger';
+import type { LocationSource, LocationSourceHandlers } from '../../types/rtirl';
+
+/**
+ * Downloads the session and replays it at ?replaySpeed= (1, 10 or max).
+ * Unlike a console replay, fixes report to the connection store too.
+ */
+export class ReplaySource implements LocationSource {
+  readonly type = 'replay';
+  private stopped = true;
+
+  constructor(
+    private readonly url: string,
+    private readonly speed = parseReplaySpeed(
+      new URLSearchParams(window.location.search).get('replaySpeed') ?? 1
+    ) ?? 1
+  ) {}
+
+  start(handlers: LocationSourceHandlers): void {
+    if (!this.url) {
+      logger.error('❌ Replay source needs a ?replay= session URL');
+      handlers.onStatus('error');
+      return;
+    }
+
+    this.stopped = false;
+    handlers.onStatus('connecting');
+    logger(`URL parameter: Replaying session from ${this.url}`);
+
+    fetchReplaySession(this.url)
+      .then(frames => {
+        if (this.stopped) {
+          return 0;
+        }
+        return gpsReplay.start(frames, this.speed, handlers.onLocation);
+      })
+      .then(() => {
+        if (!this.stopped) {
+          handlers.onStatus('disconnected');
+        }
+      })
+      .catch(error => {
+        logger.error('Failed to replay session:', error);
+        handlers.onStatus('error');
+      });
+  }
+
+  stop(): void {
+    this.stopped = true;
+    gpsReplay.stop();
+  }
+}
@@ -0,0 +1,223 @@
+// RealtimeIRL location source - the default for IRL streams
+import { gpsReplay } from '../gpsReplay';
+import { logger } from '../logger';
+import { normalizeRtirlPayload, toAltitude, toHeading } from '../rtirlPayload';
+import { describeRtirlStreamer, type RtirlStreamer } from '../rtirlStreamer';
+import type {
+  LocationSource,
+  LocationSourceHandlers,
+  SensorReadings,
+} from '../../types/rtirl';
+
+declare global {
+  interface Window {
+    RealtimeIRL?: {
+      forStreamer: (_platform: string, _userId: string) => RtirlListenerApi;
+      forPullKey?: (_pullKey: string) => RtirlListenerApi;
+    };
+  }
+}
+
+type Unsubscribe = () => void;
+type ChannelListener = (_callback: (_data: unknown) => void) => Unsubscribe;
+
+// forStreamer (platform user id) only has the location channel; the whole
+// document and the sensor channels need forPullKey
+interface RtirlListenerApi {
+  addLocationListener: ChannelListener;
+  addListener?: ChannelListener;
+  addHeadingListener?: ChannelListener;
+  addAltitudeListener?: ChannelListener;
+  addHeartRateListener?: ChannelListener;
+}
+
+// Reconnects start the source again - the pull key hint is logged once
+let sensorHintLogged = false;
+
+export interface RtirlSourceOptions {
+  heartRate?: boolean; // Also subscribe to the heart rate channel
+}
+
+/**
+ * Listens to a streamer's RTIRL location via the RealtimeIRL library, by
+ * platform user id or by pull key. A pull key gets the whole RTIRL document
+ * (location, speed, accuracy and the device's reportedAt); a platform user
+ * id only the location channel's { latitude, longitude }, so those fixes
+ * are timed on receipt and their speed comes from the GPS engine. Raw
+ * payloads are recorded for gpsReplay.exportSession before normalizing.
+ * Heading and altitude arrive on their own channels; the latest values are
+ * reported as sensor readings and merged into each location fix.
+ */
+export class RtirlSource implements LocationSource {
+  readonly type = 'rtirl';
+  private unsubscribers: Unsubscribe[] = [];
+  private latest: Partial<SensorReadings> = {};
+  private lastDocumentKey: string | null = null;
+
+  constructor(
+    private readonly streamer: RtirlStreamer,
+    private readonly options: RtirlSourceOptions = {}
+  ) {}
+
+  start(handlers: LocationSourceHandlers): void {
+    // Check if RTIRL library is loaded
+    if (
+      !window.RealtimeIRL ||
+      typeof window.RealtimeIRL.forStreamer !== 'function'
+    ) {
+      logger.error('❌ RTIRL library not loaded!');
+      handlers.onStatus('error');
+      return;
+    }
+
+    if (!this.streamer.id) {
+      logger.error(
+        this.streamer.platform === 'pullKey'
+          ? '❌ RTIRL pull key missing (?pullKey=)'
+          : '❌ RTIRL user id missing (?userId= or VITE_RTIRL_USER_ID)'
+      );
+      handlers.onStatus('error');
+      return;
+    }
+
+    try {
+      logger('🔌 Connecting to RTIRL...');
+      logger('📋 Streamer:', describeRtirlStreamer(this.streamer));
+      handlers.onStatus('connecting');
+
+      const { RealtimeIRL } = window;
+      let streamer: RtirlListenerApi;
+      if (this.streamer.platform === 'pullKey') {
+        if (typeof RealtimeIRL.forPullKey !== 'function') {
+          throw new Error('RTIRL library does not support pull keys');
+        }
+        streamer = RealtimeIRL.forPullKey(this.streamer.id);
+      } else {
+        streamer = RealtimeIRL.forStreamer(
+          this.streamer.platform,
+          this.streamer.id
+        );
+      }
+      const handlePayload = (data: unknown) => {
+        // Hidden location - null on the location channel, location: null in
+        // the document
+        const payload = (typeof data === 'object' ? data : null) as {
+          location?: unknown;
+          reportedAt?: unknown;
+        } | null;
+        if (!payload || ('location' in payload && !payload.location)) {
+          handlers.onLocation(null);
+          return;
+        }
+        // The document also changes with heart rate, heading, ... - only a
+        // new position or fix time is a new fix
+        if (streamer.addListener) {
+          const key = JSON.stringify([payload.location, payload.reportedAt]);
+          if (key === this.lastDocumentKey) {
+            return;
+          }
+          this.lastDocumentKey = key;
+        }
+
+        // Debug: Log raw RTIRL data structure occasionally
+        if (Math.random() < 0.1) {
+          logger('🔍 RTIRL raw data structure:', JSON.stringify(data, null, 2));
+        }
+        gpsReplay.record(data);
+
+        const locationData = normalizeRtirlPayload(data, 'rtirl', Date.now());
+        if (!locationData) {
+          logger.warn(
+            '⚠️ Trip: Missing or invalid coordinates in location data:',
+            data
+          );
+          return;
+        }
+        handlers.onLocation({
+          ...locationData,
+          heading: locationData.heading ?? this.latest.heading ?? undefined,
+          altitude: locationData.altitude ?? this.latest.altitude ?? undefined,
+        });
+      };
+      this.unsubscribers.push(
+        streamer.addListener
+          ? streamer.addListener(handlePayload)
+          : streamer.addLocationListener(handlePayload)
+      );
+      this.attachSensorListeners(streamer, handlers);
+
+      logger('✅ RTIRL listener attached successfully');
+    } catch (error) {
+      logger.error('❌ Failed to connect to RTIRL:', error);
+      handlers.onStatus('error');
+      handlers.onReconnect();
+    }
+  }
+
+  stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.latest = {};
+    this.lastDocumentKey = null;
+  }
+
+  private attachSensorListeners(
+    streamer: RtirlListenerApi,
+    handlers: LocationSourceHandlers
+  ): void {
+    const report = (readings: Partial<SensorReadings>) => {
+      this.latest = { ...this.latest, ...readings };
+      handlers.onSensor?.(readings);
+    };
+
+    if (this.streamer.platform !== 'pullKey') {
+      if (!sensorHintLogged) {
+        sensorHintLogged = true;
+        const hint =
+          'RTIRL: Heading, altitude and heart rate need ?pullKey= - a platform user id only shares the location';
+        if (this.options.heartRate) {
+          logger.warn(`⚠️ ${hint}`);
+        } else {
+          logger(`💡 ${hint}`);
+        }
+      }
+      return;
+    }
+
+    if (streamer.addHeadingListener) {
+      this.unsubscribers.push(
+        streamer.addHeadingListener(data => {
+          const heading = toHeading(data);
+          if (heading !== undefined) {
+            report({ heading });
+          }
+        })
+      );
+    }
+    if (streamer.addAltitudeListener) {
+      this.unsubscribers.push(
+        streamer.addAltitudeListener(data => {
+          const altitude = toAltitude(data);
+          if (altitude !== undefined) {
+            report({ altitude });
+          }
+        })
+      );
+    }
+    if (this.options.heartRate) {
+      if (!streamer.addHeartRateListener) {
+        logger.warn('⚠️ RTIRL library has no heart rate channel');
+        return;
+      }
+      this.unsubscribers.push(
+        streamer.addHeartRateListener(data => {
+          const heartRate = Number(data);
+          if (isFinite(heartRate) && heartRate > 0 && heartRate < 300) {
+            report({ heartRate: Math.round(heartRate) });
+          }
+        })
+      );
+      logger('💓 RTIRL heart rate listener attached');
+    }
+  }
+}
@@ -0,0 +1,170 @@
+// WebSocket location source - JSON fixes from a local GPS bridge or tracker
+import { logger } from '../logger';
+import { normalizeRtirlPayload } from '../rtirlPayload';
+import type {
+  LocationData,
+  LocationSource,
+  LocationSourceHandlers,
+} from '../../types/rtirl';
+
+type RawObject = Record<string, unknown>;
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+const KNOTS_TO_MS = 0.514444;
+
+/**
+ * Convert one WebSocket message to LocationData. Accepts:
+ * - OwnTracks: { _type: 'location', lat, lon, acc, vel, cog, alt, tst }
+ *   (km/h, tst in seconds)
+ * - Traccar: { positions: [{ latitude, longitude, speed, course, altitude,
+ *   fixTime }] } (speed in knots)
+ * - RTIRL-style flat or nested payloads (speed in m/s)
+ * Returns null for anything else.
+ */
+export const parseWebSocketMessage = (
+  message: unknown,
+  receivedAt: number
+): LocationData | null => {
+  if (!message || typeof message !== 'object') {
+    return null;
+  }
+  const raw = message as RawObject;
+
+  if (raw._type !== undefined) {
+    if (raw._type !== 'location') {
+      return null;
+    }
+    return normalizeRtirlPayload(
+      {
+        latitude: raw.lat,
+        longitude: raw.lon,
+        accuracy: raw.acc,
+        speed: typeof raw.vel === 'number' ? raw.vel / 3.6 : undefined,
+        heading: raw.cog,
+        altitude: raw.alt,
+        timestamp: raw.tst,
+      },
+      'websocket',
+      receivedAt
+    );
+  }
+
+  if (Array.isArray(raw.positions)) {
+    const position = raw.positions[raw.positions.length - 1] as
+      | RawObject
+      | undefined;
+    if (!position) {
+      return null;
+    }
+    return normalizeRtirlPayload(
+      {
+        ...position,
+        speed:
+          typeof position.speed === 'number'
+            ? position.speed * KNOTS_TO_MS
+            : undefined,
+        timestamp: position.fixTime ?? position.deviceTime,
+      },
+      'websocket',
+      receivedAt
+    );
+  }
+
+  return normalizeRtirlPayload(raw, 'websocket', receivedAt);
+};
+
+/**
+ * Connects to a ws:// or wss:// URL and reconnects with exponential backoff
+ * (1s doubling up to 30s) until stopped.
+ */
+export class WebSocketSource implements LocationSource {
+  readonly type = 'websocket';
+  private socket: WebSocket | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  private attempt = 0;
+  private stopped = true;
+
+  constructor(private readonly url: string) {}
+
+  start(handlers: LocationSourceHandlers): void {
+    let protocol = '';
+    try {
+      protocol = new URL(this.url).protocol;
+    } catch {
+      // Reported below
+    }
+    if (protocol !== 'ws:' && protocol !== 'wss:') {
+      logger.error(
+        '❌ WebSocket source needs a ws:// or wss:// sourceUrl, got:',
+        this.url || '(none)'
+      );
+      handlers.onStatus('error');
+      return;
+    }
+
+    this.stopped = false;
+    this.attempt = 0;
+    this.connect(handlers);
+  }
+
+  stop(): void {
+    this.stopped = true;
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+  }
+
+  private connect(handlers: LocationSourceHandlers): void {
+    logger(`🔌 Connecting to WebSocket ${this.url}...`);
+    handlers.onStatus('connecting');
+
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.attempt = 0;
+      logger('✅ WebSocket location source connected');
+    };
+
+    socket.onmessage = event => {
+      let message: unknown;
+      try {
+        message = JSON.parse(String(event.data));
+      } catch {
+        logger.warn('⚠️ WebSocket: Ignoring non-JSON message');
+        return;
+      }
+      const locationData = parseWebSocketMessage(message, Date.now());
+      if (locationData) {
+        handlers.onLocation(locationData);
+      }
+    };
+
+    socket.onerror = () => {
+      logger.warn('⚠️ WebSocket location source error');
+    };
+
+    socket.onclose = () => {
+      this.socket = null;
+      if (this.stopped) {
+        return;
+      }
+      const delayMs = Math.min(
+        RECONNECT_MAX_MS,
+        RECONNECT_BASE_MS * 2 ** this.attempt
+      );
+      this.attempt++;
+      logger(`🔌 WebSocket closed - reconnecting in ${delayMs / 1000}s`);
+      handlers.onStatus('disconnected');
+      this.reconnectTimer = setTimeout(() => {
+        handlers.onReconnect();
+        this.connect(handlers);
+      }, delayMs);
+    };
+  }
+}
@@ -0,0 +1,103 @@
+// Map Tile Utilities - Web Mercator math for the mini-map overlay
+// Hand-rolled so the map page needs no mapping library
+
+import type { Coordinates } from '../types/config';
+
+export const TILE_SIZE = 256;
+const MAX_LATITUDE = 85.05112878; // Web Mercator limit
+const TILE_SUBDOMAINS = ['a', 'b', 'c'];
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+export interface VisibleTile {
+  key: string;
+  url: string;
+  left: number;
+  top: number;
+}
+
+// Project coordinates to global pixel coordinates at the given zoom
+export const projectToPixels = (
+  coords: Coordinates,
+  zoom: number
+): PixelPoint => {
+  const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, coords.lat));
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const sinLat = Math.sin((lat * Math.PI) / 180);
+
+  return {
+    x: ((coords.lon + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+};
+
+// Fill a {z}/{x}/{y} (and optional {s}) tile template
+export const formatTileUrl = (
+  template: string,
+  zoom: number,
+  x: number,
+  y: number
+): string => {
+  return template
+    .replace('{s}', TILE_SUBDOMAINS[Math.abs(x + y) % TILE_SUBDOMAINS.length])
+    .replace('{z}', String(zoom))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y));
+};
+
+/**
+ * Tiles covering a width x height viewport centered on the given pixel point.
+ * Positions are relative to the viewport's top-left corner.
+ */
+export const getVisibleTiles = (
+  template: string,
+  center: PixelPoint,
+  zoom: number,
+  width: number,
+  height: number
+): VisibleTile[] => {
+  const originX = center.x - width / 2;
+  const originY = center.y - height / 2;
+  const tileCount = Math.pow(2, zoom);
+  const tiles: VisibleTile[] = [];
+
+  const minTileX = Math.floor(originX / TILE_SIZE);
+  const maxTileX = Math.floor((originX + width) / TILE_SIZE);
+  const minTileY = Math.max(0, Math.floor(originY / TILE_SIZE));
+  const maxTileY = Math.min(
+    tileCount - 1,
+    Math.floor((originY + height) / TILE_SIZE)
+  );
+
+  for (let tileX = minTileX; tileX <= maxTileX; tileX++) {
+    for (let tileY = minTileY; tileY <= maxTileY; tileY++) {
+      // Wrap horizontally across the antimeridian
+      const wrappedX = ((tileX % tileCount) + tileCount) % tileCount;
+      tiles.push({
+        key: `${zoom}/${tileX}/${tileY}`,
+        url: formatTileUrl(template, zoom, wrappedX, tileY),
+        left: tileX * TILE_SIZE - originX,
+        top: tileY * TILE_SIZE - originY,
+      });
+    }
+  }
+
+  return tiles;
+};
+
+// SVG polyline "points" attribute relative to the viewport's top-left corner
+export const toSvgPoints = (
+  points: Coordinates[],
+  zoom: number,
+  origin: PixelPoint
+): string => {
+  return points
+    .map(point => {
+      const pixel = projectToPixels(point, zoom);
+      return `${(pixel.x - origin.x).toFixed(1)},${(pixel.y - origin.y).toFixed(1)}`;
+    })
+    .join(' ');
+};
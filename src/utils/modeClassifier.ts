@@ -0,0 +1,150 @@
+// Mode Classifier - hysteresis-based movement mode detection
+// Classifies a rolling window of speeds instead of single fixes, with
+// separate enter/exit thresholds per mode and a confidence score
+
+import { CONFIG } from './config';
+import type {
+  MovementMode,
+  MovementModeProfile,
+  MovementProfile,
+} from '../types/trip';
+
+export interface ModeThresholds {
+  enterKmh: number; // Window speed needed to move up into the mode
+  exitKmh: number; // Window speed below which the mode is left downwards
+}
+
+export interface ModeClassification {
+  mode: MovementMode; // Mode the window supports with enough confidence
+  candidate: MovementMode; // Mode the thresholds point at, confident or not
+  confidence: number; // 0-1 share of the window that agrees with `mode`
+  windowSpeedKmh: number;
+}
+
+interface SpeedSample {
+  speedKmh: number;
+  timestamp: number;
+}
+
+const MAX_SAMPLES = 60;
+
+/**
+ * Enter/exit thresholds of the mode at `index`. Explicit enterKmh/exitKmh
+ * from the profile win; otherwise the lower band edge +/- hysteresisKmh.
+ */
+export const getModeThresholds = (
+  profile: MovementProfile,
+  index: number
+): ModeThresholds => {
+  if (index <= 0) {
+    return { enterKmh: 0, exitKmh: 0 };
+  }
+  const mode: MovementModeProfile = profile.modes[index];
+  const edgeKmh = profile.modes[index - 1].maxSpeed;
+  return {
+    enterKmh: mode.enterKmh ?? edgeKmh + profile.hysteresisKmh,
+    exitKmh: mode.exitKmh ?? Math.max(0, edgeKmh - profile.hysteresisKmh),
+  };
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Mode Classifier
+ *
+ * The window speed is the median of the last windowMs of fixes, so a single
+ * GPS spike can't move it. The current mode only changes once the share of
+ * samples inside the candidate's band (scaled down until minSamples fixes
+ * are in) reaches minConfidence. Mode state stays with the caller.
+ */
+export class ModeClassifier {
+  private samples: SpeedSample[] = [];
+
+  constructor(
+    private readonly windowMs = CONFIG.movement.classifier.windowMs,
+    private readonly minSamples = CONFIG.movement.classifier.minSamples,
+    private readonly minConfidence = CONFIG.movement.classifier.minConfidence
+  ) {}
+
+  reset(): void {
+    this.samples = [];
+  }
+
+  classify(
+    speedKmh: number,
+    timestamp: number,
+    currentMode: MovementMode,
+    profile: MovementProfile
+  ): ModeClassification {
+    this.samples.push({ speedKmh, timestamp });
+    this.samples = this.samples
+      .filter(sample => timestamp - sample.timestamp <= this.windowMs)
+      .slice(-MAX_SAMPLES);
+
+    const speeds = this.samples.map(sample => sample.speedKmh);
+    const windowSpeedKmh = median(speeds);
+    const lastIndex = profile.modes.length - 1;
+    const current = Math.max(
+      0,
+      profile.modes.findIndex(mode => mode.name === currentMode)
+    );
+
+    // Climb while the next mode's enter threshold is met, else drop while
+    // the current mode's exit threshold is undercut
+    let candidate = current;
+    while (
+      candidate < lastIndex &&
+      windowSpeedKmh > getModeThresholds(profile, candidate + 1).enterKmh
+    ) {
+      candidate++;
+    }
+    if (candidate === current) {
+      while (
+        candidate > 0 &&
+        windowSpeedKmh < getModeThresholds(profile, candidate).exitKmh
+      ) {
+        candidate--;
+      }
+    }
+
+    const candidateConfidence = this.getConfidence(speeds, profile, candidate);
+    const index =
+      candidate !== current && candidateConfidence >= this.minConfidence
+        ? candidate
+        : current;
+
+    return {
+      mode: profile.modes[index].name,
+      candidate: profile.modes[candidate].name,
+      confidence:
+        index === candidate
+          ? candidateConfidence
+          : this.getConfidence(speeds, profile, index),
+      windowSpeedKmh,
+    };
+  }
+
+  // Share of samples within the mode's hysteresis band
+  private getConfidence(
+    speeds: number[],
+    profile: MovementProfile,
+    index: number
+  ): number {
+    const lowerKmh = getModeThresholds(profile, index).exitKmh;
+    const upperKmh =
+      index < profile.modes.length - 1
+        ? getModeThresholds(profile, index + 1).enterKmh
+        : Infinity;
+    const inBand = speeds.filter(
+      speed => (index === 0 || speed >= lowerKmh) && speed <= upperKmh
+    ).length;
+    const coverage = Math.min(1, speeds.length / this.minSamples);
+    return (inBand / speeds.length) * coverage;
+  }
+}
@@ -0,0 +1,341 @@
+// Movement Profiles - user-defined modes, speed bands and avatars
+// Replaces the compile-time CONFIG.movement.modes so a scooter, horse trek or
+// sailboat can be tuned without a rebuild (?profile= or console)
+
+import { CONFIG } from './config';
+import { logger } from './logger';
+import type {
+  MovementMode,
+  MovementModeProfile,
+  MovementProfile,
+} from '../types/trip';
+
+type RawObject = Record<string, unknown>;
+
+const STORAGE_KEY = 'tripOverlayMovementProfile';
+const MAX_MODES = 12;
+const MAX_PROFILE_SIZE = 64 * 1024;
+const FETCH_TIMEOUT = 15000;
+const MODE_NAME_PATTERN = /^[A-Za-z0-9_-]{1,24}$/;
+
+let cachedProfile: MovementProfile | null = null;
+
+// Built-in profile from CONFIG.movement - STATIONARY, WALKING, CYCLING, MOTORBIKE
+export const DEFAULT_MOVEMENT_PROFILE: MovementProfile = {
+  name: 'default',
+  modes: Object.entries(CONFIG.movement.modes)
+    .map(([name, mode]) => ({
+      name,
+      maxSpeed: mode.maxSpeed,
+      minMovementM: mode.minMovementM,
+      gpsThrottle: mode.gpsThrottle,
+      avatar: mode.avatar,
+      showSpeed: mode.showSpeed ?? false,
+    }))
+    .sort((a, b) => a.maxSpeed - b.maxSpeed),
+  hysteresisKmh: CONFIG.movement.hysteresisKmh,
+  modeSwitchDelayMs: CONFIG.movement.modeSwitchDelay,
+};
+
+const toNumber = (
+  value: unknown,
+  fallback: number | undefined,
+  label: string,
+  min: number,
+  max: number
+): number => {
+  if (value === undefined || value === null || value === '') {
+    if (fallback === undefined) {
+      throw new Error(`${label} is required`);
+    }
+    return fallback;
+  }
+  const number = Number(value);
+  if (!isFinite(number) || number < min || number > max) {
+    throw new Error(`${label} must be between ${min} and ${max}`);
+  }
+  return number;
+};
+
+const toOptionalNumber = (value: unknown, label: string): number | undefined =>
+  value === undefined || value === null || value === ''
+    ? undefined
+    : toNumber(value, undefined, label, 0, 1000);
+
+// Avatars may be site-relative paths or http(s) URLs - nothing else
+const toAvatar = (value: unknown, fallback: string, label: string): string => {
+  if (value === undefined || value === null || value === '') {
+    return fallback;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`${label} avatar must be a string`);
+  }
+  const protocol = new URL(value, window.location.href).protocol;
+  if (protocol !== 'https:' && protocol !== 'http:') {
+    throw new Error(`${label} avatar must be a path or http(s) URL`);
+  }
+  return value;
+};
+
+/**
+ * Validate and normalize a movement profile (JSON string or parsed object).
+ * Modes may be an array of { name, ... } or an object keyed by mode name
+ * like CONFIG.movement.modes. Throws with a human readable message.
+ */
+export const parseMovementProfile = (input: unknown): MovementProfile => {
+  const data = typeof input === 'string' ? JSON.parse(input) : input;
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Movement profile must be a JSON object');
+  }
+  const raw = data as RawObject;
+
+  const rawModes: RawObject[] = Array.isArray(raw.modes)
+    ? raw.modes.map(mode => (mode ?? {}) as RawObject)
+    : raw.modes && typeof raw.modes === 'object'
+      ? Object.entries(raw.modes as RawObject).map(([name, mode]) => ({
+          name,
+          ...((mode ?? {}) as RawObject),
+        }))
+      : [];
+  if (rawModes.length < 2) {
+    throw new Error('Movement profile needs at least 2 modes');
+  }
+  if (rawModes.length > MAX_MODES) {
+    throw new Error(`Movement profile has too many modes (max ${MAX_MODES})`);
+  }
+
+  const modes: MovementModeProfile[] = rawModes.map((rawMode, index) => {
+    const name = typeof rawMode.name === 'string' ? rawMode.name.trim() : '';
+    if (!MODE_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `Mode ${index + 1} needs a name of up to 24 letters, digits, - or _`
+      );
+    }
+    const builtIn = DEFAULT_MOVEMENT_PROFILE.modes.find(
+      mode => mode.name === name
+    );
+    const label = `Mode ${name}`;
+
+    return {
+      name,
+      maxSpeed: toNumber(
+        rawMode.maxSpeed,
+        builtIn?.maxSpeed,
+        `${label} maxSpeed`,
+        0.1,
+        1000
+      ),
+      minMovementM: toNumber(
+        rawMode.minMovementM,
+        builtIn?.minMovementM ?? 1,
+        `${label} minMovementM`,
+        0,
+        1000
+      ),
+      gpsThrottle: toNumber(
+        rawMode.gpsThrottle,
+        builtIn?.gpsThrottle ?? 1000,
+        `${label} gpsThrottle`,
+        0,
+        60000
+      ),
+      avatar: toAvatar(
+        rawMode.avatar,
+        builtIn?.avatar ?? DEFAULT_MOVEMENT_PROFILE.modes[0].avatar,
+        label
+      ),
+      showSpeed:
+        typeof rawMode.showSpeed === 'boolean'
+          ? rawMode.showSpeed
+          : (builtIn?.showSpeed ?? index > 0),
+      enterKmh: toOptionalNumber(rawMode.enterKmh, `${label} enterKmh`),
+      exitKmh: toOptionalNumber(rawMode.exitKmh, `${label} exitKmh`),
+    };
+  });
+
+  const names = new Set<string>();
+  modes.forEach((mode, index) => {
+    if (names.has(mode.name)) {
+      throw new Error(`Mode ${mode.name} is defined twice`);
+    }
+    names.add(mode.name);
+    if (
+      mode.enterKmh !== undefined &&
+      mode.exitKmh !== undefined &&
+      mode.exitKmh > mode.enterKmh
+    ) {
+      throw new Error(`Mode ${mode.name} exitKmh must not be above enterKmh`);
+    }
+    if (index > 0 && mode.maxSpeed <= modes[index - 1].maxSpeed) {
+      throw new Error(
+        `Mode ${mode.name} maxSpeed must be above ${modes[index - 1].name}'s (modes are listed slowest first)`
+      );
+    }
+  });
+
+  return {
+    name:
+      typeof raw.name === 'string' && raw.name.trim()
+        ? raw.name.trim().slice(0, 80)
+        : 'custom',
+    modes,
+    hysteresisKmh: toNumber(
+      raw.hysteresisKmh,
+      DEFAULT_MOVEMENT_PROFILE.hysteresisKmh,
+      'hysteresisKmh',
+      0,
+      50
+    ),
+    modeSwitchDelayMs: toNumber(
+      raw.modeSwitchDelayMs,
+      DEFAULT_MOVEMENT_PROFILE.modeSwitchDelayMs,
+      'modeSwitchDelayMs',
+      0,
+      300000
+    ),
+  };
+};
+
+const isProfileUrl = (source: string): boolean =>
+  /^(https?:)?\/\//i.test(source) ||
+  /^\.{0,2}\//.test(source) ||
+  /\.json(\?|$)/i.test(source);
+
+// URL-safe base64 (as produced by btoa + replace) with optional padding
+const decodeBase64 = (source: string): string => {
+  const normalized = source.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = normalized.padEnd(
+    normalized.length + ((4 - (normalized.length % 4)) % 4),
+    '='
+  );
+  const bytes = Uint8Array.from(atob(padded), char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+const fetchProfileText = async (url: string): Promise<string> => {
+  const resolved = new URL(url, window.location.href);
+  if (resolved.protocol !== 'https:' && resolved.protocol !== 'http:') {
+    throw new Error('Profile URL must use http or https');
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+
+  try {
+    const response = await fetch(resolved.toString(), {
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Profile download failed: ${response.status}`);
+    }
+    return await response.text();
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error('Profile download timed out');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+/**
+ * Resolve a profile source - URL, raw JSON or base64-encoded JSON
+ */
+export const resolveMovementProfile = async (
+  source: string
+): Promise<MovementProfile> => {
+  const trimmed = source.trim();
+  let text: string;
+  if (trimmed.startsWith('{')) {
+    text = trimmed;
+  } else if (isProfileUrl(trimmed)) {
+    text = await fetchProfileText(trimmed);
+  } else {
+    try {
+      text = decodeBase64(trimmed);
+    } catch {
+      throw new Error('Profile is not a URL, JSON or base64 JSON');
+    }
+  }
+
+  if (text.length > MAX_PROFILE_SIZE) {
+    throw new Error('Movement profile too large (>64KB)');
+  }
+  return parseMovementProfile(text);
+};
+
+/**
+ * Active profile - the stored custom profile, else the built-in default
+ */
+export const getMovementProfile = (): MovementProfile => {
+  if (cachedProfile) {
+    return cachedProfile;
+  }
+
+  cachedProfile = DEFAULT_MOVEMENT_PROFILE;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      cachedProfile = parseMovementProfile(stored);
+    }
+  } catch (error) {
+    logger.warn('Ignoring invalid stored movement profile:', error);
+  }
+  return cachedProfile;
+};
+
+/**
+ * Activate a profile (persisted for reloads and the dashboard).
+ * Pass null to go back to the built-in profile.
+ */
+export const setMovementProfile = (profile: MovementProfile | null): void => {
+  cachedProfile = profile ?? DEFAULT_MOVEMENT_PROFILE;
+  try {
+    if (profile) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    logger.warn('Failed to store movement profile:', error);
+  }
+  logger(
+    `🧭 Profile: Using "${cachedProfile.name}" (${cachedProfile.modes.map(mode => mode.name).join(', ')})`
+  );
+};
+
+export const loadMovementProfile = async (
+  source: string
+): Promise<MovementProfile> => {
+  const profile = await resolveMovementProfile(source);
+  setMovementProfile(profile);
+  return profile;
+};
+
+// Another page (overlay vs dashboard) changed the profile
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', event => {
+    if (event.key === STORAGE_KEY) {
+      cachedProfile = null;
+    }
+  });
+}
+
+export const getModeProfile = (
+  mode: MovementMode,
+  profile = getMovementProfile()
+): MovementModeProfile | undefined => {
+  return profile.modes.find(candidate => candidate.name === mode);
+};
+
+// Slowest mode of the profile - speeds within it count as stopped
+export const getStoppedMode = (
+  profile = getMovementProfile()
+): MovementModeProfile => profile.modes[0];
+
+// Position of a mode in the profile (slowest = 0, unknown = -1)
+export const getModeRank = (
+  mode: MovementMode,
+  profile = getMovementProfile()
+): number => profile.modes.findIndex(candidate => candidate.name === mode);
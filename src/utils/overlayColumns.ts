@@ -0,0 +1,59 @@
+// Overlay Columns - which stats the trip overlay shows (?columns=...)
+
+import { logger } from './logger';
+
+export type OverlayColumn =
+  | 'traveled'
+  | 'today'
+  | 'remaining'
+  | 'eta'
+  | 'avgSpeed';
+
+export const OVERLAY_COLUMNS: OverlayColumn[] = [
+  'traveled',
+  'today',
+  'remaining',
+  'eta',
+  'avgSpeed',
+];
+
+export const DEFAULT_OVERLAY_COLUMNS: OverlayColumn[] = [
+  'traveled',
+  'today',
+  'remaining',
+];
+
+const MAX_COLUMNS = 4;
+
+/**
+ * Parse a comma-separated column list, e.g. "traveled,today,eta"
+ * Unknown names are skipped; an empty result falls back to the defaults
+ */
+export const parseOverlayColumns = (value: string | null): OverlayColumn[] => {
+  if (!value) {
+    return DEFAULT_OVERLAY_COLUMNS;
+  }
+
+  const columns: OverlayColumn[] = [];
+  value.split(',').forEach(raw => {
+    const name = raw.trim();
+    const column = OVERLAY_COLUMNS.find(
+      candidate => candidate.toLowerCase() === name.toLowerCase()
+    );
+    if (!column) {
+      logger.warn(
+        `Unknown column "${name}" (valid: ${OVERLAY_COLUMNS.join(', ')})`
+      );
+    } else if (!columns.includes(column)) {
+      columns.push(column);
+    }
+  });
+
+  if (columns.length > MAX_COLUMNS) {
+    logger.warn(`Too many columns - showing the first ${MAX_COLUMNS}`);
+  }
+
+  return columns.length > 0
+    ? columns.slice(0, MAX_COLUMNS)
+    : DEFAULT_OVERLAY_COLUMNS;
+};
@@ -0,0 +1,83 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GpsEngine, type GpsRejectReason } from './gpsEngine';
+import { DEFAULT_MOVEMENT_PROFILE } from './movementProfile';
+import {
+  DEFAULT_ROUTE_DEMO_PROFILE,
+  parseRouteDemoProfile,
+  routeDemo,
+} from './routeDemo';
+import { normalizeRtirlPayload } from './rtirlPayload';
+
+describe('routeDemo', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.UTC(2026, 5, 14, 8, 0, 0));
+  });
+
+  afterEach(() => {
+    routeDemo.stop();
+    vi.useRealTimers();
+  });
+
+  it('rides the default profile through the engine without speed spikes', () => {
+    const segments = parseRouteDemoProfile(DEFAULT_ROUTE_DEMO_PROFILE);
+    const engine = new GpsEngine({
+      profile: DEFAULT_MOVEMENT_PROFILE,
+      smoothing: 'none',
+    });
+    let distanceKm = 0;
+    let maxSpeedKmh = 0;
+    const rejected: Partial<Record<GpsRejectReason, number>> = {};
+    const jumpTimes: number[] = [];
+    engine.on('distance', event => {
+      distanceKm += event.distanceKm;
+    });
+    engine.on('speed', ({ speedKmh }) => {
+      maxSpeedKmh = Math.max(maxSpeedKmh, speedKmh);
+    });
+    engine.on('rejected', ({ reason }) => {
+      rejected[reason] = (rejected[reason] ?? 0) + 1;
+      if (reason === 'jump') {
+        jumpTimes.push(Date.now());
+      }
+    });
+    let simulatedKm = 0;
+    routeDemo.subscribe(frame => {
+      simulatedKm = frame.distanceKm;
+    });
+
+    const startTime = Date.now();
+    routeDemo.start(
+      payload => {
+        const data = normalizeRtirlPayload(payload, 'demo', Date.now());
+        if (data) {
+          engine.process(data);
+        }
+      },
+      null,
+      segments
+    );
+    // One pass through the script, stopping before it starts over
+    const scriptS = segments.reduce((sum, { durationS }) => sum + durationS, 0);
+    vi.advanceTimersByTime((scriptS - 1) * 1000);
+    engine.dispose();
+
+    expect(simulatedKm).toBeGreaterThan(3);
+    // The bad-accuracy burst is dropped, but its distance counts with the
+    // next good fix instead of being thrown away as a jump. Setting off
+    // from a standstill at full speed may still lose a fix or two.
+    const burstStart = segments.findIndex(({ type }) => type === 'noisy');
+    const burstStartTime =
+      startTime +
+      segments
+        .slice(0, burstStart)
+        .reduce((sum, { durationS }) => sum + durationS * 1000, 0);
+    expect(rejected.accuracy).toBe(20);
+    expect(jumpTimes.filter(time => time >= burstStartTime)).toEqual([]);
+    expect(distanceKm).toBeGreaterThan(simulatedKm * 0.95);
+    expect(distanceKm).toBeLessThan(simulatedKm * 1.01);
+    // Fastest segment is 28 km/h with an 8% wobble
+    expect(maxSpeedKmh).toBeLessThan(31);
+  });
+});
@@ -0,0 +1,358 @@
+// Route Demo - simulated ride along a polyline for ?demo=route
+// Follows the imported route (or a built-in Vienna Ring loop) with a scripted
+// speed profile including stops, a tunnel GPS gap and a bad-accuracy burst
+
+import { calculateDistance } from './gps';
+import { logger } from './logger';
+import { getMovementProfile } from './movementProfile';
+import { buildRouteTrack } from './routeProjection';
+import type { Coordinates } from '../types/config';
+import type { MovementMode, RouteTrack } from '../types/trip';
+
+export type RouteDemoSegmentType =
+  | 'stop'
+  | 'walk'
+  | 'ride'
+  | 'tunnel'
+  | 'noisy';
+
+export interface RouteDemoSegment {
+  type: RouteDemoSegmentType;
+  durationS: number;
+  speedKmh: number;
+}
+
+// Flat demo payload - speed already in km/h (see normalizeRtirlPayload)
+export interface RouteDemoPayload {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  speed: number;
+  source: 'demo';
+}
+
+export interface RouteDemoFrame {
+  payload: RouteDemoPayload | null; // null while in a tunnel - no fix sent
+  segment: RouteDemoSegment;
+  mode: MovementMode; // Mode the simulated speed belongs to in the profile
+  position: Coordinates; // True position on the route
+  distanceKm: number; // Distance covered since start
+}
+
+type FrameListener = (frame: RouteDemoFrame) => void;
+
+const SEGMENT_TYPES: RouteDemoSegmentType[] = [
+  'stop',
+  'walk',
+  'ride',
+  'tunnel',
+  'noisy',
+];
+const DEFAULT_SPEEDS: Record<RouteDemoSegmentType, number> = {
+  stop: 0,
+  walk: 5,
+  ride: 20,
+  tunnel: 25,
+  noisy: 20,
+};
+const TICK_MS = 1000;
+const MAX_SEGMENTS = 50;
+const MAX_SEGMENT_S = 3600;
+const MAX_SPEED_KMH = 200;
+const GOOD_ACCURACY_M = 5;
+const NOISY_ACCURACY_M = [60, 150];
+const NOISY_SPEED_ERROR_KMH = 8;
+const LOOP_CLOSE_M = 50;
+const EARTH_RADIUS_M = 6371000;
+
+// Default script: type:seconds@km/h, repeated until the page closes
+export const DEFAULT_ROUTE_DEMO_PROFILE =
+  'stop:15,walk:60@5,ride:180@22,stop:20,ride:120@28,tunnel:40@25,ride:60@24,noisy:20@20,ride:120@22,walk:45@4';
+
+// Vienna Ring loop (~5km) - used when no route is imported
+const SAMPLE_ROUTE: Coordinates[] = [
+  { lat: 48.2116, lon: 16.3777 }, // Schwedenplatz
+  { lat: 48.2072, lon: 16.3797 }, // Stubentor
+  { lat: 48.2031, lon: 16.3786 }, // Stadtpark
+  { lat: 48.2013, lon: 16.3751 }, // Schwarzenbergplatz
+  { lat: 48.2027, lon: 16.3694 }, // Oper
+  { lat: 48.2045, lon: 16.3622 }, // Burgring
+  { lat: 48.2082, lon: 16.3586 }, // Parlament
+  { lat: 48.2148, lon: 16.362 }, // Schottentor
+  { lat: 48.218, lon: 16.368 }, // Rossauer Lände
+  { lat: 48.2116, lon: 16.3777 }, // Schwedenplatz
+];
+
+/**
+ * Parse a speed profile like "stop:20,walk:60@5,ride:300@22,tunnel:45@25".
+ * Each segment is type:seconds with an optional @km/h (type default
+ * otherwise). tunnel sends no fixes, noisy sends 60-150m accuracy fixes.
+ */
+export const parseRouteDemoProfile = (spec: string): RouteDemoSegment[] => {
+  const parts = spec
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean);
+  if (parts.length === 0) {
+    throw new Error('Demo profile needs at least one segment');
+  }
+  if (parts.length > MAX_SEGMENTS) {
+    throw new Error(`Demo profile has too many segments (max ${MAX_SEGMENTS})`);
+  }
+
+  return parts.map(part => {
+    const match = /^([a-z]+):(\d+(?:\.\d+)?)(?:@(\d+(?:\.\d+)?))?$/i.exec(part);
+    const type = match?.[1].toLowerCase() as RouteDemoSegmentType;
+    if (!match || !SEGMENT_TYPES.includes(type)) {
+      throw new Error(
+        `Invalid demo segment "${part}" (use ${SEGMENT_TYPES.join('|')}:seconds[@km/h])`
+      );
+    }
+    const durationS = Number(match[2]);
+    const speedKmh =
+      type === 'stop'
+        ? 0
+        : match[3] !== undefined
+          ? Number(match[3])
+          : DEFAULT_SPEEDS[type];
+    if (durationS < 1 || durationS > MAX_SEGMENT_S) {
+      throw new Error(
+        `Demo segment "${part}" must last 1-${MAX_SEGMENT_S} seconds`
+      );
+    }
+    if (speedKmh > MAX_SPEED_KMH) {
+      throw new Error(
+        `Demo segment "${part}" is faster than ${MAX_SPEED_KMH} km/h`
+      );
+    }
+    return { type, durationS, speedKmh };
+  });
+};
+
+/**
+ * Whether the route demo was requested via ?demo=route
+ */
+export const isRouteDemo = (): boolean =>
+  new URLSearchParams(window.location.search).get('demo') === 'route';
+
+/**
+ * Speed profile from ?demoProfile=, else the default script
+ */
+export const getRouteDemoProfile = (): RouteDemoSegment[] => {
+  const param = new URLSearchParams(window.location.search).get('demoProfile');
+  if (param) {
+    try {
+      return parseRouteDemoProfile(param);
+    } catch (error) {
+      logger.warn('Invalid demoProfile parameter:', error);
+    }
+  }
+  return parseRouteDemoProfile(DEFAULT_ROUTE_DEMO_PROFILE);
+};
+
+// Point `km` along the track, interpolated within its segment
+const pointAlong = (track: RouteTrack, km: number): Coordinates => {
+  const { points, cumulativeKm } = track;
+  let index = 1;
+  while (index < points.length - 1 && cumulativeKm[index] < km) {
+    index++;
+  }
+  const startKm = cumulativeKm[index - 1];
+  const lengthKm = cumulativeKm[index] - startKm;
+  const t =
+    lengthKm > 0 ? Math.min(1, Math.max(0, (km - startKm) / lengthKm)) : 0;
+  const a = points[index - 1];
+  const b = points[index];
+  return {
+    lat: a.lat + (b.lat - a.lat) * t,
+    lon: a.lon + (b.lon - a.lon) * t,
+  };
+};
+
+// Move a point by a random offset of up to maxM meters
+const scatter = (point: Coordinates, maxM: number): Coordinates => {
+  const distanceM = Math.random() * maxM;
+  const angle = Math.random() * 2 * Math.PI;
+  const cosLat = Math.cos((point.lat * Math.PI) / 180);
+  return {
+    lat:
+      point.lat +
+      ((distanceM * Math.cos(angle)) / EARTH_RADIUS_M) * (180 / Math.PI),
+    lon:
+      point.lon +
+      ((distanceM * Math.sin(angle)) / (EARTH_RADIUS_M * cosLat)) *
+        (180 / Math.PI),
+  };
+};
+
+// Profile mode whose speed band contains speedKmh
+const getModeForSpeed = (speedKmh: number): MovementMode => {
+  const { modes } = getMovementProfile();
+  return (
+    modes.find(mode => speedKmh <= mode.maxSpeed) ?? modes[modes.length - 1]
+  ).name;
+};
+
+/**
+ * Route Demo
+ *
+ * Advances along the route once per second at the current segment's speed
+ * and hands flat demo payloads to the caller - the demo location source
+ * feeds them into the same handler as live RTIRL data, so TripOverlay and
+ * Dashboard both see them as 'locationUpdate' events. Closed routes loop; open routes
+ * are ridden back and forth.
+ */
+class RouteDemo {
+  private timer: number | undefined;
+  private track: RouteTrack | null = null;
+  private segments: RouteDemoSegment[] = [];
+  private segmentIndex = 0;
+  private segmentElapsedS = 0;
+  private distanceKm = 0;
+  private lastTick = 0;
+  private onPayload: ((payload: RouteDemoPayload) => void) | null = null;
+  private listeners = new Set<FrameListener>();
+
+  isActive(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /**
+   * Start riding `route` (points of an imported route, or the built-in loop
+   * when null) with the given speed profile
+   */
+  start(
+    onPayload: (payload: RouteDemoPayload) => void,
+    route: Coordinates[] | null = null,
+    segments: RouteDemoSegment[] = getRouteDemoProfile()
+  ): void {
+    this.stop();
+    const points = route && route.length >= 2 ? route : SAMPLE_ROUTE;
+    this.track = buildRouteTrack(points, route ? 'route' : 'sample');
+    this.segments = segments;
+    this.segmentIndex = 0;
+    this.segmentElapsedS = 0;
+    this.distanceKm = 0;
+    this.onPayload = onPayload;
+    this.lastTick = Date.now();
+
+    logger(
+      `🎭 Route demo: ${route ? 'Following imported route' : 'Following sample route'} (${this.track.totalKm.toFixed(1)}km, ${segments.length} segments)`
+    );
+    this.logSegment();
+    this.tick();
+    this.timer = window.setInterval(() => this.tick(), TICK_MS);
+  }
+
+  stop(): void {
+    if (this.timer !== undefined) {
+      window.clearInterval(this.timer);
+      this.timer = undefined;
+      logger('🛑 Route demo: Stopped');
+    }
+    this.onPayload = null;
+  }
+
+  // Receive every simulated frame, including tunnel frames without a fix
+  subscribe(listener: FrameListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private tick(): void {
+    const track = this.track;
+    if (!track || this.segments.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const elapsedS = Math.min(5, Math.max(0, (now - this.lastTick) / 1000));
+    this.lastTick = now;
+
+    this.segmentElapsedS += elapsedS;
+    while (this.segmentElapsedS >= this.segments[this.segmentIndex].durationS) {
+      this.segmentElapsedS -= this.segments[this.segmentIndex].durationS;
+      this.segmentIndex = (this.segmentIndex + 1) % this.segments.length;
+      this.logSegment();
+    }
+
+    const segment = this.segments[this.segmentIndex];
+    // Small speed wobble so moving segments don't look synthetic
+    const speedKmh =
+      segment.speedKmh > 0
+        ? segment.speedKmh * (1 + Math.sin(now / 7000) * 0.08)
+        : 0;
+    this.distanceKm += (speedKmh / 3600) * elapsedS;
+    const position = this.positionAt(track, this.distanceKm);
+
+    let payload: RouteDemoPayload | null = null;
+    if (segment.type === 'noisy') {
+      const [minM, maxM] = NOISY_ACCURACY_M;
+      const accuracy = minM + Math.random() * (maxM - minM);
+      const reported = scatter(position, accuracy);
+      payload = {
+        latitude: reported.lat,
+        longitude: reported.lon,
+        accuracy,
+        speed: Math.max(
+          0,
+          speedKmh + (Math.random() - 0.5) * 2 * NOISY_SPEED_ERROR_KMH
+        ),
+        source: 'demo',
+      };
+    } else if (segment.type !== 'tunnel') {
+      payload = {
+        latitude: position.lat,
+        longitude: position.lon,
+        accuracy: GOOD_ACCURACY_M,
+        speed: speedKmh,
+        source: 'demo',
+      };
+    }
+
+    if (payload) {
+      this.onPayload?.(payload);
+    }
+    const frame: RouteDemoFrame = {
+      payload,
+      segment,
+      mode: getModeForSpeed(speedKmh),
+      position,
+      distanceKm: this.distanceKm,
+    };
+    this.listeners.forEach(listener => listener(frame));
+  }
+
+  private positionAt(track: RouteTrack, km: number): Coordinates {
+    if (track.totalKm <= 0) {
+      return track.points[0];
+    }
+    const { points } = track;
+    const isLoop =
+      calculateDistance(points[0], points[points.length - 1]) * 1000 <
+      LOOP_CLOSE_M;
+    const lap = km % (isLoop ? track.totalKm : track.totalKm * 2);
+    return pointAlong(
+      track,
+      lap <= track.totalKm ? lap : track.totalKm * 2 - lap
+    );
+  }
+
+  private logSegment(): void {
+    const segment = this.segments[this.segmentIndex];
+    const details: Record<RouteDemoSegmentType, string> = {
+      stop: 'stopped',
+      walk: `walking @ ${segment.speedKmh}km/h`,
+      ride: `riding @ ${segment.speedKmh}km/h`,
+      tunnel: `tunnel @ ${segment.speedKmh}km/h - no GPS`,
+      noisy: `riding @ ${segment.speedKmh}km/h - poor accuracy`,
+    };
+    logger(
+      `🎭 Route demo: Segment ${this.segmentIndex + 1}/${this.segments.length} - ${details[segment.type]} for ${segment.durationS}s`
+    );
+  }
+}
+
+export const routeDemo = new RouteDemo();
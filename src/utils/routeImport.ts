@@ -0,0 +1,187 @@
+// Route Import - GPX and KML parsing for planned routes
+// Supports file picker, URL fetch and raw string import (console / URL param)
+
+import { isValidGPS } from './gps';
+import { logger } from './logger';
+import type { Coordinates } from '../types/config';
+
+export interface ImportedRoute {
+  name?: string;
+  format: 'gpx' | 'kml';
+  points: Coordinates[];
+}
+
+const MAX_ROUTE_FILE_SIZE = 20 * 1024 * 1024; // 20MB
+const FETCH_TIMEOUT = 15000;
+
+const parseXml = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Route file is not valid XML');
+  }
+  return doc;
+};
+
+// Namespace-agnostic lookup (GPX 1.0/1.1 and KML 2.2 use default namespaces)
+const byLocalName = (root: Document | Element, name: string): Element[] => {
+  return Array.from(root.getElementsByTagNameNS('*', name));
+};
+
+const firstText = (
+  root: Document | Element,
+  name: string
+): string | undefined => {
+  const text = byLocalName(root, name)[0]?.textContent?.trim();
+  return text || undefined;
+};
+
+/**
+ * Parse GPX - prefers track points, then route points, then waypoints
+ */
+export const parseGpx = (text: string): ImportedRoute => {
+  const doc = parseXml(text);
+
+  const toPoints = (elements: Element[]): Coordinates[] =>
+    elements
+      .map(el => ({
+        lat: parseFloat(el.getAttribute('lat') || ''),
+        lon: parseFloat(el.getAttribute('lon') || ''),
+      }))
+      .filter(point => isValidGPS(point.lat, point.lon));
+
+  let points = toPoints(byLocalName(doc, 'trkpt'));
+  if (points.length < 2) {
+    points = toPoints(byLocalName(doc, 'rtept'));
+  }
+  if (points.length < 2) {
+    points = toPoints(byLocalName(doc, 'wpt'));
+  }
+
+  const trk = byLocalName(doc, 'trk')[0] || byLocalName(doc, 'rte')[0];
+  const name = (trk && firstText(trk, 'name')) || firstText(doc, 'name');
+
+  return { name, format: 'gpx', points };
+};
+
+/**
+ * Parse KML - concatenates all LineString coordinates (lon,lat[,alt] tuples)
+ */
+export const parseKml = (text: string): ImportedRoute => {
+  const doc = parseXml(text);
+  const points: Coordinates[] = [];
+
+  byLocalName(doc, 'LineString').forEach(lineString => {
+    const coordinates = firstText(lineString, 'coordinates');
+    if (!coordinates) {
+      return;
+    }
+    coordinates.split(/\s+/).forEach(tuple => {
+      const [lon, lat] = tuple.split(',').map(parseFloat);
+      if (isValidGPS(lat, lon)) {
+        points.push({ lat, lon });
+      }
+    });
+  });
+
+  // Google Earth tracks (gx:Track) use "lon lat alt" per gx:coord element
+  if (points.length < 2) {
+    byLocalName(doc, 'coord').forEach(coord => {
+      const [lon, lat] = (coord.textContent || '')
+        .trim()
+        .split(/\s+/)
+        .map(parseFloat);
+      if (isValidGPS(lat, lon)) {
+        points.push({ lat, lon });
+      }
+    });
+  }
+
+  const name =
+    firstText(byLocalName(doc, 'Placemark')[0] || doc, 'name') ||
+    firstText(doc, 'name');
+
+  return { name, format: 'kml', points };
+};
+
+/**
+ * Detect the format from content (falling back to the file name) and parse
+ */
+export const parseRouteFile = (text: string, fileName = ''): ImportedRoute => {
+  if (text.length > MAX_ROUTE_FILE_SIZE) {
+    throw new Error('Route file too large (>20MB)');
+  }
+
+  const head = text.slice(0, 2000).toLowerCase();
+  const isKml =
+    head.includes('<kml') ||
+    (!head.includes('<gpx') && /\.kml$/i.test(fileName));
+
+  const route = isKml ? parseKml(text) : parseGpx(text);
+  if (route.points.length < 2) {
+    throw new Error(
+      `No route found in ${route.format.toUpperCase()} (need at least 2 points)`
+    );
+  }
+
+  logger(
+    `🗺️ Route: Parsed ${route.format.toUpperCase()} "${route.name || fileName || 'unnamed'}" with ${route.points.length} points`
+  );
+  return route;
+};
+
+/**
+ * Fetch and parse a GPX/KML route from a URL
+ */
+export const fetchRouteFromUrl = async (
+  url: string
+): Promise<ImportedRoute> => {
+  const resolved = new URL(url, window.location.href);
+  if (resolved.protocol !== 'https:' && resolved.protocol !== 'http:') {
+    throw new Error('Route URL must use http or https');
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+
+  try {
+    const response = await fetch(resolved.toString(), {
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Route download failed: ${response.status}`);
+    }
+    return parseRouteFile(await response.text(), resolved.pathname);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error('Route download timed out');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+/**
+ * Open a file picker and parse the selected GPX/KML file
+ */
+export const pickRouteFile = (): Promise<ImportedRoute> => {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept =
+      '.gpx,.kml,application/gpx+xml,application/vnd.google-earth.kml+xml';
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) {
+        reject(new Error('No file selected'));
+        return;
+      }
+      try {
+        resolve(parseRouteFile(await file.text(), file.name));
+      } catch (error) {
+        reject(error);
+      }
+    };
+    input.click();
+  });
+};
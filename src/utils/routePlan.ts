@@ -0,0 +1,186 @@
+// Route Plan Utilities - multi-leg trip planning
+// Used by the trip store, GPS processor and console/URL controls
+
+import { calculateDistance, isValidCoordinates } from './gps';
+import { CONFIG } from './config';
+import type { Coordinates } from '../types/config';
+import type { RouteLeg, RoutePlan, RouteTrack } from '../types/trip';
+
+export interface RouteProgress {
+  legIndex: number;
+  leg: RouteLeg | null;
+  legDistanceKm: number;
+  legRemainingKm: number;
+  legProgressPercent: number;
+  tripDistanceKm: number;
+  tripTotalKm: number;
+  tripRemainingKm: number;
+  tripProgressPercent: number;
+}
+
+type RawObject = Record<string, unknown>;
+
+const MAX_LEGS = 200;
+
+// Accept both { lat, lon } and { latitude, longitude } for hand-written plans
+const toCoordinates = (value: unknown): Coordinates | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const raw = value as RawObject;
+  const lat = Number(raw.lat ?? raw.latitude);
+  const lon = Number(raw.lon ?? raw.lng ?? raw.longitude);
+  const coords = { lat, lon };
+  return isValidCoordinates(coords) ? coords : null;
+};
+
+/**
+ * Validate and normalize a route plan from JSON (string or parsed object).
+ * Throws with a human readable message when the plan is unusable.
+ */
+export const parseRoutePlan = (input: unknown): RoutePlan => {
+  const data = typeof input === 'string' ? JSON.parse(input) : input;
+  const plan = (Array.isArray(data) ? {} : (data ?? {})) as RawObject;
+
+  // Allow a bare array of legs as shorthand
+  const rawLegs = Array.isArray(data) ? data : plan.legs;
+  if (!Array.isArray(rawLegs) || rawLegs.length === 0) {
+    throw new Error('Route plan must contain at least one leg');
+  }
+  if (rawLegs.length > MAX_LEGS) {
+    throw new Error(`Route plan has too many legs (max ${MAX_LEGS})`);
+  }
+
+  const legs: RouteLeg[] = rawLegs.map((value: unknown, index: number) => {
+    const rawLeg = (value ?? {}) as RawObject;
+    const start = toCoordinates(rawLeg.start);
+    const end = toCoordinates(rawLeg.end);
+    if (!start || !end) {
+      throw new Error(`Leg ${index + 1} has invalid start/end coordinates`);
+    }
+
+    // Fall back to straight-line distance if no planned distance is given
+    const plannedKm = Number(rawLeg.distanceKm ?? rawLeg.distance);
+    const distanceKm =
+      isFinite(plannedKm) && plannedKm > 0
+        ? plannedKm
+        : calculateDistance(start, end);
+
+    return {
+      name:
+        typeof rawLeg.name === 'string' && rawLeg.name.trim()
+          ? rawLeg.name.trim().slice(0, 80)
+          : `Leg ${index + 1}`,
+      start,
+      end,
+      distanceKm,
+    };
+  });
+
+  const radius = Number(plan.arrivalRadiusM);
+
+  return {
+    name: typeof plan.name === 'string' ? plan.name.slice(0, 80) : undefined,
+    legs,
+    arrivalRadiusM: isFinite(radius) && radius > 0 ? radius : undefined,
+  };
+};
+
+// Total planned distance of all legs
+export const getRoutePlanDistance = (plan: RoutePlan): number => {
+  return plan.legs.reduce((sum, leg) => sum + leg.distanceKm, 0);
+};
+
+// Same legs and settings - plans are compared after parseRoutePlan, so
+// their keys are always in the same order
+export const isSameRoutePlan = (
+  a: RoutePlan | null,
+  b: RoutePlan | null
+): boolean => {
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+// Planned distance of all legs before the given leg index
+export const getLegStartOffset = (
+  plan: RoutePlan,
+  legIndex: number
+): number => {
+  return plan.legs
+    .slice(0, Math.max(0, legIndex))
+    .reduce((sum, leg) => sum + leg.distanceKm, 0);
+};
+
+export const getArrivalRadiusM = (plan: RoutePlan): number => {
+  return plan.arrivalRadiusM ?? CONFIG.trip.arrivalRadiusM;
+};
+
+// Check if the rider is within the arrival radius of the leg's end point
+export const hasArrivedAtLegEnd = (
+  leg: RouteLeg,
+  position: Coordinates,
+  radiusM: number
+): boolean => {
+  return calculateDistance(position, leg.end) * 1000 <= radiusM;
+};
+
+/**
+ * Current-leg and whole-trip progress for a route plan.
+ * Leg distance is capped at the planned leg distance so a detour on one leg
+ * never pushes the whole-trip figure into the next leg.
+ */
+export const getRouteProgress = (
+  plan: RoutePlan,
+  legIndex: number,
+  legDistanceKm: number
+): RouteProgress => {
+  const index = Math.min(Math.max(0, legIndex), plan.legs.length - 1);
+  const leg = plan.legs[index] ?? null;
+  const tripTotalKm = getRoutePlanDistance(plan);
+  const legPlannedKm = leg ? leg.distanceKm : 0;
+  const legDoneKm = Math.min(Math.max(0, legDistanceKm), legPlannedKm);
+  const tripDistanceKm = getLegStartOffset(plan, index) + legDoneKm;
+
+  return {
+    legIndex: index,
+    leg,
+    legDistanceKm: Math.max(0, legDistanceKm),
+    legRemainingKm: Math.max(0, legPlannedKm - legDoneKm),
+    legProgressPercent:
+      legPlannedKm > 0 ? Math.min(100, (legDoneKm / legPlannedKm) * 100) : 0,
+    tripDistanceKm,
+    tripTotalKm,
+    tripRemainingKm: Math.max(0, tripTotalKm - tripDistanceKm),
+    tripProgressPercent:
+      tripTotalKm > 0 ? Math.min(100, (tripDistanceKm / tripTotalKm) * 100) : 0,
+  };
+};
+
+// Trip store fields that decide how far it is to the destination
+export interface TripDistanceState {
+  totalDistanceKm: number;
+  totalTraveledKm: number;
+  routePlan: RoutePlan | null;
+  currentLegIndex: number;
+  legDistanceKm: number;
+  routeTrack: RouteTrack | null;
+  routeProgressKm: number;
+}
+
+/**
+ * Distance left to the destination - along the imported route first, then
+ * through the route plan's legs, else trip total minus traveled. Shared by
+ * the overlay's remaining/ETA columns and getStatus().
+ */
+export const getTripRemainingKm = (state: TripDistanceState): number => {
+  if (state.routeTrack) {
+    return Math.max(0, state.routeTrack.totalKm - state.routeProgressKm);
+  }
+  if (state.routePlan) {
+    return getRouteProgress(
+      state.routePlan,
+      state.currentLegIndex,
+      state.legDistanceKm
+    ).tripRemainingKm;
+  }
+  return Math.max(0, state.totalDistanceKm - state.totalTraveledKm);
+};
@@ -0,0 +1,172 @@
+// Route Projection - along-route progress for imported GPX/KML routes
+// Projects live GPS fixes onto the planned polyline so progress and remaining
+// distance follow the road instead of accumulated Haversine distance
+
+import { calculateDistance } from './gps';
+import type { Coordinates } from '../types/config';
+import type { RouteProjection, RouteTrack } from '../types/trip';
+
+interface ProjectionOptions {
+  // Segment index of the previous projection - search starts around it
+  fromSegment?: number;
+  // How far behind/ahead of the previous projection to search (km)
+  searchBehindKm?: number;
+  searchAheadKm?: number;
+}
+
+const MIN_POINT_SPACING_M = 10;
+const MAX_TRACK_POINTS = 5000;
+const EARTH_RADIUS_M = 6371000;
+
+/**
+ * Build a route track with cumulative distances.
+ * Drops near-duplicate points and decimates very long tracks so projecting
+ * every fix onto it stays cheap (the track itself is kept in IndexedDB, see
+ * routeTrackStore).
+ */
+export const buildRouteTrack = (
+  points: Coordinates[],
+  name?: string
+): RouteTrack => {
+  const spaced: Coordinates[] = [];
+  for (const point of points) {
+    const last = spaced[spaced.length - 1];
+    if (!last || calculateDistance(last, point) * 1000 >= MIN_POINT_SPACING_M) {
+      spaced.push({ lat: point.lat, lon: point.lon });
+    }
+  }
+
+  // Keep the final point so the route ends exactly at the destination
+  const lastInput = points[points.length - 1];
+  if (lastInput && spaced.length > 0) {
+    spaced[spaced.length - 1] = { lat: lastInput.lat, lon: lastInput.lon };
+  }
+
+  let trackPoints = spaced;
+  if (spaced.length > MAX_TRACK_POINTS) {
+    const step = Math.ceil(spaced.length / MAX_TRACK_POINTS);
+    trackPoints = spaced.filter(
+      (_, index) => index % step === 0 || index === spaced.length - 1
+    );
+  }
+
+  const cumulativeKm: number[] = [0];
+  for (let i = 1; i < trackPoints.length; i++) {
+    cumulativeKm.push(
+      cumulativeKm[i - 1] +
+        calculateDistance(trackPoints[i - 1], trackPoints[i])
+    );
+  }
+
+  return {
+    name,
+    points: trackPoints,
+    cumulativeKm,
+    totalKm: cumulativeKm[cumulativeKm.length - 1] ?? 0,
+  };
+};
+
+// Project a point onto a single segment using a local equirectangular plane
+const projectOntoSegment = (
+  a: Coordinates,
+  b: Coordinates,
+  p: Coordinates
+): { t: number; distanceM: number; point: Coordinates } => {
+  const cosLat = Math.cos((p.lat * Math.PI) / 180);
+  const toXY = (c: Coordinates) => ({
+    x: ((c.lon - p.lon) * Math.PI * EARTH_RADIUS_M * cosLat) / 180,
+    y: ((c.lat - p.lat) * Math.PI * EARTH_RADIUS_M) / 180,
+  });
+
+  const pa = toXY(a);
+  const pb = toXY(b);
+  const dx = pb.x - pa.x;
+  const dy = pb.y - pa.y;
+  const lengthSq = dx * dx + dy * dy;
+
+  // p is the origin of the plane, so project (0,0) onto segment a→b
+  const t =
+    lengthSq > 0
+      ? Math.min(1, Math.max(0, -(pa.x * dx + pa.y * dy) / lengthSq))
+      : 0;
+  const x = pa.x + t * dx;
+  const y = pa.y + t * dy;
+
+  return {
+    t,
+    distanceM: Math.sqrt(x * x + y * y),
+    point: {
+      lat: a.lat + t * (b.lat - a.lat),
+      lon: a.lon + t * (b.lon - a.lon),
+    },
+  };
+};
+
+const findClosestSegment = (
+  track: RouteTrack,
+  position: Coordinates,
+  startSegment: number,
+  endSegment: number
+): RouteProjection | null => {
+  let best: RouteProjection | null = null;
+
+  for (let i = startSegment; i <= endSegment; i++) {
+    const a = track.points[i];
+    const b = track.points[i + 1];
+    const projected = projectOntoSegment(a, b, position);
+
+    if (!best || projected.distanceM < best.offRouteM) {
+      const segmentKm = track.cumulativeKm[i + 1] - track.cumulativeKm[i];
+      best = {
+        distanceAlongKm: track.cumulativeKm[i] + projected.t * segmentKm,
+        offRouteM: projected.distanceM,
+        segmentIndex: i,
+        point: projected.point,
+      };
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Project a GPS position onto the route.
+ * Searches a window around the previous projection first so self-crossing
+ * routes (loops, switchbacks) don't snap to the wrong pass, and falls back to
+ * a full search when the rider is far from that window.
+ */
+export const projectOntoRoute = (
+  track: RouteTrack,
+  position: Coordinates,
+  options: ProjectionOptions = {}
+): RouteProjection | null => {
+  const segmentCount = track.points.length - 1;
+  if (segmentCount < 1) {
+    return null;
+  }
+
+  const { fromSegment, searchBehindKm = 1, searchAheadKm = 25 } = options;
+
+  if (fromSegment !== undefined && fromSegment >= 0) {
+    const anchorKm = track.cumulativeKm[Math.min(fromSegment, segmentCount)];
+    let start = Math.min(fromSegment, segmentCount - 1);
+    while (start > 0 && anchorKm - track.cumulativeKm[start] < searchBehindKm) {
+      start--;
+    }
+    let end = Math.min(fromSegment, segmentCount - 1);
+    while (
+      end < segmentCount - 1 &&
+      track.cumulativeKm[end + 1] - anchorKm < searchAheadKm
+    ) {
+      end++;
+    }
+
+    const windowed = findClosestSegment(track, position, start, end);
+    // Accept the windowed result when it is reasonably close to the road
+    if (windowed && windowed.offRouteM < 500) {
+      return windowed;
+    }
+  }
+
+  return findClosestSegment(track, position, 0, segmentCount - 1);
+};
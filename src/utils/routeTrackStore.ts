@@ -0,0 +1,99 @@
+import { logger } from './logger';
+import type { RouteTrack } from '../types/trip';
+
+const DB_NAME = 'tripOverlayRoute';
+const DB_VERSION = 1;
+const STORE_NAME = 'tracks';
+const CURRENT_KEY = 'current';
+
+interface StoredRouteTrack {
+  key: string;
+  id: string;
+  track: RouteTrack;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Route Track Store - keeps the imported GPX/KML route in IndexedDB
+ *
+ * A long route has thousands of points, too many for the trip store's
+ * localStorage entry (rewritten on every fix). Only the current
+ * track is kept; the trip store persists its id and loads the points back
+ * on startup and when another OBS browser source imports a route.
+ */
+class RouteTrackStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB not available'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Store `track` as the current route, replacing the previous one
+   * @returns Id to load it back with
+   */
+  async save(track: RouteTrack): Promise<string> {
+    const id = `${Date.now().toString(36)}-${track.points.length}`;
+    const db = await this.openDatabase();
+    const record: StoredRouteTrack = { key: CURRENT_KEY, id, track };
+    await requestToPromise(
+      db
+        .transaction(STORE_NAME, 'readwrite')
+        .objectStore(STORE_NAME)
+        .put(record)
+    );
+    logger.debug(`[Route] Stored ${track.points.length} route points`);
+    return id;
+  }
+
+  /**
+   * The current route if it is still the one saved as `id` - null once it
+   * has been replaced or cleared
+   */
+  async load(id: string): Promise<RouteTrack | null> {
+    const db = await this.openDatabase();
+    const record = await requestToPromise<StoredRouteTrack | undefined>(
+      db
+        .transaction(STORE_NAME, 'readonly')
+        .objectStore(STORE_NAME)
+        .get(CURRENT_KEY)
+    );
+    return record?.id === id ? record.track : null;
+  }
+
+  /**
+   * Delete the stored route
+   */
+  async clear(): Promise<void> {
+    const db = await this.openDatabase();
+    await requestToPromise(
+      db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear()
+    );
+  }
+}
+
+// Export singleton instance
+export const routeTrackStore = new RouteTrackStore();
@@ -0,0 +1,154 @@
+// RTIRL Payload - raw listener data to LocationData
+// Shared by the live socket and the replay harness so both take exactly the
+// same path into the 'locationUpdate' event
+
+import { validateCoordinates } from './config';
+import type { LocationData } from '../types/rtirl';
+
+type RawObject = Record<string, unknown>;
+
+const DEFAULT_ACCURACY_M = 10;
+const MAX_ALTITUDE_M = 100000;
+// Device clocks drift - a fix "from the future" beyond this is not trusted
+const MAX_CLOCK_AHEAD_MS = 60 * 1000;
+// Buffered fixes after a long tunnel are fine; anything older is a bad clock
+const MAX_FIX_AGE_MS = 60 * 60 * 1000;
+// Sources whose payloads carry the time the device took the fix. Replay and
+// demo fixes are timed by the player, never by the recorded payload
+const DEVICE_TIME_SOURCES: LocationData['source'][] = [
+  'rtirl',
+  'geolocation',
+  'websocket',
+];
+
+const toNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'number' ? value : Number(value);
+  return value !== undefined && value !== null && isFinite(number)
+    ? number
+    : undefined;
+};
+
+// Epoch ms from ms, seconds (OwnTracks tst) or an ISO date string
+const toEpochMs = (value: unknown): number | undefined => {
+  if (typeof value === 'string' && isNaN(Number(value))) {
+    const parsed = Date.parse(value);
+    return isFinite(parsed) ? parsed : undefined;
+  }
+  const time = toNumber(value);
+  if (time === undefined || time <= 0) {
+    return undefined;
+  }
+  return time < 1e12 ? time * 1000 : time;
+};
+
+/**
+ * When the device took the fix - reportedAt/timestamp/updatedAt from the
+ * payload - if it is plausible next to the receipt time, else undefined.
+ * RTIRL only sends reportedAt in the pull key document; the platform user
+ * id feed has coordinates alone.
+ */
+export const getDeviceTimestamp = (
+  data: unknown,
+  receivedAt: number
+): number | undefined => {
+  if (!data || typeof data !== 'object') {
+    return undefined;
+  }
+  const raw = data as RawObject;
+  const location = (raw.location ?? {}) as RawObject;
+  const time = toEpochMs(
+    raw.reportedAt ??
+      raw.timestamp ??
+      location.reportedAt ??
+      location.timestamp ??
+      raw.updatedAt
+  );
+  if (
+    time === undefined ||
+    time > receivedAt + MAX_CLOCK_AHEAD_MS ||
+    time < receivedAt - MAX_FIX_AGE_MS
+  ) {
+    return undefined;
+  }
+  return time;
+};
+
+// Degrees clockwise from north in [0, 360)
+export const toHeading = (value: unknown): number | undefined => {
+  const heading = toNumber(value);
+  return heading === undefined ? undefined : ((heading % 360) + 360) % 360;
+};
+
+// Meters; RTIRL altitude channels send { EGM96, WGS84 } - EGM96 is sea level
+export const toAltitude = (value: unknown): number | undefined => {
+  const raw = (value ?? {}) as RawObject;
+  const altitude =
+    typeof value === 'object' && value !== null
+      ? (toNumber(raw.EGM96) ?? toNumber(raw.WGS84))
+      : toNumber(value);
+  return altitude !== undefined && Math.abs(altitude) <= MAX_ALTITUDE_M
+    ? altitude
+    : undefined;
+};
+
+/**
+ * Normalize one raw RTIRL payload. Handles both the RTIRL format (nested
+ * `location`) and the flat demo format. Speed arrives in m/s from RTIRL and
+ * is converted to km/h exactly once here; demo speeds are already km/h.
+ * Heading (heading/bearing/course) and altitude are kept when present.
+ * The timestamp is the device's fix time when the payload has a plausible
+ * one (see getDeviceTimestamp), otherwise `receivedAt`, so fixes buffered
+ * through a tunnel keep their real spacing.
+ * Returns null for hidden locations and unusable coordinates.
+ */
+export const normalizeRtirlPayload = (
+  data: unknown,
+  source: LocationData['source'],
+  receivedAt: number
+): LocationData | null => {
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+  const raw = data as RawObject;
+  const location = (raw.location ?? {}) as RawObject;
+
+  const latitude = toNumber(raw.latitude) ?? toNumber(location.latitude);
+  const longitude = toNumber(raw.longitude) ?? toNumber(location.longitude);
+  if (
+    latitude === undefined ||
+    longitude === undefined ||
+    !validateCoordinates({ lat: latitude, lon: longitude })
+  ) {
+    return null;
+  }
+
+  const speed = toNumber(raw.speed);
+  let speedKmh = 0;
+  if (speed !== undefined) {
+    speedKmh = raw.source === 'demo' ? speed : Math.max(0, speed * 3.6);
+  }
+
+  const locationData: LocationData = {
+    latitude,
+    longitude,
+    accuracy: toNumber(raw.accuracy) || DEFAULT_ACCURACY_M,
+    speed: speedKmh,
+    timestamp:
+      (DEVICE_TIME_SOURCES.includes(source) &&
+        getDeviceTimestamp(data, receivedAt)) ||
+      receivedAt,
+    receivedAt,
+    source,
+  };
+  const heading = toHeading(
+    raw.heading ?? raw.bearing ?? raw.course ?? location.heading
+  );
+  if (heading !== undefined) {
+    locationData.heading = heading;
+  }
+  const altitude = toAltitude(raw.altitude ?? location.altitude);
+  if (altitude !== undefined) {
+    locationData.altitude = altitude;
+  }
+  return locationData;
+};
@@ -0,0 +1,100 @@
+// RTIRL Streamer - which RealtimeIRL feed the overlay follows
+// Platform and user id (or a pull key) can be chosen per URL, so a single
+// deployment can serve several streamers
+
+import { CONFIG } from './config';
+import { logger } from './logger';
+
+export type RtirlPlatform = 'twitch' | 'kick' | 'youtube' | 'pullKey';
+
+export interface RtirlStreamer {
+  platform: RtirlPlatform;
+  id: string; // Platform user id, or the pull key for 'pullKey'
+}
+
+const RTIRL_PLATFORMS: RtirlPlatform[] = [
+  'twitch',
+  'kick',
+  'youtube',
+  'pullKey',
+];
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+let cachedStreamer: RtirlStreamer | null = null;
+
+const isPlatform = (value: string): value is RtirlPlatform =>
+  (RTIRL_PLATFORMS as string[]).includes(value);
+
+// URL parameter if valid, else the fallback (with a warning when invalid)
+const getParam = (
+  params: URLSearchParams,
+  key: string,
+  fallback: string,
+  isValid: (value: string) => boolean,
+  logValue = true
+): string => {
+  const value = params.get(key);
+  if (!value) {
+    return fallback;
+  }
+  if (isValid(value)) {
+    return value;
+  }
+  logger.warn(`Invalid ${key} parameter:`, logValue ? value : '(hidden)');
+  return fallback;
+};
+
+/**
+ * Streamer from ?platform= / ?userId= / ?pullKey=, else CONFIG.rtirl.
+ * A pull key implies the 'pullKey' platform.
+ */
+export const getRtirlStreamer = (): RtirlStreamer => {
+  if (cachedStreamer) {
+    return cachedStreamer;
+  }
+
+  const params = new URLSearchParams(window.location.search);
+  const pullKey = getParam(
+    params,
+    'pullKey',
+    CONFIG.rtirl.pullKey,
+    value => ID_PATTERN.test(value),
+    false
+  );
+
+  let platform: RtirlPlatform = isPlatform(CONFIG.rtirl.platform)
+    ? CONFIG.rtirl.platform
+    : 'twitch';
+  platform = getParam(
+    params,
+    'platform',
+    platform,
+    isPlatform
+  ) as RtirlPlatform;
+  if (params.get('pullKey') && pullKey && !params.get('platform')) {
+    platform = 'pullKey';
+  }
+
+  cachedStreamer =
+    platform === 'pullKey'
+      ? { platform, id: pullKey }
+      : {
+          platform,
+          id: getParam(params, 'userId', CONFIG.rtirl.userId, value =>
+            ID_PATTERN.test(value)
+          ),
+        };
+  return cachedStreamer;
+};
+
+/**
+ * Human readable streamer - pull keys are secret, so only their start shows
+ */
+export const describeRtirlStreamer = (
+  streamer: RtirlStreamer = getRtirlStreamer()
+): string => {
+  if (streamer.platform === 'pullKey') {
+    return streamer.id ? `pull key ${streamer.id.slice(0, 4)}…` : 'pull key';
+  }
+  return `${streamer.platform}/${streamer.id || '(no user id)'}`;
+};
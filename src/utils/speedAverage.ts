@@ -0,0 +1,125 @@
+// Speed Average Utilities - moving-time-only averages and ETA
+// Stationary time (breaks, traffic lights, lunch) never counts toward averages
+
+// Sample gaps longer than this are treated as signal loss, not moving time
+export const MAX_MOVING_SAMPLE_MS = 2 * 60 * 1000;
+
+// Minimum moving time before an average is considered meaningful
+const MIN_AVERAGE_TIME_MS = 2 * 60 * 1000;
+
+interface SpeedSample {
+  distanceKm: number;
+  durationMs: number;
+}
+
+export interface ArrivalEstimate {
+  remainingMs: number;
+  arrivalTime: Date;
+  speedKmh: number;
+}
+
+export interface MovingTotals {
+  recentAverageKmh: number | null;
+  todayMovingKm: number;
+  todayMovingTimeMs: number;
+  totalMovingKm: number;
+  totalMovingTimeMs: number;
+}
+
+/**
+ * Rolling moving average over the most recent moving time.
+ * Only fed with moving samples, so stops don't drag the average down.
+ */
+export class MovingAverageEngine {
+  private samples: SpeedSample[] = [];
+  private windowTimeMs = 0;
+
+  constructor(private readonly windowMs = 30 * 60 * 1000) {}
+
+  addSample(distanceKm: number, durationMs: number): void {
+    if (
+      !isFinite(distanceKm) ||
+      distanceKm < 0 ||
+      !isFinite(durationMs) ||
+      durationMs <= 0
+    ) {
+      return;
+    }
+
+    this.samples.push({ distanceKm, durationMs });
+    this.windowTimeMs += durationMs;
+
+    // Drop the oldest samples once the window is full
+    while (
+      this.samples.length > 1 &&
+      this.windowTimeMs - this.samples[0].durationMs >= this.windowMs
+    ) {
+      this.windowTimeMs -= this.samples.shift()!.durationMs;
+    }
+  }
+
+  getAverageKmh(): number | null {
+    const distanceKm = this.samples.reduce(
+      (sum, sample) => sum + sample.distanceKm,
+      0
+    );
+    return calculateAverageSpeed(distanceKm, this.windowTimeMs);
+  }
+
+  reset(): void {
+    this.samples = [];
+    this.windowTimeMs = 0;
+  }
+}
+
+// Average speed over moving time, null until enough moving time is collected
+export const calculateAverageSpeed = (
+  distanceKm: number,
+  movingTimeMs: number
+): number | null => {
+  if (movingTimeMs < MIN_AVERAGE_TIME_MS || distanceKm <= 0) {
+    return null;
+  }
+  return distanceKm / (movingTimeMs / (1000 * 60 * 60));
+};
+
+// Best available speed for ETA: recent pace, then today's, then whole trip
+export const getEtaSpeedKmh = (totals: MovingTotals): number | null => {
+  return (
+    totals.recentAverageKmh ??
+    calculateAverageSpeed(totals.todayMovingKm, totals.todayMovingTimeMs) ??
+    calculateAverageSpeed(totals.totalMovingKm, totals.totalMovingTimeMs)
+  );
+};
+
+export const estimateArrival = (
+  remainingKm: number,
+  speedKmh: number | null,
+  now = Date.now()
+): ArrivalEstimate | null => {
+  if (!speedKmh || speedKmh <= 0 || remainingKm <= 0) {
+    return null;
+  }
+  const remainingMs = (remainingKm / speedKmh) * 60 * 60 * 1000;
+  return {
+    remainingMs,
+    arrivalTime: new Date(now + remainingMs),
+    speedKmh,
+  };
+};
+
+// Compact riding-time format: "45m", "3h 05m", "2d 4h"
+export const formatDuration = (ms: number): string => {
+  const totalMinutes = Math.max(0, Math.round(ms / 60000));
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) {
+    return `${days}d ${hours}h`;
+  }
+  if (hours > 0) {
+    return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  }
+  return `${minutes}m`;
+};
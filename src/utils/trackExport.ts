@@ -0,0 +1,138 @@
+// Track Export - GPX 1.1 and GeoJSON export of the recorded ridden path
+// One file per day so each riding day can be shared or uploaded on its own
+
+import { downloadFile } from './download';
+import { logger } from './logger';
+import { trackRecorder } from './trackRecorder';
+import type { TrackPoint } from '../types/trip';
+
+export type TrackExportFormat = 'gpx' | 'geojson';
+
+// Namespace for the speed/accuracy/mode extension elements (GPX 1.1 requires
+// extension content to live outside the GPX namespace)
+const GPX_EXTENSION_NS = 'https://github.com/kevintongg/trip-overlay/gpx/1';
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Group points by their local calendar day, preserving time order
+export const splitTrackByDay = (
+  points: TrackPoint[]
+): Map<string, TrackPoint[]> => {
+  const days = new Map<string, TrackPoint[]>();
+  points.forEach(point => {
+    const dayPoints = days.get(point.day) || [];
+    dayPoints.push(point);
+    days.set(point.day, dayPoints);
+  });
+  return days;
+};
+
+/**
+ * GPX 1.1 with one track per day. Speed, accuracy and movement mode go into
+ * <extensions> since GPX 1.1 has no standard speed element.
+ */
+export const toGpx = (points: TrackPoint[], name: string): string => {
+  const tracks = Array.from(splitTrackByDay(points)).map(([day, dayPoints]) => {
+    const trkpts = dayPoints
+      .map(
+        point =>
+          `      <trkpt lat="${point.lat.toFixed(7)}" lon="${point.lon.toFixed(7)}">
+        <time>${new Date(point.timestamp).toISOString()}</time>
+        <extensions>
+          <trip:speed>${(point.speedKmh / 3.6).toFixed(2)}</trip:speed>${
+            point.accuracy !== null
+              ? `
+          <trip:accuracy>${point.accuracy.toFixed(1)}</trip:accuracy>`
+              : ''
+          }
+          <trip:mode>${point.mode}</trip:mode>
+        </extensions>
+      </trkpt>`
+      )
+      .join('\n');
+
+    return `  <trk>
+    <name>${escapeXml(`${name} ${day}`)}</name>
+    <trkseg>
+${trkpts}
+    </trkseg>
+  </trk>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Trip Overlay" xmlns="http://www.topografix.com/GPX/1/1" xmlns:trip="${GPX_EXTENSION_NS}">
+  <metadata>
+    <name>${escapeXml(name)}</name>
+    <time>${new Date().toISOString()}</time>
+  </metadata>
+${tracks.join('\n')}
+</gpx>
+`;
+};
+
+/**
+ * GeoJSON FeatureCollection with one LineString feature per day.
+ * Per-point data is kept in parallel arrays under `properties`.
+ */
+export const toGeoJson = (points: TrackPoint[], name: string): string => {
+  const features = Array.from(splitTrackByDay(points)).map(
+    ([day, dayPoints]) => ({
+      type: 'Feature',
+      properties: {
+        name: `${name} ${day}`,
+        day,
+        times: dayPoints.map(point => new Date(point.timestamp).toISOString()),
+        speedsKmh: dayPoints.map(point => Number(point.speedKmh.toFixed(1))),
+        accuracies: dayPoints.map(point => point.accuracy),
+        modes: dayPoints.map(point => point.mode),
+      },
+      geometry: {
+        type: 'LineString',
+        coordinates: dayPoints.map(point => [point.lon, point.lat]),
+      },
+    })
+  );
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+};
+
+/**
+ * Download the recorded track - one file per day, or a single day if given
+ */
+export const exportTrack = async (
+  format: TrackExportFormat = 'gpx',
+  day?: string
+): Promise<string> => {
+  const points = await trackRecorder.getPoints(day);
+  if (points.length === 0) {
+    return day ? `No track recorded for ${day}` : 'No track recorded yet';
+  }
+
+  const days = splitTrackByDay(points);
+  days.forEach((dayPoints, dayKey) => {
+    const name = 'Trip Overlay';
+    if (format === 'geojson') {
+      downloadFile(
+        toGeoJson(dayPoints, name),
+        `trip-track-${dayKey}.geojson`,
+        'application/geo+json'
+      );
+    } else {
+      downloadFile(
+        toGpx(dayPoints, name),
+        `trip-track-${dayKey}.gpx`,
+        'application/gpx+xml'
+      );
+    }
+  });
+
+  logger(
+    `📤 Track: Exported ${points.length} points as ${format.toUpperCase()} (${days.size} day${days.size === 1 ? '' : 's'})`
+  );
+  return `Track exported: ${days.size} ${format.toUpperCase()} file(s), ${points.length} points`;
+};
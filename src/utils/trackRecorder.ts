@@ -0,0 +1,178 @@
+import { getRiderDay } from './dailyReset';
+import { logger } from './logger';
+import type { TrackPoint } from '../types/trip';
+
+const DB_NAME = 'tripOverlayTrack';
+const DB_VERSION = 1;
+const STORE_NAME = 'points';
+const DAY_INDEX = 'day';
+
+// Calendar day (YYYY-MM-DD) in the rider's timezone - matches what the rider
+// calls "today" even when OBS runs on a cloud machine elsewhere
+export const getTrackDay = (timestamp: number): string => {
+  return getRiderDay(timestamp);
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Track Recorder - persists accepted GPS fixes in IndexedDB
+ *
+ * localStorage is too small for a multi-week ride (one fix per second adds up
+ * fast), so the ridden path lives in IndexedDB and survives reloads.
+ * Writes are buffered and flushed in one transaction to keep OBS browser
+ * sources responsive.
+ */
+class TrackRecorder {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private buffer: TrackPoint[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private disabled = false;
+
+  // Configuration
+  private readonly FLUSH_DELAY_MS = 2000;
+  private readonly MAX_BUFFER_SIZE = 25;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB not available'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, {
+              keyPath: 'id',
+              autoIncrement: true,
+            });
+            store.createIndex(DAY_INDEX, DAY_INDEX, { unique: false });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      this.dbPromise.catch(error => {
+        this.disabled = true;
+        this.dbPromise = null;
+        logger.warn('⚠️ Track: Recording disabled -', error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Queue an accepted GPS fix for storage
+   */
+  record(point: Omit<TrackPoint, 'id' | 'day'>): void {
+    if (this.disabled) {
+      return;
+    }
+
+    this.buffer.push({ ...point, day: getTrackDay(point.timestamp) });
+
+    if (this.buffer.length >= this.MAX_BUFFER_SIZE) {
+      void this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        void this.flush();
+      }, this.FLUSH_DELAY_MS);
+    }
+  }
+
+  /**
+   * Write buffered points to IndexedDB
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.buffer.length === 0) {
+      return;
+    }
+
+    const points = this.buffer;
+    this.buffer = [];
+
+    try {
+      const db = await this.openDatabase();
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        points.forEach(point => store.add(point));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+      logger.debug(`[Track] Stored ${points.length} points`);
+    } catch (error) {
+      logger.error('❌ Track: Failed to store points:', error);
+    }
+  }
+
+  /**
+   * Get recorded points (optionally for a single day), oldest first
+   */
+  async getPoints(day?: string): Promise<TrackPoint[]> {
+    await this.flush();
+    const db = await this.openDatabase();
+    const store = db
+      .transaction(STORE_NAME, 'readonly')
+      .objectStore(STORE_NAME);
+    const request = day
+      ? store.index(DAY_INDEX).getAll(IDBKeyRange.only(day))
+      : store.getAll();
+    const points = await requestToPromise<TrackPoint[]>(request);
+    return points.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * List the days that have recorded points
+   */
+  async getDays(): Promise<string[]> {
+    await this.flush();
+    const db = await this.openDatabase();
+    const index = db
+      .transaction(STORE_NAME, 'readonly')
+      .objectStore(STORE_NAME)
+      .index(DAY_INDEX);
+    const days: string[] = [];
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openKeyCursor(null, 'nextunique');
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          days.push(String(cursor.key));
+          cursor.continue();
+        } else {
+          resolve();
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+    return days;
+  }
+
+  /**
+   * Delete all recorded points
+   */
+  async clear(): Promise<void> {
+    this.buffer = [];
+    const db = await this.openDatabase();
+    await requestToPromise(
+      db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear()
+    );
+    logger('🗑️ Track: Recorded track cleared');
+  }
+}
+
+// Export singleton instance
+export const trackRecorder = new TrackRecorder();
@@ -0,0 +1,223 @@
+// Weather Ahead - forecast at points further along the planned route
+// Points sit at fixed distances ahead of the rider; the forecast hour is
+// picked from the arrival time at the current average speed
+
+import { CONFIG } from './config';
+import { logger } from './logger';
+import { getRouteProgress } from './routePlan';
+import type { Coordinates } from '../types/config';
+import type { RoutePlan, RouteTrack } from '../types/trip';
+import type {
+  HourlyWeather,
+  WeatherConditionType,
+  WeatherData,
+} from '../types/weather';
+
+export interface RouteAheadSample {
+  routeKm: number; // Along the route from its start
+  aheadKm: number; // From the rider
+  position: Coordinates;
+  isDestination: boolean;
+}
+
+export interface RouteAheadForecast {
+  hour: HourlyWeather;
+  wetType: 'rain' | 'snow' | null; // null = dry
+}
+
+interface RemainingRoute {
+  points: Coordinates[];
+  cumulativeKm: number[];
+  totalKm: number;
+  progressKm: number;
+}
+
+const MAX_AHEAD_POINTS = 4;
+const MAX_AHEAD_KM = 500;
+const HOUR_S = 3600;
+
+const WET_CONDITIONS: WeatherConditionType[] = [
+  'drizzle',
+  'rain',
+  'snow',
+  'thunderstorm',
+];
+
+/**
+ * ?ahead=true samples CONFIG.weather.aheadDistancesKm, ?ahead=30,60 custom
+ * distances in km (up to 4); [] = no weather ahead
+ */
+export const parseAheadParam = (value: string | null): number[] => {
+  if (!value || value === 'false') {
+    return [];
+  }
+  if (value === 'true') {
+    return CONFIG.weather.aheadDistancesKm;
+  }
+  const distances = value.split(',').map(Number);
+  if (
+    distances.length <= MAX_AHEAD_POINTS &&
+    distances.every(km => isFinite(km) && km > 0 && km <= MAX_AHEAD_KM)
+  ) {
+    return [...new Set(distances)].sort((a, b) => a - b);
+  }
+  logger.warn(
+    'Invalid ahead parameter:',
+    value,
+    `(must be true, false or up to ${MAX_AHEAD_POINTS} comma-separated distances in km, max ${MAX_AHEAD_KM})`
+  );
+  return [];
+};
+
+/**
+ * The planned route as one polyline with the rider's progress along it -
+ * imported track first, else the route plan's straight legs
+ */
+export const getRemainingRoute = (
+  routeTrack: RouteTrack | null,
+  routeProgressKm: number,
+  routePlan: RoutePlan | null,
+  currentLegIndex: number,
+  legDistanceKm: number
+): RemainingRoute | null => {
+  if (routeTrack && routeTrack.points.length > 1) {
+    return {
+      points: routeTrack.points,
+      cumulativeKm: routeTrack.cumulativeKm,
+      totalKm: routeTrack.totalKm,
+      progressKm: Math.min(Math.max(0, routeProgressKm), routeTrack.totalKm),
+    };
+  }
+  if (routePlan && routePlan.legs.length > 0) {
+    // Planned leg distances, so progress matches the trip overlay
+    const cumulativeKm = [0];
+    for (const leg of routePlan.legs) {
+      cumulativeKm.push(cumulativeKm[cumulativeKm.length - 1] + leg.distanceKm);
+    }
+    const progress = getRouteProgress(
+      routePlan,
+      currentLegIndex,
+      legDistanceKm
+    );
+    return {
+      points: [routePlan.legs[0].start, ...routePlan.legs.map(leg => leg.end)],
+      cumulativeKm,
+      totalKm: progress.tripTotalKm,
+      progressKm: progress.tripDistanceKm,
+    };
+  }
+  return null;
+};
+
+// Point `km` along the polyline, interpolated within its segment
+const pointAlongRoute = (route: RemainingRoute, km: number): Coordinates => {
+  const { points, cumulativeKm } = route;
+  let i = 1;
+  while (i < points.length - 1 && cumulativeKm[i] < km) {
+    i++;
+  }
+  const segmentKm = cumulativeKm[i] - cumulativeKm[i - 1];
+  const t =
+    segmentKm > 0
+      ? Math.min(1, Math.max(0, (km - cumulativeKm[i - 1]) / segmentKm))
+      : 1;
+  const a = points[i - 1];
+  const b = points[i];
+  return {
+    lat: a.lat + (b.lat - a.lat) * t,
+    lon: a.lon + (b.lon - a.lon) * t,
+  };
+};
+
+/**
+ * Sample points `distancesKm` ahead of the rider, plus the destination when
+ * it comes sooner than the furthest one. Points snap to a
+ * settings.aheadSnapKm grid along the route, so they - and their weather
+ * cache entries - only move every few km instead of with every fix.
+ */
+export const sampleRouteAhead = (
+  route: RemainingRoute,
+  distancesKm: number[],
+  settings = CONFIG.weather
+): RouteAheadSample[] => {
+  const { totalKm, progressKm } = route;
+  const snapKm = settings.aheadSnapKm;
+  const samples: RouteAheadSample[] = [];
+
+  for (const distanceKm of distancesKm) {
+    const routeKm = Math.round((progressKm + distanceKm) / snapKm) * snapKm;
+    if (
+      routeKm <= progressKm ||
+      routeKm >= totalKm - snapKm ||
+      samples.some(sample => sample.routeKm === routeKm)
+    ) {
+      continue;
+    }
+    samples.push({
+      routeKm,
+      aheadKm: routeKm - progressKm,
+      position: pointAlongRoute(route, routeKm),
+      isDestination: false,
+    });
+  }
+
+  const remainingKm = totalKm - progressKm;
+  if (remainingKm > snapKm && remainingKm <= Math.max(...distancesKm)) {
+    samples.push({
+      routeKm: totalKm,
+      aheadKm: remainingKm,
+      position: route.points[route.points.length - 1],
+      isDestination: true,
+    });
+  }
+
+  return samples;
+};
+
+/**
+ * Forecast hour covering `arrivalTime` and whether it looks wet there -
+ * null when the forecast doesn't reach that far
+ */
+export const getForecastAt = (
+  weather: WeatherData,
+  arrivalTime: number,
+  settings = CONFIG.weather
+): RouteAheadForecast | null => {
+  const arrivalS = arrivalTime / 1000;
+  const hour = weather.hourly.find(
+    entry => entry.time <= arrivalS && entry.time + HOUR_S > arrivalS
+  );
+  if (!hour) {
+    return null;
+  }
+
+  const isWet =
+    WET_CONDITIONS.includes(hour.condition.type) ||
+    (hour.precipitationProbability !== null
+      ? hour.precipitationProbability >= settings.rainProbabilityPct
+      : (hour.precipitationMm ?? 0) >= settings.rainIntensityMmH);
+
+  return {
+    hour,
+    wetType: isWet ? (hour.condition.type === 'snow' ? 'snow' : 'rain') : null,
+  };
+};
+
+// Town from a reverse geocode ("District, City, Country" -> "City");
+// null for the coordinate fallback
+export const getPlaceName = (location: string): string | null => {
+  const parts = location.split(',').map(part => part.trim());
+  if (parts.length === 0 || /^-?\d/.test(parts[0])) {
+    return null;
+  }
+  return parts.length > 1 ? parts[parts.length - 2] : parts[0];
+};
+
+// "~40 min", "~2h"
+export const formatAheadEta = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) {
+    return `~${Math.max(5, Math.round(minutes / 5) * 5)} min`;
+  }
+  return `~${Math.round(minutes / 60)}h`;
+};
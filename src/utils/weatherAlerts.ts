@@ -0,0 +1,99 @@
+// Weather Alerts - which official warnings the dashboard shows, and how
+// An alert shows from the moment it is issued until it ends or is dismissed
+
+import { logger } from './logger';
+import type { WeatherAlert, WeatherAlertSeverity } from '../types/weather';
+
+const SEVERITY_RANK: Record<WeatherAlertSeverity, number> = {
+  unknown: 0,
+  minor: 1,
+  moderate: 2,
+  severe: 3,
+  extreme: 4,
+};
+
+const SEVERITIES = Object.keys(SEVERITY_RANK) as WeatherAlertSeverity[];
+
+/**
+ * ?alerts=false hides alerts; ?alerts=<severity> shows only alerts at
+ * least that severe (minor, moderate, severe, extreme). Returns the
+ * minimum severity, or null when hidden.
+ */
+export const parseAlertsParam = (
+  value: string | null
+): WeatherAlertSeverity | null => {
+  if (!value || value === 'true') {
+    return 'unknown';
+  }
+  if (value === 'false') {
+    return null;
+  }
+  if ((SEVERITIES as string[]).includes(value)) {
+    return value as WeatherAlertSeverity;
+  }
+  logger.warn(
+    'Invalid alerts parameter:',
+    value,
+    `(must be true, false or ${SEVERITIES.filter(s => s !== 'unknown').join(', ')})`
+  );
+  return 'unknown';
+};
+
+/**
+ * Alerts to show at `now`, most severe first
+ */
+export const getVisibleAlerts = (
+  alerts: WeatherAlert[],
+  now: number,
+  minSeverity: WeatherAlertSeverity,
+  dismissed: Record<string, number> = {}
+): WeatherAlert[] => {
+  const nowS = now / 1000;
+  return alerts
+    .filter(
+      alert =>
+        alert.end > nowS &&
+        !(alert.id in dismissed) &&
+        SEVERITY_RANK[alert.severity] >= SEVERITY_RANK[minSeverity]
+    )
+    .sort(
+      (a, b) =>
+        SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] ||
+        a.start - b.start
+    );
+};
+
+/**
+ * Validity window in the rider's timezone: "until 19:00" once started,
+ * "16:00–19:00" later today, "Tue 16:00–19:00" or "Tue 16:00 – Wed 08:00"
+ * on other days
+ */
+export const formatAlertWindow = (
+  alert: WeatherAlert,
+  now: number,
+  timeZone: string | undefined,
+  use12Hour: boolean
+): string => {
+  const formatDay = (time: number) =>
+    new Date(time).toLocaleDateString('en-US', { weekday: 'short', timeZone });
+  const formatTime = (time: number, withDay: boolean) =>
+    new Date(time).toLocaleTimeString('en-US', {
+      weekday: withDay ? 'short' : undefined,
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: use12Hour,
+      timeZone,
+    });
+
+  const start = alert.start * 1000;
+  const end = alert.end * 1000;
+  const today = formatDay(now);
+  if (start <= now) {
+    return `until ${formatTime(end, formatDay(end) !== today)}`;
+  }
+  const startText = formatTime(start, formatDay(start) !== today);
+  if (formatDay(start) === formatDay(end)) {
+    return `${startText}–${formatTime(end, false)}`;
+  }
+  return `${startText} – ${formatTime(end, true)}`;
+};
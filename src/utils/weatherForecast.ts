@@ -0,0 +1,140 @@
+// Weather Forecast - what the next hours hold for the rider
+// The nowcast (minutely) answers "when does it start raining" to the
+// minute; beyond its reach the hourly forecast's chance of rain is used
+
+import { CONFIG } from './config';
+import { logger } from './logger';
+import type {
+  HourlyWeather,
+  WeatherConditionType,
+  WeatherData,
+} from '../types/weather';
+
+export interface IncomingPrecipitation {
+  type: 'rain' | 'snow';
+  startsAt: number; // Unix seconds
+  minutes: number; // From now
+}
+
+const MIN_HOURLY_HOURS = 3;
+const MAX_HOURLY_HOURS = 6;
+const HOUR_S = 3600;
+
+const WET_CONDITIONS: WeatherConditionType[] = [
+  'drizzle',
+  'rain',
+  'snow',
+  'thunderstorm',
+];
+
+/**
+ * ?hourly=true shows CONFIG.weather.hourlyDefaultHours, ?hourly=3..6 that
+ * many hours; 0 = no forecast strip
+ */
+export const parseHourlyForecastHours = (value: string | null): number => {
+  if (!value || value === 'false') {
+    return 0;
+  }
+  if (value === 'true') {
+    return CONFIG.weather.hourlyDefaultHours;
+  }
+  const hours = Number(value);
+  if (
+    Number.isInteger(hours) &&
+    hours >= MIN_HOURLY_HOURS &&
+    hours <= MAX_HOURLY_HOURS
+  ) {
+    return hours;
+  }
+  logger.warn(
+    'Invalid hourly parameter:',
+    value,
+    `(must be true or ${MIN_HOURLY_HOURS}-${MAX_HOURLY_HOURS})`
+  );
+  return 0;
+};
+
+// Hours starting after `now`, soonest first
+export const getUpcomingHours = (
+  weather: WeatherData,
+  now: number,
+  count: number
+): HourlyWeather[] =>
+  weather.hourly.filter(hour => hour.time * 1000 > now).slice(0, count);
+
+/**
+ * When rain (or snow) starts within settings.rainAlertHorizonMin, or null
+ * if it stays dry - or is already wet, since the rider knows by then
+ */
+export const findIncomingPrecipitation = (
+  weather: WeatherData,
+  now: number,
+  settings = CONFIG.weather
+): IncomingPrecipitation | null => {
+  if (WET_CONDITIONS.includes(weather.current.condition.type)) {
+    return null;
+  }
+
+  const nowS = Math.floor(now / 1000);
+  const horizonS = nowS + settings.rainAlertHorizonMin * 60;
+  const { minutely, hourly } = weather;
+
+  let startsAt: number | null = null;
+  let nowcastEnd = nowS;
+  if (minutely.length > 0) {
+    const stepS =
+      minutely.length > 1 ? minutely[1].time - minutely[0].time : 60;
+    const upcoming = minutely.filter(
+      minute => minute.time + stepS > nowS && minute.time <= horizonS
+    );
+    const wetIndex = upcoming.findIndex(
+      minute => minute.precipitationMmH >= settings.rainIntensityMmH
+    );
+    if (wetIndex !== -1) {
+      if (upcoming[wetIndex].time <= nowS) {
+        return null; // Raining right now
+      }
+      startsAt = upcoming[wetIndex].time;
+    }
+    nowcastEnd = Math.max(nowS, minutely[minutely.length - 1].time + stepS);
+  }
+
+  if (startsAt === null) {
+    const wetHour = hourly.find(
+      hour =>
+        hour.time + HOUR_S > nowcastEnd &&
+        hour.time <= horizonS &&
+        (hour.precipitationProbability !== null
+          ? hour.precipitationProbability >= settings.rainProbabilityPct
+          : (hour.precipitationMm ?? 0) >= settings.rainIntensityMmH)
+    );
+    if (!wetHour) {
+      return null;
+    }
+    startsAt = Math.max(wetHour.time, nowcastEnd);
+  }
+
+  const hour = hourly.find(
+    entry => entry.time <= startsAt && entry.time + HOUR_S > startsAt
+  );
+  return {
+    type: hour?.condition.type === 'snow' ? 'snow' : 'rain',
+    startsAt,
+    minutes: Math.max(0, Math.round((startsAt - nowS) / 60)),
+  };
+};
+
+// "Rain in ~40 min", "Snow in ~2 h"
+export const formatIncomingPrecipitation = ({
+  type,
+  minutes,
+}: IncomingPrecipitation): string => {
+  const label = type === 'snow' ? 'Snow' : 'Rain';
+  if (minutes < 5) {
+    return `${label} any minute`;
+  }
+  if (minutes < 60) {
+    return `${label} in ~${Math.round(minutes / 5) * 5} min`;
+  }
+  return `${label} in ~${Math.round(minutes / 60)} h`;
+};
@@ -0,0 +1,81 @@
+// Weather Providers - where forecasts come from
+// Every provider normalizes into WeatherData, so the dashboard and its
+// formatters don't care which API answered
+
+import { logger } from './logger';
+import { LocalWeatherProvider } from './weatherProviders/localProvider';
+import { OpenMeteoProvider } from './weatherProviders/openMeteoProvider';
+import { OwmProvider } from './weatherProviders/owmProvider';
+import { ServerWeatherProvider } from './weatherProviders/serverProvider';
+import type { WeatherProvider, WeatherProviderType } from '../types/weather';
+
+const PROVIDER_TYPES: WeatherProviderType[] = [
+  'server',
+  'owm',
+  'open-meteo',
+  'local',
+];
+
+let cachedProviderType: WeatherProviderType | null = null;
+
+/**
+ * Provider chosen via ?weatherProvider=, else the /weather function
+ */
+export const getWeatherProviderType = (): WeatherProviderType => {
+  if (cachedProviderType) {
+    return cachedProviderType;
+  }
+
+  let type: WeatherProviderType = 'server';
+  const param = new URLSearchParams(window.location.search).get(
+    'weatherProvider'
+  );
+  if (param) {
+    if ((PROVIDER_TYPES as string[]).includes(param)) {
+      type = param as WeatherProviderType;
+    } else {
+      logger.warn(
+        'Invalid weatherProvider parameter:',
+        param,
+        `(must be ${PROVIDER_TYPES.join(', ')})`
+      );
+    }
+  }
+
+  cachedProviderType = type;
+  return type;
+};
+
+export const createWeatherProvider = (
+  type: WeatherProviderType
+): WeatherProvider => {
+  switch (type) {
+    case 'owm':
+      return new OwmProvider();
+    case 'open-meteo':
+      return new OpenMeteoProvider();
+    case 'local':
+      return new LocalWeatherProvider();
+    case 'server':
+    default:
+      return new ServerWeatherProvider();
+  }
+};
+
+/**
+ * Providers to try in order. The /weather function falls back to OWM
+ * direct (only with VITE_OWM_API_KEY) and then keyless Open-Meteo; a
+ * provider picked via URL parameter is used on its own.
+ */
+export const getWeatherProviderChain = (
+  type: WeatherProviderType = getWeatherProviderType()
+): WeatherProvider[] => {
+  if (type !== 'server') {
+    return [createWeatherProvider(type)];
+  }
+  return [
+    createWeatherProvider('server'),
+    ...(import.meta.env.VITE_OWM_API_KEY ? [createWeatherProvider('owm')] : []),
+    createWeatherProvider('open-meteo'),
+  ];
+};
@@ -0,0 +1,71 @@
+// Local provider - a recorded Open-Meteo forecast for offline dev and tests
+import {
+  normalizeOpenMeteoWeather,
+  type OpenMeteoResponse,
+} from './openMeteoProvider';
+import { normalizeOwmAlerts, type OwmAlert } from './owmProvider';
+import type { WeatherData, WeatherProvider } from '../../types/weather';
+
+// Served from public/, so it works without network; the /weather function
+// returns the same file with WEATHER_PROVIDER=local
+export const WEATHER_FIXTURE_URL = '/fixtures/weather-open-meteo.json';
+
+const DAY_S = 24 * 3600;
+
+// Open-Meteo has no warnings, so the fixture adds some in OWM's format
+export type WeatherFixture = OpenMeteoResponse & { alerts?: OwmAlert[] };
+
+const shift = (times: number[], by: number) => times.map(time => time + by);
+
+/**
+ * Move a recorded fixture to the present by whole days, so its first day
+ * is today and the hourly forecast and alerts line up with the clock
+ */
+export const normalizeWeatherFixture = (
+  data: WeatherFixture,
+  now = Date.now()
+): WeatherData => {
+  const nowS = Math.floor(now / 1000);
+  const dayShift =
+    Math.floor((nowS - (data.daily.time[0] ?? nowS)) / DAY_S) * DAY_S;
+
+  const weather = normalizeOpenMeteoWeather(
+    {
+      ...data,
+      current: { ...data.current, time: nowS },
+      minutely_15: data.minutely_15 && {
+        ...data.minutely_15,
+        time: shift(data.minutely_15.time, dayShift),
+      },
+      hourly: { ...data.hourly, time: shift(data.hourly.time, dayShift) },
+      daily: { ...data.daily, time: shift(data.daily.time, dayShift) },
+    },
+    'local'
+  );
+  const alerts = (data.alerts ?? []).map(alert => ({
+    ...alert,
+    start: alert.start + dayShift,
+    end: alert.end + dayShift,
+  }));
+  return { ...weather, alerts: normalizeOwmAlerts(alerts) };
+};
+
+/**
+ * Always answers with the fixture, wherever the rider is - deterministic
+ * weather for offline dev and tests, and never touches the API quota
+ */
+export class LocalWeatherProvider implements WeatherProvider {
+  readonly type = 'local';
+
+  async fetchWeather(
+    _lat: number,
+    _lon: number,
+    signal: AbortSignal
+  ): Promise<WeatherData> {
+    const response = await fetch(WEATHER_FIXTURE_URL, { signal });
+    if (!response.ok) {
+      throw new Error(`Weather fixture missing: ${response.status}`);
+    }
+    return normalizeWeatherFixture(await response.json());
+  }
+}
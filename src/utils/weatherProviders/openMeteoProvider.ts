@@ -0,0 +1,167 @@
+// Open-Meteo provider - free forecast API, no key needed
+import type {
+  WeatherCondition,
+  WeatherConditionType,
+  WeatherData,
+  WeatherProvider,
+} from '../../types/weather';
+
+// Same query the /weather function sends with WEATHER_PROVIDER=open-meteo
+export const OPEN_METEO_QUERY = [
+  'current=temperature_2m,apparent_temperature,relative_humidity_2m,weather_code,is_day,wind_speed_10m,wind_direction_10m,uv_index,precipitation',
+  'minutely_15=precipitation',
+  'forecast_minutely_15=8',
+  'hourly=temperature_2m,weather_code,is_day,precipitation_probability,precipitation',
+  'daily=temperature_2m_max,temperature_2m_min,weather_code,precipitation_probability_max',
+  'wind_speed_unit=ms',
+  'timezone=auto',
+  'timeformat=unixtime',
+  'forecast_days=2',
+].join('&');
+
+// The parts of the forecast response we read (timeformat=unixtime)
+export interface OpenMeteoResponse {
+  timezone: string;
+  utc_offset_seconds: number;
+  current: {
+    time: number;
+    temperature_2m: number;
+    apparent_temperature: number;
+    relative_humidity_2m: number;
+    weather_code: number;
+    is_day: number;
+    wind_speed_10m: number;
+    wind_direction_10m: number;
+    uv_index?: number | null;
+    precipitation?: number | null; // mm in the last 15 minutes
+  };
+  minutely_15?: {
+    time: number[]; // End of each 15 minute interval
+    precipitation: (number | null)[]; // mm in the interval
+  };
+  hourly: {
+    time: number[];
+    temperature_2m: number[];
+    weather_code: number[];
+    is_day: number[];
+    precipitation_probability?: (number | null)[];
+    precipitation?: (number | null)[];
+  };
+  daily: {
+    time: number[];
+    temperature_2m_max: number[];
+    temperature_2m_min: number[];
+    weather_code: number[];
+    precipitation_probability_max?: (number | null)[];
+  };
+}
+
+// WMO weather interpretation codes -> type, description and OWM icon base
+const WMO_CODES: Record<number, [WeatherConditionType, string, string]> = {
+  0: ['clear', 'clear sky', '01'],
+  1: ['clouds', 'mainly clear', '02'],
+  2: ['clouds', 'partly cloudy', '03'],
+  3: ['clouds', 'overcast', '04'],
+  45: ['fog', 'fog', '50'],
+  48: ['fog', 'depositing rime fog', '50'],
+  51: ['drizzle', 'light drizzle', '09'],
+  53: ['drizzle', 'drizzle', '09'],
+  55: ['drizzle', 'dense drizzle', '09'],
+  56: ['drizzle', 'light freezing drizzle', '09'],
+  57: ['drizzle', 'freezing drizzle', '09'],
+  61: ['rain', 'light rain', '10'],
+  63: ['rain', 'moderate rain', '10'],
+  65: ['rain', 'heavy rain', '10'],
+  66: ['rain', 'light freezing rain', '13'],
+  67: ['rain', 'freezing rain', '13'],
+  71: ['snow', 'light snow', '13'],
+  73: ['snow', 'snow', '13'],
+  75: ['snow', 'heavy snow', '13'],
+  77: ['snow', 'snow grains', '13'],
+  80: ['rain', 'light rain showers', '09'],
+  81: ['rain', 'rain showers', '09'],
+  82: ['rain', 'violent rain showers', '09'],
+  85: ['snow', 'light snow showers', '13'],
+  86: ['snow', 'snow showers', '13'],
+  95: ['thunderstorm', 'thunderstorm', '11'],
+  96: ['thunderstorm', 'thunderstorm with hail', '11'],
+  99: ['thunderstorm', 'thunderstorm with heavy hail', '11'],
+};
+
+const QUARTER_HOUR_S = 900;
+
+const toCondition = (code: number, isDay: boolean): WeatherCondition => {
+  const [type, description, icon] = WMO_CODES[code] ?? WMO_CODES[3];
+  return { type, description, icon: `${icon}${isDay ? 'd' : 'n'}` };
+};
+
+/**
+ * Forecast response (see OPEN_METEO_QUERY) to the normalized model
+ */
+export const normalizeOpenMeteoWeather = (
+  data: OpenMeteoResponse,
+  provider: WeatherData['provider'] = 'open-meteo'
+): WeatherData => {
+  const { current, minutely_15: minutely, hourly, daily } = data;
+  return {
+    provider,
+    current: {
+      temp: current.temperature_2m,
+      feelsLike: current.apparent_temperature,
+      humidity: current.relative_humidity_2m,
+      uvi: current.uv_index ?? null,
+      windSpeed: current.wind_speed_10m,
+      windDeg: current.wind_direction_10m,
+      precipitationMmH:
+        typeof current.precipitation === 'number'
+          ? current.precipitation * 4
+          : null,
+      condition: toCondition(current.weather_code, current.is_day === 1),
+    },
+    minutely: (minutely?.time ?? []).map((time, i) => ({
+      time: time - QUARTER_HOUR_S,
+      precipitationMmH: (minutely?.precipitation[i] ?? 0) * 4,
+    })),
+    hourly: hourly.time.map((time, i) => ({
+      time,
+      temp: hourly.temperature_2m[i],
+      condition: toCondition(hourly.weather_code[i], hourly.is_day[i] === 1),
+      precipitationProbability: hourly.precipitation_probability?.[i] ?? null,
+      precipitationMm: hourly.precipitation?.[i] ?? null,
+    })),
+    daily: daily.time.map((time, i) => ({
+      time,
+      tempMin: daily.temperature_2m_min[i],
+      tempMax: daily.temperature_2m_max[i],
+      condition: toCondition(daily.weather_code[i], true),
+      precipitationProbability:
+        daily.precipitation_probability_max?.[i] ?? null,
+    })),
+    alerts: [], // Open-Meteo has no warnings
+    timezone: data.timezone,
+    timezoneOffset: data.utc_offset_seconds,
+  };
+};
+
+/**
+ * Calls Open-Meteo straight from the browser - works without a deployed
+ * /weather function or any API key
+ */
+export class OpenMeteoProvider implements WeatherProvider {
+  readonly type = 'open-meteo';
+
+  async fetchWeather(
+    lat: number,
+    lon: number,
+    signal: AbortSignal
+  ): Promise<WeatherData> {
+    const response = await fetch(
+      `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&${OPEN_METEO_QUERY}`,
+      { signal }
+    );
+    if (!response.ok) {
+      throw new Error(`Open-Meteo API error: ${response.status}`);
+    }
+    return normalizeOpenMeteoWeather(await response.json());
+  }
+}
@@ -0,0 +1,195 @@
+// OpenWeatherMap provider - One Call API 3.0, needs an API key
+import type {
+  WeatherAlert,
+  WeatherAlertSeverity,
+  WeatherCondition,
+  WeatherConditionType,
+  WeatherData,
+  WeatherProvider,
+} from '../../types/weather';
+
+// The parts of the One Call response we read (units=metric)
+interface OwmCondition {
+  id: number;
+  description: string;
+  icon: string;
+}
+
+interface OwmPrecipitation {
+  '1h'?: number;
+}
+
+export interface OwmAlert {
+  sender_name: string;
+  event: string;
+  start: number;
+  end: number;
+  description: string;
+  tags?: string[];
+}
+
+export interface OwmResponse {
+  timezone: string;
+  timezone_offset: number;
+  current: {
+    temp: number;
+    feels_like: number;
+    humidity: number;
+    uvi?: number;
+    wind_speed: number;
+    wind_deg?: number;
+    rain?: OwmPrecipitation;
+    snow?: OwmPrecipitation;
+    weather: OwmCondition[];
+  };
+  minutely?: {
+    dt: number;
+    precipitation: number; // mm/h
+  }[];
+  hourly?: {
+    dt: number;
+    temp: number;
+    pop?: number; // 0-1
+    rain?: OwmPrecipitation;
+    snow?: OwmPrecipitation;
+    weather: OwmCondition[];
+  }[];
+  daily?: {
+    dt: number;
+    temp: { min: number; max: number };
+    pop?: number;
+    weather: OwmCondition[];
+  }[];
+  alerts?: OwmAlert[];
+}
+
+// Condition ids are grouped by hundreds: 2xx thunderstorm, 3xx drizzle, ...
+const toConditionType = (id: number): WeatherConditionType => {
+  if (id >= 200 && id < 300) {
+    return 'thunderstorm';
+  }
+  if (id >= 300 && id < 400) {
+    return 'drizzle';
+  }
+  if (id >= 500 && id < 600) {
+    return 'rain';
+  }
+  if (id >= 600 && id < 700) {
+    return 'snow';
+  }
+  if (id >= 700 && id < 800) {
+    return 'fog';
+  }
+  return id === 800 ? 'clear' : 'clouds';
+};
+
+const toCondition = (weather: OwmCondition[]): WeatherCondition => {
+  const condition = weather[0];
+  if (!condition) {
+    return { type: 'clouds', description: '', icon: '03d' };
+  }
+  return {
+    type: toConditionType(condition.id),
+    description: condition.description,
+    icon: condition.icon,
+  };
+};
+
+// OWM alerts carry no severity field; national services name it in the
+// event instead ("Orange Thunderstorm Warning", "Severe Weather Statement")
+const SEVERITY_KEYWORDS: [WeatherAlertSeverity, RegExp][] = [
+  ['extreme', /\b(extreme|red)\b/i],
+  ['severe', /\b(severe|orange|unwetter)/i],
+  ['moderate', /\b(moderate|yellow|warning)\b/i],
+  ['minor', /\b(minor|advisory|statement|watch)\b/i],
+];
+
+const toAlertSeverity = (event: string): WeatherAlertSeverity =>
+  SEVERITY_KEYWORDS.find(([, pattern]) => pattern.test(event))?.[0] ??
+  'unknown';
+
+/**
+ * One Call alerts to the normalized model - also used by the local fixture
+ */
+export const normalizeOwmAlerts = (alerts: OwmAlert[] = []): WeatherAlert[] =>
+  alerts.map(alert => ({
+    id: `${alert.sender_name}|${alert.event}|${alert.start}`,
+    event: alert.event,
+    severity: toAlertSeverity(alert.event),
+    sender: alert.sender_name,
+    description: alert.description,
+    start: alert.start,
+    end: alert.end,
+  }));
+
+const toPercent = (pop: number | undefined): number | null =>
+  pop === undefined ? null : Math.round(pop * 100);
+
+/**
+ * One Call response (units=metric) to the normalized model
+ */
+export const normalizeOwmWeather = (data: OwmResponse): WeatherData => ({
+  provider: 'owm',
+  current: {
+    temp: data.current.temp,
+    feelsLike: data.current.feels_like,
+    humidity: data.current.humidity,
+    uvi: data.current.uvi ?? null,
+    windSpeed: data.current.wind_speed,
+    windDeg: data.current.wind_deg ?? null,
+    precipitationMmH:
+      (data.current.rain?.['1h'] ?? 0) + (data.current.snow?.['1h'] ?? 0),
+    condition: toCondition(data.current.weather),
+  },
+  minutely: (data.minutely ?? []).map(minute => ({
+    time: minute.dt,
+    precipitationMmH: minute.precipitation,
+  })),
+  hourly: (data.hourly ?? []).map(hour => ({
+    time: hour.dt,
+    temp: hour.temp,
+    condition: toCondition(hour.weather),
+    precipitationProbability: toPercent(hour.pop),
+    // OWM leaves rain/snow out of dry hours
+    precipitationMm: (hour.rain?.['1h'] ?? 0) + (hour.snow?.['1h'] ?? 0),
+  })),
+  daily: (data.daily ?? []).map(day => ({
+    time: day.dt,
+    tempMin: day.temp.min,
+    tempMax: day.temp.max,
+    condition: toCondition(day.weather),
+    precipitationProbability: toPercent(day.pop),
+  })),
+  alerts: normalizeOwmAlerts(data.alerts),
+  timezone: data.timezone,
+  timezoneOffset: data.timezone_offset,
+});
+
+/**
+ * Calls OpenWeatherMap straight from the browser with VITE_OWM_API_KEY.
+ * Exposes the key, so it's meant for testing or as a fallback when the
+ * /weather function is not deployed.
+ */
+export class OwmProvider implements WeatherProvider {
+  readonly type = 'owm';
+
+  async fetchWeather(
+    lat: number,
+    lon: number,
+    signal: AbortSignal
+  ): Promise<WeatherData> {
+    const apiKey = import.meta.env.VITE_OWM_API_KEY;
+    if (!apiKey) {
+      throw new Error('Weather API key not configured');
+    }
+
+    const response = await fetch(
+      `https://api.openweathermap.org/data/3.0/onecall?lat=${lat}&lon=${lon}&units=metric&appid=${apiKey}`,
+      { signal }
+    );
+    if (!response.ok) {
+      throw new Error(`Weather API error: ${response.status}`);
+    }
+    return normalizeOwmWeather(await response.json());
+  }
+}
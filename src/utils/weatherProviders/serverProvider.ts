@@ -0,0 +1,74 @@
+// Server provider - the /weather function, which keeps API keys off the client
+import { normalizeWeatherFixture, type WeatherFixture } from './localProvider';
+import {
+  normalizeOpenMeteoWeather,
+  type OpenMeteoResponse,
+} from './openMeteoProvider';
+import { normalizeOwmWeather, type OwmResponse } from './owmProvider';
+import type {
+  WeatherData,
+  WeatherProvider,
+  WeatherProviderName,
+} from '../../types/weather';
+
+/**
+ * The function answers with the upstream JSON plus `provider` (chosen via
+ * WEATHER_PROVIDER); the matching adapter normalizes it here. Responses
+ * without `provider` come from older deployments, which only spoke OWM.
+ */
+export const normalizeServerWeather = (
+  data: (OwmResponse | OpenMeteoResponse) & { provider?: WeatherProviderName }
+): WeatherData => {
+  switch (data.provider) {
+    case 'open-meteo':
+      return normalizeOpenMeteoWeather(data as OpenMeteoResponse);
+    case 'local':
+      return normalizeWeatherFixture(data as WeatherFixture);
+    case 'owm':
+    default:
+      return normalizeOwmWeather(data as OwmResponse);
+  }
+};
+
+export class ServerWeatherProvider implements WeatherProvider {
+  readonly type = 'server';
+
+  async fetchWeather(
+    lat: number,
+    lon: number,
+    signal: AbortSignal
+  ): Promise<WeatherData> {
+    const response = await fetch(
+      `/weather?lat=${lat}&lon=${lon}&units=metric`,
+      { signal }
+    );
+    const responseText = await response.text();
+    if (!response.ok) {
+      throw new Error(
+        `Weather function error: ${response.status} ${responseText}`
+      );
+    }
+
+    // Static hosting without functions serves the source file instead. Not
+    // a text search - alert descriptions are free text ("export", ...)
+    const contentType = response.headers.get('content-type') ?? '';
+    if (
+      !contentType.includes('json') &&
+      !responseText.trimStart().startsWith('{')
+    ) {
+      throw new Error(
+        'Weather function returned source code (not deployed properly)'
+      );
+    }
+
+    let data;
+    try {
+      data = JSON.parse(responseText);
+    } catch {
+      throw new Error(
+        `Weather function returned invalid JSON: ${responseText.substring(0, 100)}`
+      );
+    }
+    return normalizeServerWeather(data);
+  }
+}
@@ -1,54 +1,35 @@
-import type { WeatherResponse } from '../types/weather';
+import type {
+  WeatherCondition,
+  WeatherData,
+  WeatherProviderType,
+} from '../types/weather';
 import { apiMonitor } from './apiMonitor';
-
-/**
- * Direct OpenWeatherMap API call (requires API key in frontend)
- * This is a fallback if the Cloudflare function is not working
- */
-async function fetchWeatherDirect(
-  lat: number,
-  lon: number,
-  units: string = 'metric'
-): Promise<WeatherResponse> {
-  // This would require exposing the API key in frontend - not recommended for production
-  // but useful for testing
-  const apiKey = import.meta.env.VITE_OWM_API_KEY;
-
-  if (!apiKey) {
-    throw new Error('Weather API key not configured');
-  }
-
-  const apiUrl = `https://api.openweathermap.org/data/3.0/onecall?lat=${lat}&lon=${lon}&units=${units}&exclude=minutely,alerts&appid=${apiKey}`;
-
-  // Create AbortController for timeout handling
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-
-  try {
-    const response = await fetch(apiUrl, {
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      throw new Error(`Weather API error: ${response.status}`);
-    }
-
-    return response.json();
-  } catch (error: any) {
-    clearTimeout(timeoutId);
-    if (error.name === 'AbortError') {
-      throw new Error('Weather API request timed out');
-    }
-    throw error;
-  }
-}
+import { CONFIG } from './config';
+import { rememberRiderTimezone } from './dailyReset';
+import { logger } from './logger';
+import { getWeatherProviderChain } from './weatherProvider';
+
+// Per-provider request timeouts - the function gets less so the browser
+// fallbacks still have time
+const REQUEST_TIMEOUT_MS: Record<WeatherProviderType, number> = {
+  server: 8000,
+  owm: 10000,
+  'open-meteo': 10000,
+  local: 5000,
+};
+
+// apiMonitor endpoint names - the local fixture costs nothing, so it is
+// neither counted nor held back by the daily limit
+const MONITOR_ENDPOINTS: Partial<Record<WeatherProviderType, string>> = {
+  server: 'cloudflare_function',
+  owm: 'direct_api',
+  'open-meteo': 'open_meteo',
+};
 
 /**
  * Generate mock weather data for testing when API is not available
  */
-function generateMockWeather(lat: number, lon: number): WeatherResponse {
+function generateMockWeather(lat: number, lon: number): WeatherData {
   const isNorthern = lat > 0;
   const isSummer = new Date().getMonth() >= 5 && new Date().getMonth() <= 7;
 
@@ -62,12 +43,12 @@ function generateMockWeather(lat: number, lon: number): WeatherResponse {
 
   const currentTemp = baseTemp + (Math.random() - 0.5) * 10;
 
-  const weatherConditions = [
-    { id: 800, main: 'Clear', description: 'clear sky', icon: '01d' },
-    { id: 801, main: 'Clouds', description: 'few clouds', icon: '02d' },
-    { id: 802, main: 'Clouds', description: 'scattered clouds', icon: '03d' },
-    { id: 500, main: 'Rain', description: 'light rain', icon: '10d' },
-    { id: 701, main: 'Mist', description: 'mist', icon: '50d' },
+  const weatherConditions: WeatherCondition[] = [
+    { type: 'clear', description: 'clear sky', icon: '01d' },
+    { type: 'clouds', description: 'few clouds', icon: '02d' },
+    { type: 'clouds', description: 'scattered clouds', icon: '03d' },
+    { type: 'rain', description: 'light rain', icon: '10d' },
+    { type: 'fog', description: 'mist', icon: '50d' },
   ];
 
   const condition =
@@ -104,128 +85,116 @@ function generateMockWeather(lat: number, lon: number): WeatherResponse {
   const uvi = hour >= 6 && hour <= 18 ? Math.random() * 5 : 0; // Basic day/night
 
   return {
+    provider: 'mock',
     current: {
       temp: currentTemp,
-      feels_like: currentTemp + (Math.random() - 0.5) * 5,
+      feelsLike: currentTemp + (Math.random() - 0.5) * 5,
       humidity: Math.round(20 + Math.random() * 65),
       uvi: uvi,
-      weather: [condition],
-      wind_speed: Math.random() * 15,
-      wind_deg: Math.random() * 360,
+      windSpeed: Math.random() * 15,
+      windDeg: Math.random() * 360,
+      precipitationMmH: null,
+      condition,
     },
+    minutely: [],
     daily: [
       {
-        temp: {
-          max: currentTemp + 5 + Math.random() * 8,
-          min: currentTemp - 5 - Math.random() * 8,
-        },
-        weather: [condition],
+        time: Math.floor(Date.now() / 1000),
+        tempMax: currentTemp + 5 + Math.random() * 8,
+        tempMin: currentTemp - 5 - Math.random() * 8,
+        condition,
+        precipitationProbability: null,
       },
     ],
     hourly: Array.from({ length: 24 }, (_, i) => ({
-      dt: Date.now() / 1000 + i * 3600,
+      time: Math.floor(Date.now() / 1000) + i * 3600,
       temp: currentTemp + (Math.random() - 0.5) * 6,
-      weather: [condition],
+      condition,
+      precipitationProbability: null,
+      precipitationMm: null,
     })),
+    alerts: [],
     timezone,
-    timezone_offset: timezoneOffset,
+    timezoneOffset,
   };
 }
 
+export interface WeatherFetchOptions {
+  // Forecast for a point ahead on the route rather than the rider's
+  // position: leaves CONFIG.weather.aheadQuotaReserve calls for the rider,
+  // keeps the rider's timezone and fails instead of returning mock data
+  ahead?: boolean;
+}
+
 /**
- * Main weather fetching function with multiple fallback strategies
+ * Main weather fetching function - tries each provider in turn (see
+ * getWeatherProviderChain) and falls back to mock data
  */
 export async function fetchWeatherData(
   lat: number,
   lon: number,
-  units: string = 'metric'
-): Promise<WeatherResponse> {
-  console.log(`🌤️ Fetching weather for ${lat}, ${lon} (${units})`);
+  { ahead = false }: WeatherFetchOptions = {}
+): Promise<WeatherData> {
+  const providers = getWeatherProviderChain();
+  logger(
+    `🌤️ Fetching weather${ahead ? ' ahead' : ''} for ${lat}, ${lon} (${providers.map(p => p.type).join(' → ')})`
+  );
+
+  const usesApi = providers.some(provider => MONITOR_ENDPOINTS[provider.type]);
 
   // Check API usage limits before making calls
-  if (!apiMonitor.canMakeApiCall()) {
-    console.log('🎭 Weather: API limit reached, using mock data');
+  if (
+    usesApi &&
+    !apiMonitor.canMakeApiCall(ahead ? CONFIG.weather.aheadQuotaReserve : 0)
+  ) {
+    if (ahead) {
+      throw new Error('Weather API calls reserved for the current position');
+    }
+    logger('🎭 Weather: API limit reached, using mock data');
     apiMonitor.recordApiCall('mock_fallback', lat, lon, true, false);
     return generateMockWeather(lat, lon);
   }
 
-  // Strategy 1: Try Cloudflare function first
-  try {
+  for (const provider of providers) {
+    const endpoint = MONITOR_ENDPOINTS[provider.type];
+
     // Create AbortController for timeout handling
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 8000); // 8 second timeout for Cloudflare
-
-    const response = await fetch(
-      `/weather?lat=${lat}&lon=${lon}&units=${units}`,
-      {
-        signal: controller.signal,
-      }
+    const timeoutId = setTimeout(
+      () => controller.abort(),
+      REQUEST_TIMEOUT_MS[provider.type]
     );
 
-    clearTimeout(timeoutId);
-
-    if (response.ok) {
-      const responseText = await response.text();
-
-      // Check if response is JavaScript source code instead of JSON
-      if (
-        responseText.trim().startsWith('//') ||
-        responseText.includes('function') ||
-        responseText.includes('export')
-      ) {
-        console.warn(
-          '⚠️ Weather: Cloudflare function returned source code (not deployed properly)'
-        );
+    try {
+      const data = await provider.fetchWeather(lat, lon, controller.signal);
+      logger(`✅ Weather: ${provider.type} success (${data.provider})`);
+      if (!ahead) {
+        rememberRiderTimezone(data.timezone);
+      }
+      if (endpoint) {
+        apiMonitor.recordApiCall(endpoint, lat, lon, true, false);
+      }
+      return data;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        logger.warn(`⚠️ Weather: ${provider.type} timed out`);
       } else {
-        try {
-          const data = JSON.parse(responseText);
-          console.log('✅ Weather: Cloudflare function success');
-          apiMonitor.recordApiCall(
-            'cloudflare_function',
-            lat,
-            lon,
-            true,
-            false
-          );
-          return data;
-        } catch {
-          console.warn(
-            '⚠️ Weather: Cloudflare function returned invalid JSON:',
-            responseText.substring(0, 100)
-          );
-        }
+        logger.warn(`⚠️ Weather: ${provider.type} failed:`, error);
       }
-    } else {
-      const errorText = await response.text();
-      console.warn(
-        '⚠️ Weather: Cloudflare function failed:',
-        response.status,
-        errorText
-      );
-      apiMonitor.recordApiCall('cloudflare_function', lat, lon, false, false);
-    }
-  } catch (error: any) {
-    if (error.name === 'AbortError') {
-      console.warn('⚠️ Weather: Cloudflare function timed out');
-    } else {
-      console.warn('⚠️ Weather: Cloudflare function error:', error);
+      if (endpoint) {
+        apiMonitor.recordApiCall(endpoint, lat, lon, false, false);
+      }
+    } finally {
+      clearTimeout(timeoutId);
     }
-    apiMonitor.recordApiCall('cloudflare_function', lat, lon, false, false);
   }
 
-  // Strategy 2: Try direct API call (if API key is available)
-  try {
-    const data = await fetchWeatherDirect(lat, lon, units);
-    console.log('✅ Weather: Direct API success');
-    apiMonitor.recordApiCall('direct_api', lat, lon, true, false);
-    return data;
-  } catch (error) {
-    console.warn('⚠️ Weather: Direct API failed:', error);
-    apiMonitor.recordApiCall('direct_api', lat, lon, false, false);
+  if (ahead) {
+    throw new Error('All weather providers failed');
   }
 
-  // Strategy 3: Use mock data as final fallback
-  console.log('🎭 Weather: Using mock data (all other methods failed)');
+  // Use mock data as final fallback
+  logger('🎭 Weather: Using mock data (all other methods failed)');
   apiMonitor.recordApiCall('mock_fallback', lat, lon, true, false);
   return generateMockWeather(lat, lon);
 }
@@ -0,0 +1,145 @@
+// Weather Units - how the metric weather model is shown
+// Each unit can be set on its own via URL parameter; the rest follow the
+// trip's km/miles setting so a miles-mode stream doesn't show °C and km/h
+
+import { logger } from './logger';
+import type {
+  PrecipitationUnit,
+  TemperatureUnit,
+  WeatherUnits,
+  WindUnit,
+} from '../types/weather';
+
+const TEMPERATURE_UNITS: TemperatureUnit[] = ['c', 'f'];
+const WIND_UNITS: WindUnit[] = ['kmh', 'mph', 'ms', 'kn', 'bft'];
+const PRECIPITATION_UNITS: PrecipitationUnit[] = ['mm', 'in'];
+
+const METRIC_UNITS: WeatherUnits = {
+  temperature: 'c',
+  wind: 'kmh',
+  precipitation: 'mm',
+};
+
+const IMPERIAL_UNITS: WeatherUnits = {
+  temperature: 'f',
+  wind: 'mph',
+  precipitation: 'in',
+};
+
+// Upper wind speed (m/s) of Beaufort forces 0-11; anything above is 12
+const BEAUFORT_LIMITS_MS = [
+  0.5, 1.6, 3.4, 5.5, 8.0, 10.8, 13.9, 17.2, 20.8, 24.5, 28.5, 32.7,
+];
+
+let cachedOverrides: Partial<WeatherUnits> | null = null;
+
+function readUnitParam<T extends string>(
+  params: URLSearchParams,
+  name: string,
+  allowed: T[]
+): T | undefined {
+  const value = params.get(name);
+  if (!value) {
+    return undefined;
+  }
+  if ((allowed as string[]).includes(value)) {
+    return value as T;
+  }
+  logger.warn(
+    `Invalid ${name} parameter:`,
+    value,
+    `(must be ${allowed.join(', ')})`
+  );
+  return undefined;
+}
+
+/**
+ * Units set via ?tempUnit=, ?windUnit= and ?precipUnit=
+ */
+export const getWeatherUnitOverrides = (): Partial<WeatherUnits> => {
+  if (cachedOverrides) {
+    return cachedOverrides;
+  }
+
+  const params = new URLSearchParams(window.location.search);
+  const overrides: Partial<WeatherUnits> = {};
+  const temperature = readUnitParam(params, 'tempUnit', TEMPERATURE_UNITS);
+  const wind = readUnitParam(params, 'windUnit', WIND_UNITS);
+  const precipitation = readUnitParam(
+    params,
+    'precipUnit',
+    PRECIPITATION_UNITS
+  );
+  if (temperature) {
+    overrides.temperature = temperature;
+  }
+  if (wind) {
+    overrides.wind = wind;
+  }
+  if (precipitation) {
+    overrides.precipitation = precipitation;
+  }
+
+  cachedOverrides = overrides;
+  return overrides;
+};
+
+/**
+ * URL overrides on top of the defaults for the trip's distance unit
+ */
+export const resolveWeatherUnits = (
+  tripUnits: 'km' | 'miles',
+  overrides: Partial<WeatherUnits> = getWeatherUnitOverrides()
+): WeatherUnits => ({
+  ...(tripUnits === 'miles' ? IMPERIAL_UNITS : METRIC_UNITS),
+  ...overrides,
+});
+
+export const toBeaufort = (metersPerSecond: number): number => {
+  const force = BEAUFORT_LIMITS_MS.findIndex(limit => metersPerSecond < limit);
+  return force === -1 ? BEAUFORT_LIMITS_MS.length : force;
+};
+
+// "21.5°C" / "70.7°F"
+export const formatTemperature = (
+  celsius: number,
+  unit: TemperatureUnit
+): string =>
+  unit === 'f'
+    ? `${((celsius * 9) / 5 + 32).toFixed(1)}°F`
+    : `${celsius.toFixed(1)}°C`;
+
+// "22°" - for compact forecasts where the unit is implied
+export const formatTemperatureShort = (
+  celsius: number,
+  unit: TemperatureUnit
+): string => `${Math.round(unit === 'f' ? (celsius * 9) / 5 + 32 : celsius)}°`;
+
+// "12.6 km/h", "7.8 mph", "3.5 m/s", "6.8 kn" or "3 Bft"
+export const formatWindSpeed = (
+  metersPerSecond: number,
+  unit: WindUnit
+): string => {
+  switch (unit) {
+    case 'mph':
+      return `${(metersPerSecond * 2.236936).toFixed(1)} mph`;
+    case 'ms':
+      return `${metersPerSecond.toFixed(1)} m/s`;
+    case 'kn':
+      return `${(metersPerSecond * 1.943844).toFixed(1)} kn`;
+    case 'bft':
+      return `${toBeaufort(metersPerSecond)} Bft`;
+    case 'kmh':
+    default:
+      return `${(metersPerSecond * 3.6).toFixed(1)} km/h`;
+  }
+};
+
+// "1.2 mm" / "0.05 in"
+export const formatPrecipitation = (
+  millimeters: number,
+  unit: PrecipitationUnit
+): string =>
+  unit === 'in'
+    ? `${(millimeters / 25.4).toFixed(2)} in`
+    : `${millimeters.toFixed(1)} mm`;
@@ -48,6 +48,7 @@ export default defineConfig({
       // Uncomment these lines if you want to proxy to a local function server
       // '/weather': 'http://localhost:8787',
       // '/geocode': 'http://localhost:8787',
+      // '/elevation': 'http://localhost:8787',
     },
   },
   build: {
@@ -56,6 +57,7 @@ export default defineConfig({
         main: path.resolve(__dirname, 'index.html'),
         trip: path.resolve(__dirname, 'trip.html'),
         dashboard: path.resolve(__dirname, 'dashboard.html'),
+        map: path.resolve(__dirname, 'map.html'),
       },
     },
   },